@@ -0,0 +1,321 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { createReadStream, promises as fs } from 'fs';
+import { createInterface } from 'readline';
+import { GenbankRecord, GenbankSegment, parseGenbank, readGenbankRecords } from './genbank.js';
+
+// Annotation interfaces
+export type AnnotationFormat = 'gff3' | 'gtf' | 'genbank';
+
+export interface AnnotationFeature {
+  // GFF3 ID, or gene_id/transcript_id in GTF; features without one get an ID from their type and location
+  id: string;
+  seqid: string;
+  source: string;
+  type: string;
+  // 1-based, inclusive
+  start: number;
+  end: number;
+  score?: number;
+  strand: string;
+  phase?: number;
+  parent_ids: string[];
+  attributes: Record<string, string>;
+  // GenBank features: the location as written and its segments, e.g. the exons of a join()
+  location?: string;
+  segments?: GenbankSegment[];
+}
+
+export interface AnnotationQuery {
+  seqid?: string;
+  start?: number;
+  end?: number;
+  types?: string[];
+  // Matches the ID, Name, gene, gene_id, gene_name or locus_tag attribute
+  name?: string;
+  // Only features without a parent, e.g. genes rather than their transcripts and exons
+  topLevel?: boolean;
+}
+
+// Parsed annotation files kept in memory, least recently used first
+const MAX_CACHED_INDEXES = 4;
+
+const NAME_ATTRIBUTES = ['Name', 'gene', 'gene_id', 'gene_name', 'locus_tag'];
+
+// GFF3 escapes reserved characters as %XX; a stray % that is not an escape is kept as written
+const decodeGff3Value = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch (error) {
+    if (error instanceof URIError) return value;
+    throw error;
+  }
+};
+
+const parseGff3Attributes = (text: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const pair of text.split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) continue;
+    const value = pair.slice(separator + 1).trim();
+    attributes[pair.slice(0, separator).trim()] = value.split(',').map(decodeGff3Value).join(',');
+  }
+  return attributes;
+};
+
+// GTF attributes are key "value" pairs; repeated keys such as tag are joined with commas
+const parseGtfAttributes = (text: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(/(\S+)\s+(?:"([^"]*)"|([^;\s]+))\s*;?/g)) {
+    const value = match[2] ?? match[3];
+    attributes[match[1]] = attributes[match[1]] !== undefined ? `${attributes[match[1]]},${value}` : value;
+  }
+  return attributes;
+};
+
+// One feature line; undefined for comments, directives and malformed lines
+export const parseFeatureLine = (line: string, format: AnnotationFormat): AnnotationFeature | undefined => {
+  if (!line || line.startsWith('#')) return undefined;
+  const columns = line.split('\t');
+  if (columns.length < 9) return undefined;
+
+  const [seqid, source, type, start, end, score, strand, phase, attributeText] = columns;
+  const attributes = format === 'gtf' ? parseGtfAttributes(attributeText) : parseGff3Attributes(attributeText);
+  let id: string | undefined;
+  let parentIds: string[] = [];
+  if (format === 'gff3') {
+    id = attributes.ID;
+    parentIds = attributes.Parent ? attributes.Parent.split(',') : [];
+  } else if (type === 'gene') {
+    id = attributes.gene_id;
+  } else if (type === 'transcript') {
+    id = attributes.transcript_id;
+    parentIds = attributes.gene_id ? [attributes.gene_id] : [];
+  } else {
+    // Linked to its transcript, or to the gene once the transcripts are known (see linkGtfParents)
+    parentIds = [attributes.transcript_id || attributes.gene_id].filter(Boolean);
+  }
+
+  return {
+    id: id || `${type}:${seqid}:${start}-${end}`,
+    seqid,
+    source,
+    type,
+    start: parseInt(start),
+    end: parseInt(end),
+    ...(score !== '.' && { score: Number(score) }),
+    strand,
+    ...(phase !== '.' && { phase: parseInt(phase) }),
+    parent_ids: parentIds,
+    attributes,
+  };
+};
+
+// GTF exons and CDSs name a transcript_id even without a transcript line (NCBI uses "unassigned_transcript_N");
+// those are attached to their gene instead
+const linkGtfParents = (features: AnnotationFeature[]) => {
+  const transcripts = new Set(features.filter((feature) => feature.type === 'transcript').map((feature) => feature.id));
+  for (const feature of features) {
+    if (feature.type === 'gene' || feature.type === 'transcript') continue;
+    const transcriptId = feature.attributes.transcript_id;
+    feature.parent_ids = transcriptId && transcripts.has(transcriptId)
+      ? [transcriptId]
+      : [feature.attributes.gene_id].filter(Boolean);
+  }
+};
+
+// GenBank features have no IDs or parents; they get IDs in the style of NCBI's GFF3 and are linked
+// to the gene with the same locus_tag or gene qualifier
+export const genbankAnnotation = (record: GenbankRecord): AnnotationFeature[] => {
+  const seqid = record.version || record.accession;
+  const geneName = (qualifiers: Record<string, string>) => qualifiers.locus_tag || qualifiers.gene;
+  const genes = new Set(record.features.filter((feature) => feature.key === 'gene').map((feature) => geneName(feature.qualifiers)));
+
+  return record.features.map((feature) => {
+    const { qualifiers } = feature;
+    const gene = geneName(qualifiers);
+    let id = `${feature.key}:${seqid}:${feature.start}-${feature.end}`;
+    if (feature.key === 'gene' && gene) id = `gene-${gene}`;
+    else if (feature.key === 'CDS' && qualifiers.protein_id) id = `cds-${qualifiers.protein_id}`;
+    else if (qualifiers.transcript_id) id = `rna-${qualifiers.transcript_id}`;
+    return {
+      id,
+      seqid,
+      source: 'GenBank',
+      type: feature.key,
+      start: feature.start,
+      end: feature.end,
+      strand: feature.strand,
+      ...(qualifiers.codon_start && { phase: parseInt(qualifiers.codon_start) - 1 }),
+      parent_ids: feature.key !== 'gene' && gene && genes.has(gene) ? [`gene-${gene}`] : [],
+      attributes: qualifiers,
+      location: feature.location,
+      segments: feature.segments,
+    };
+  });
+};
+
+export const parseAnnotation = (text: string, format: AnnotationFormat): AnnotationFeature[] => {
+  if (format === 'genbank') return parseGenbank(text).flatMap(genbankAnnotation);
+  const features: AnnotationFeature[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    // GFF3 files may end with the sequences themselves
+    if (line.startsWith('##FASTA')) break;
+    const feature = parseFeatureLine(line, format);
+    if (feature) features.push(feature);
+  }
+  if (format === 'gtf') linkGtfParents(features);
+  return features;
+};
+
+// Features of one sequence sorted by start, with the largest end seen so far at each position, so that
+// overlap queries can skip every feature that ends before the region without scanning it
+interface SeqidIndex {
+  features: AnnotationFeature[];
+  maxEnd: number[];
+}
+
+// First index in [0, length) for which the predicate holds, given that it holds for every later index too
+const firstIndex = (length: number, predicate: (index: number) => boolean): number => {
+  let low = 0;
+  let high = length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (predicate(middle)) high = middle;
+    else low = middle + 1;
+  }
+  return low;
+};
+
+// Interval index over annotation features, per seqid, with parent/child links
+export class AnnotationIndex {
+  private bySeqid = new Map<string, SeqidIndex>();
+  private byId = new Map<string, AnnotationFeature[]>();
+  private children = new Map<string, AnnotationFeature[]>();
+
+  constructor(features: AnnotationFeature[]) {
+    for (const feature of features) {
+      if (!this.bySeqid.has(feature.seqid)) this.bySeqid.set(feature.seqid, { features: [], maxEnd: [] });
+      this.bySeqid.get(feature.seqid)!.features.push(feature);
+      if (!this.byId.has(feature.id)) this.byId.set(feature.id, []);
+      this.byId.get(feature.id)!.push(feature);
+      for (const parentId of feature.parent_ids) {
+        if (!this.children.has(parentId)) this.children.set(parentId, []);
+        this.children.get(parentId)!.push(feature);
+      }
+    }
+    for (const entry of this.bySeqid.values()) {
+      entry.features.sort((a, b) => a.start - b.start || b.end - a.end);
+      let maxEnd = 0;
+      entry.maxEnd = entry.features.map((feature) => (maxEnd = Math.max(maxEnd, feature.end)));
+    }
+  }
+
+  get seqids(): string[] {
+    return [...this.bySeqid.keys()];
+  }
+
+  get size(): number {
+    let size = 0;
+    for (const entry of this.bySeqid.values()) size += entry.features.length;
+    return size;
+  }
+
+  // Features overlapping start..end on one sequence, by start position
+  overlapping(seqid: string, start = 1, end = Infinity): AnnotationFeature[] {
+    const entry = this.bySeqid.get(seqid);
+    if (!entry) return [];
+    const first = firstIndex(entry.features.length, (index) => entry.maxEnd[index] >= start);
+    const last = firstIndex(entry.features.length, (index) => entry.features[index].start > end);
+    return entry.features.slice(first, last).filter((feature) => feature.end >= start);
+  }
+
+  query(query: AnnotationQuery): AnnotationFeature[] {
+    if (query.seqid && !this.bySeqid.has(query.seqid)) {
+      throw new McpError(ErrorCode.InvalidParams, `No annotation on sequence ${query.seqid}; annotated sequences: ${this.seqids.slice(0, 20).join(', ')}`);
+    }
+    const types = query.types?.length ? new Set(query.types.map((type) => type.toLowerCase())) : undefined;
+    const name = query.name?.toLowerCase();
+    return (query.seqid ? [query.seqid] : this.seqids)
+      .flatMap((seqid) => this.overlapping(seqid, query.start, query.end))
+      .filter((feature) =>
+        (!types || types.has(feature.type.toLowerCase())) &&
+        (!query.topLevel || !feature.parent_ids.length) &&
+        (!name || feature.id.toLowerCase() === name || NAME_ATTRIBUTES.some((key) => feature.attributes[key]?.toLowerCase() === name))
+      );
+  }
+
+  // A GFF3 ID may span several lines, e.g. the segments of a spliced CDS
+  feature(id: string): AnnotationFeature[] {
+    return this.byId.get(id) || [];
+  }
+
+  childrenOf(id: string): AnnotationFeature[] {
+    return this.children.get(id) || [];
+  }
+
+  // Parent chain up to the top-level feature, nearest first
+  ancestorsOf(feature: AnnotationFeature): AnnotationFeature[] {
+    const ancestors: AnnotationFeature[] = [];
+    const seen = new Set<string>([feature.id]);
+    let parentId = feature.parent_ids[0];
+    while (parentId && !seen.has(parentId)) {
+      seen.add(parentId);
+      const [parent] = this.feature(parentId);
+      if (!parent) break;
+      ancestors.push(parent);
+      parentId = parent.parent_ids[0];
+    }
+    return ancestors;
+  }
+
+  // Count of features by type
+  typeCounts(features: AnnotationFeature[]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const feature of features) counts[feature.type] = (counts[feature.type] || 0) + 1;
+    return counts;
+  }
+}
+
+const readAnnotationFile = async (file: string, format: AnnotationFormat): Promise<AnnotationFeature[]> => {
+  if (format === 'genbank') {
+    const features: AnnotationFeature[] = [];
+    for await (const record of readGenbankRecords(file)) features.push(...genbankAnnotation(record));
+    return features;
+  }
+
+  const lines = createInterface({ input: createReadStream(file), crlfDelay: Infinity });
+  const features: AnnotationFeature[] = [];
+  try {
+    for await (const line of lines) {
+      if (line.startsWith('##FASTA')) break;
+      const feature = parseFeatureLine(line, format);
+      if (feature) features.push(feature);
+    }
+  } finally {
+    lines.close();
+  }
+  if (format === 'gtf') linkGtfParents(features);
+  return features;
+};
+
+const cachedIndexes = new Map<string, { signature: string; index: AnnotationIndex }>();
+
+// Index the annotation files of an assembly; rebuilt when any of the files changes
+export const loadAnnotationIndex = async (files: string[], format: AnnotationFormat): Promise<AnnotationIndex> => {
+  const key = `${format}:${files.join('\n')}`;
+  const stats = await Promise.all(files.map((file) => fs.stat(file)));
+  const signature = stats.map((stat) => `${stat.size}:${stat.mtimeMs}`).join(',');
+
+  const cached = cachedIndexes.get(key);
+  cachedIndexes.delete(key);
+  if (cached?.signature === signature) {
+    cachedIndexes.set(key, cached);
+    return cached.index;
+  }
+
+  const features = (await Promise.all(files.map((file) => readAnnotationFile(file, format)))).flat();
+  const index = new AnnotationIndex(features);
+  cachedIndexes.set(key, { signature, index });
+  if (cachedIndexes.size > MAX_CACHED_INDEXES) cachedIndexes.delete(cachedIndexes.keys().next().value!);
+  return index;
+};
@@ -0,0 +1,166 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { spawn } from 'child_process';
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { BlastHit, BlastOptions, BlastProgram, parseBlastTabular, queryTypeOf } from './blast.js';
+import { WorkspaceOptions, workspacePath } from './packages.js';
+
+// Local BLAST+ interfaces
+export interface LocalDatabase {
+  // Database path as passed to -db
+  path: string;
+  type: 'nucleotide' | 'protein';
+  // false when an identical database from an earlier search was reused
+  built: boolean;
+  sources: string[];
+}
+
+export interface LocalBlastQuery {
+  program: BlastProgram;
+  query: string;
+  expect: number;
+  maxTargetSeqs: number;
+  megablast?: boolean;
+}
+
+// Databases built by makeblastdb are kept under <workspace>/blastdb/, one directory per set of subject files
+export const BLASTDB_DIRECTORY = 'blastdb';
+
+const SOURCES_FILE = 'sources.json';
+const SNIFF_BYTES = 64 * 1024;
+
+// Requested with -outfmt 6, in this order
+const OUTPUT_COLUMNS = ['qaccver', 'saccver', 'pident', 'length', 'mismatch', 'gapopen', 'qstart', 'qend', 'sstart', 'send', 'evalue', 'bitscore', 'slen', 'stitle'];
+
+// User-supplied subject files are read from the workspace only
+export const workspaceFile = async (workspace: WorkspaceOptions, file: string): Promise<string> => {
+  const resolved = path.resolve(workspace.directory, file);
+  if (!resolved.startsWith(workspace.directory + path.sep)) {
+    throw new McpError(ErrorCode.InvalidParams, `Subject file ${file} is outside the workspace directory ${workspace.directory}`);
+  }
+  const stat = await fs.stat(resolved).catch(() => undefined);
+  if (!stat?.isFile()) {
+    throw new McpError(ErrorCode.InvalidParams, `Subject file ${file} does not exist in the workspace`);
+  }
+  return resolved;
+};
+
+// Molecule type of a FASTA file, from its first residues
+export const fastaTypeOf = async (file: string): Promise<'nucleotide' | 'protein'> => {
+  const handle = await fs.open(file, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(SNIFF_BYTES), 0, SNIFF_BYTES, 0);
+    return queryTypeOf(buffer.subarray(0, bytesRead).toString('utf8'));
+  } finally {
+    await handle.close();
+  }
+};
+
+// Run a BLAST+ binary, feeding it input on stdin; killed on abort or after the timeout
+const runBinary = (binary: string, args: string[], options: { input?: string; timeoutMs: number; signal?: AbortSignal }): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const name = path.basename(binary);
+    const child = spawn(binary, args, { signal: options.signal, timeout: options.timeoutMs, stdio: ['pipe', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    // The binary may exit before reading all of its input
+    child.stdin.on('error', () => undefined);
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (options.signal?.aborted) reject(new McpError(ErrorCode.InternalError, `${name} cancelled`));
+      else if (error.code === 'ENOENT' || error.code === 'EACCES') reject(new McpError(ErrorCode.InternalError, `Cannot run BLAST+ binary ${binary}: ${error.code}`));
+      else reject(error);
+    });
+    child.on('close', (code, signal) => {
+      if (code === 0) return resolve(Buffer.concat(stdout).toString('utf8'));
+      if (options.signal?.aborted) return;
+      const message = Buffer.concat(stderr).toString('utf8').trim().slice(0, 1000);
+      reject(new McpError(ErrorCode.InternalError,
+        signal === 'SIGTERM' ? `${name} did not finish within ${Math.round(options.timeoutMs / 1000)}s` : `${name} exited with ${code ?? signal}${message ? `: ${message}` : ''}`));
+    });
+    child.stdin.end(options.input ?? '');
+  });
+
+// Build a BLAST database from FASTA files, or reuse the one built earlier from the same unchanged files
+export const ensureDatabase = async (
+  options: BlastOptions,
+  workspace: WorkspaceOptions,
+  files: string[],
+  type: 'nucleotide' | 'protein',
+  signal?: AbortSignal
+): Promise<LocalDatabase> => {
+  if (!options.local.makeblastdb) {
+    throw new McpError(ErrorCode.InvalidParams, 'Local BLAST needs makeblastdb; set NCBI_MAKEBLASTDB_PATH');
+  }
+
+  const sources = [...new Set(files)].sort();
+  const fingerprint = await Promise.all(sources.map(async (file) => {
+    const stat = await fs.stat(file);
+    return { path: file, size_bytes: stat.size, modified_ms: stat.mtimeMs };
+  }));
+  const key = createHash('sha256').update(JSON.stringify({ type, fingerprint })).digest('hex').slice(0, 16);
+  const directory = workspacePath(workspace, BLASTDB_DIRECTORY, key);
+  const database = path.join(directory, 'db');
+
+  const existing = await fs.readFile(path.join(directory, SOURCES_FILE), 'utf8').catch(() => undefined);
+  if (existing) return { path: database, type, built: false, sources };
+
+  // makeblastdb takes a space-separated list for -in, so subjects are joined into one file instead
+  await fs.rm(directory, { recursive: true, force: true });
+  await fs.mkdir(directory, { recursive: true });
+  const combined = path.join(directory, 'subjects.fasta');
+  const output = createWriteStream(combined);
+  for (const file of sources) {
+    await pipeline(createReadStream(file), output, { end: false });
+    output.write('\n');
+  }
+  await new Promise<void>((resolve, reject) => output.end((error?: Error | null) => error ? reject(error) : resolve()));
+
+  try {
+    await runBinary(options.local.makeblastdb, [
+      '-in', combined,
+      '-dbtype', type === 'protein' ? 'prot' : 'nucl',
+      '-out', database,
+      '-parse_seqids',
+      '-title', sources.map((file) => path.basename(file)).join(', '),
+    ], { timeoutMs: options.timeoutMs, signal });
+  } catch (error) {
+    await fs.rm(directory, { recursive: true, force: true });
+    throw error;
+  } finally {
+    await fs.rm(combined, { force: true });
+  }
+
+  // Written last, so an interrupted build is never reused
+  await fs.writeFile(path.join(directory, SOURCES_FILE), JSON.stringify({ type, sources: fingerprint }, null, 2));
+  return { path: database, type, built: true, sources };
+};
+
+// Search a local database with a BLAST+ program, reading tabular output into typed hits
+export const runLocalBlast = async (
+  options: BlastOptions,
+  database: LocalDatabase,
+  query: LocalBlastQuery,
+  signal?: AbortSignal
+): Promise<BlastHit[]> => {
+  const binary = options.local.programs[query.program];
+  if (!binary) {
+    throw new McpError(ErrorCode.InvalidParams, `Local BLAST has no ${query.program} binary; set NCBI_${query.program.toUpperCase()}_PATH`);
+  }
+
+  const args = [
+    '-db', database.path,
+    '-query', '-',
+    '-outfmt', `6 ${OUTPUT_COLUMNS.join(' ')}`,
+    '-evalue', String(query.expect),
+    '-max_target_seqs', String(query.maxTargetSeqs),
+  ];
+  if (query.program === 'blastn') args.push('-task', query.megablast ? 'megablast' : 'blastn');
+
+  const output = await runBinary(binary, args, { input: query.query, timeoutMs: options.timeoutMs, signal });
+  return parseBlastTabular(output, OUTPUT_COLUMNS);
+};
@@ -0,0 +1,319 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { AxiosInstance } from 'axios';
+import { parseFasta } from './sequences.js';
+
+// BLAST interfaces
+export type BlastProgram = 'blastn' | 'blastp' | 'blastx' | 'tblastn' | 'tblastx';
+
+export interface BlastOptions {
+  // BLAST Common URL API endpoint (Blast.cgi), or a stand-in that speaks the same protocol
+  url: string;
+  // Delay between status checks for one search; NCBI asks for no more than one per minute
+  pollIntervalMs: number;
+  timeoutMs: number;
+  // BLAST+ binaries for the local backend; programs without one run only at NCBI
+  local: {
+    makeblastdb?: string;
+    programs: Partial<Record<BlastProgram, string>>;
+  };
+}
+
+export interface BlastQuery {
+  program: BlastProgram;
+  database: string;
+  query: string;
+  expect: number;
+  hitlistSize: number;
+  // Entrez query limiting the subjects, e.g. txid562[Organism:exp]
+  entrezQuery?: string;
+  megablast?: boolean;
+}
+
+// One high-scoring segment pair; subjects with several HSPs appear once per HSP
+export interface BlastHit {
+  accession: string;
+  title?: string;
+  taxid?: number;
+  scientific_name?: string;
+  subject_length?: number;
+  percent_identity: number;
+  alignment_length: number;
+  mismatches?: number;
+  gaps?: number;
+  gap_opens?: number;
+  evalue: number;
+  bit_score: number;
+  query_start: number;
+  query_end: number;
+  subject_start: number;
+  subject_end: number;
+  subject_strand?: 'plus' | 'minus';
+}
+
+export interface BlastSearchResult {
+  rid: string;
+  hits: BlastHit[];
+}
+
+export const DEFAULT_BLAST_URL = 'https://blast.ncbi.nlm.nih.gov/Blast.cgi';
+
+// Databases offered by blast_search, the BLAST database name each maps to and the molecule type it holds
+export const BLAST_DATABASES: Record<string, { name: string; type: 'nucleotide' | 'protein' }> = {
+  nt: { name: 'nt', type: 'nucleotide' },
+  refseq_genomic: { name: 'refseq_genomes', type: 'nucleotide' },
+  refseq_rna: { name: 'refseq_rna', type: 'nucleotide' },
+  nr: { name: 'nr', type: 'protein' },
+  refseq_protein: { name: 'refseq_protein', type: 'protein' },
+  swissprot: { name: 'swissprot', type: 'protein' },
+  pdb: { name: 'pdb', type: 'protein' },
+};
+
+// Molecule types of each program's query and database
+export const BLAST_PROGRAMS: Record<BlastProgram, { query: 'nucleotide' | 'protein'; database: 'nucleotide' | 'protein' }> = {
+  blastn: { query: 'nucleotide', database: 'nucleotide' },
+  blastp: { query: 'protein', database: 'protein' },
+  blastx: { query: 'nucleotide', database: 'protein' },
+  tblastn: { query: 'protein', database: 'nucleotide' },
+  tblastx: { query: 'nucleotide', database: 'nucleotide' },
+};
+
+const TOOL_NAME = 'ncbi-datasets-mcp';
+
+export const blastOptionsFromEnv = (env: NodeJS.ProcessEnv = process.env): BlastOptions => ({
+  url: env.NCBI_BLAST_URL || DEFAULT_BLAST_URL,
+  pollIntervalMs: parseInt(env.NCBI_BLAST_POLL_INTERVAL || '60000'),
+  timeoutMs: parseInt(env.NCBI_BLAST_TIMEOUT || String(30 * 60 * 1000)),
+  // NCBI_MAKEBLASTDB_PATH, NCBI_BLASTN_PATH, NCBI_BLASTP_PATH, ...
+  local: {
+    makeblastdb: env.NCBI_MAKEBLASTDB_PATH || undefined,
+    programs: Object.fromEntries(Object.keys(BLAST_PROGRAMS)
+      .map((program) => [program, env[`NCBI_${program.toUpperCase()}_PATH`]])
+      .filter(([, binary]) => binary)),
+  },
+});
+
+// Nucleotide when nearly all residues are bases or N, otherwise protein
+export const queryTypeOf = (query: string): 'nucleotide' | 'protein' => {
+  const residues = parseFasta(query, 'query').map((record) => record.sequence).join('').replace(/[-.*]/g, '');
+  const bases = residues.match(/[ACGTUN]/gi)?.length || 0;
+  return residues.length && bases / residues.length >= 0.9 ? 'nucleotide' : 'protein';
+};
+
+// The program for a query and database type, or a check that the requested one fits them
+export const blastProgramFor = (
+  queryType: 'nucleotide' | 'protein',
+  databaseType: 'nucleotide' | 'protein',
+  databaseLabel: string,
+  program?: BlastProgram
+): BlastProgram => {
+  const chosen = program || (Object.keys(BLAST_PROGRAMS) as BlastProgram[]).find((name) =>
+    BLAST_PROGRAMS[name].query === queryType && BLAST_PROGRAMS[name].database === databaseType)!;
+  const expected = BLAST_PROGRAMS[chosen];
+  if (expected.query !== queryType || expected.database !== databaseType) {
+    throw new McpError(ErrorCode.InvalidParams,
+      `${chosen} needs a ${expected.query} query and a ${expected.database} database; got a ${queryType} query and ${databaseLabel} (${databaseType})`);
+  }
+  return chosen;
+};
+
+// Subjects from one organism and its descendants: a taxonomy ID, or an organism name
+export const organismEntrezQuery = (organism: string | number): string =>
+  /^\d+$/.test(String(organism)) ? `txid${organism}[Organism:exp]` : `"${String(organism).replace(/"/g, '')}"[Organism:exp]`;
+
+// Values in the QBlastInfo block of Put and SearchInfo responses, e.g. "RID = 8ZJ3XWB3016"
+const qblastInfo = (text: string, name: string): string | undefined =>
+  new RegExp(`^\\s*${name}\\s*=\\s*(\\S+)`, 'm').exec(text)?.[1];
+
+const roundPercent = (value: number) => Math.round(value * 100) / 100;
+
+// BLAST JSON2 (FORMAT_TYPE=JSON2_S): BlastOutput2[].report.results.search.hits[].hsps[]
+export const parseBlastJson2 = (data: any): BlastHit[] => {
+  const outputs = Array.isArray(data?.BlastOutput2) ? data.BlastOutput2 : [data?.BlastOutput2].filter(Boolean);
+  const hits: BlastHit[] = [];
+  for (const output of outputs) {
+    for (const hit of output.report?.results?.search?.hits || []) {
+      const description = hit.description?.[0] || {};
+      for (const hsp of hit.hsps || []) {
+        hits.push({
+          accession: description.accession || description.id,
+          title: description.title,
+          taxid: description.taxid,
+          scientific_name: description.sciname,
+          subject_length: hit.len,
+          percent_identity: roundPercent((hsp.identity / hsp.align_len) * 100),
+          alignment_length: hsp.align_len,
+          gaps: hsp.gaps ?? 0,
+          evalue: hsp.evalue,
+          bit_score: hsp.bit_score,
+          query_start: hsp.query_from,
+          query_end: hsp.query_to,
+          subject_start: hsp.hit_from,
+          subject_end: hsp.hit_to,
+          ...(hsp.hit_strand && { subject_strand: String(hsp.hit_strand).toLowerCase() === 'minus' ? 'minus' : 'plus' }),
+        });
+      }
+    }
+  }
+  return hits;
+};
+
+// Column names in "# Fields:" comment lines, by their -outfmt specifier
+const TABULAR_FIELDS: Record<string, string> = {
+  'query id': 'qseqid',
+  'query acc.ver': 'qaccver',
+  'subject id': 'sseqid',
+  'subject acc.ver': 'saccver',
+  'subject title': 'stitle',
+  'subject tax id': 'staxid',
+  'subject sci name': 'ssciname',
+  'subject length': 'slen',
+  '% identity': 'pident',
+  'alignment length': 'length',
+  'mismatches': 'mismatch',
+  'gap opens': 'gapopen',
+  'gaps': 'gaps',
+  'q. start': 'qstart',
+  'q. end': 'qend',
+  's. start': 'sstart',
+  's. end': 'send',
+  'evalue': 'evalue',
+  'bit score': 'bitscore',
+};
+
+// The columns of -outfmt 6 when none are named
+export const DEFAULT_TABULAR_COLUMNS = ['qseqid', 'sseqid', 'pident', 'length', 'mismatch', 'gapopen', 'qstart', 'qend', 'sstart', 'send', 'evalue', 'bitscore'];
+
+const optionalNumber = (value: string | undefined): number | undefined =>
+  value === undefined || value === '' || value === 'N/A' ? undefined : Number(value);
+
+// Tabular output (-outfmt 6/7, or FORMAT_TYPE=Tabular); a "# Fields:" line overrides the given columns
+export const parseBlastTabular = (text: string, columns: string[] = DEFAULT_TABULAR_COLUMNS): BlastHit[] => {
+  let fields = columns;
+  const hits: BlastHit[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (line.startsWith('# Fields:')) {
+      fields = line.slice('# Fields:'.length).split(',').map((name) => TABULAR_FIELDS[name.trim()] || name.trim());
+      continue;
+    }
+    if (!line.trim() || line.startsWith('#')) continue;
+
+    const values = line.split('\t');
+    const row = Object.fromEntries(fields.map((field, index) => [field, values[index]?.trim()]));
+    const subjectStart = Number(row.sstart);
+    const subjectEnd = Number(row.send);
+    hits.push({
+      // sseqid may be a full identifier such as ref|NC_000913.3|
+      accession: row.saccver || row.sseqid?.split('|').filter(Boolean).pop() || '',
+      ...(row.stitle && { title: row.stitle }),
+      ...(optionalNumber(row.staxid?.split(';')[0]) !== undefined && { taxid: optionalNumber(row.staxid?.split(';')[0]) }),
+      ...(row.ssciname && row.ssciname !== 'N/A' && { scientific_name: row.ssciname }),
+      ...(optionalNumber(row.slen) !== undefined && { subject_length: optionalNumber(row.slen) }),
+      percent_identity: Number(row.pident),
+      alignment_length: Number(row.length),
+      ...(optionalNumber(row.mismatch) !== undefined && { mismatches: optionalNumber(row.mismatch) }),
+      ...(optionalNumber(row.gaps) !== undefined && { gaps: optionalNumber(row.gaps) }),
+      ...(optionalNumber(row.gapopen) !== undefined && { gap_opens: optionalNumber(row.gapopen) }),
+      evalue: Number(row.evalue),
+      bit_score: Number(row.bitscore),
+      query_start: Number(row.qstart),
+      query_end: Number(row.qend),
+      subject_start: subjectStart,
+      subject_end: subjectEnd,
+      subject_strand: subjectStart > subjectEnd ? 'minus' : 'plus',
+    });
+  }
+  return hits;
+};
+
+// JSON2 from NCBI; stand-ins that only produce tabular output are accepted too
+export const parseBlastResults = (text: string): BlastHit[] =>
+  text.trimStart().startsWith('{') ? parseBlastJson2(JSON.parse(text)) : parseBlastTabular(text);
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    const abort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+
+// Submit a search (CMD=Put), poll its RID (CMD=Get&FORMAT_OBJECT=SearchInfo) until it is ready, then fetch
+// the hits. Cancelling deletes the search at NCBI; onProgress counts status checks.
+export const runBlastSearch = async (
+  apiClient: AxiosInstance,
+  options: BlastOptions,
+  query: BlastQuery,
+  run: { onProgress?: (checks: number) => void; signal?: AbortSignal } = {}
+): Promise<BlastSearchResult> => {
+  const form = new URLSearchParams({
+    CMD: 'Put',
+    PROGRAM: query.program,
+    DATABASE: query.database,
+    QUERY: query.query,
+    EXPECT: String(query.expect),
+    HITLIST_SIZE: String(query.hitlistSize),
+    TOOL: TOOL_NAME,
+  });
+  if (query.entrezQuery) form.set('ENTREZ_QUERY', query.entrezQuery);
+  if (query.megablast) form.set('MEGABLAST', 'on');
+
+  const submitted = await apiClient.post(options.url, form.toString(), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    responseType: 'text',
+    signal: run.signal,
+  });
+  const rid = qblastInfo(submitted.data, 'RID');
+  if (!rid) {
+    const message = /Error:?\s*([^<\n]+)/i.exec(submitted.data)?.[1]?.trim();
+    throw new McpError(ErrorCode.InvalidParams, `BLAST did not accept the search${message ? `: ${message}` : ''}`);
+  }
+
+  const get = (params: Record<string, string>) =>
+    apiClient.get(options.url, { params: { CMD: 'Get', RID: rid, ...params }, responseType: 'text', signal: run.signal });
+
+  try {
+    // RTOE is NCBI's estimate of the seconds until the search completes
+    const estimate = parseInt(qblastInfo(submitted.data, 'RTOE') || '0') * 1000;
+    const deadline = Date.now() + options.timeoutMs;
+    let delay = estimate || options.pollIntervalMs;
+    for (let checks = 1; ; checks++) {
+      if (Date.now() + delay > deadline) {
+        throw new McpError(ErrorCode.RequestTimeout, `BLAST search ${rid} did not finish within ${Math.round(options.timeoutMs / 1000)}s; NCBI keeps results for 24 hours`);
+      }
+      await wait(delay, run.signal);
+      delay = options.pollIntervalMs;
+
+      const info = (await get({ FORMAT_OBJECT: 'SearchInfo' })).data;
+      run.onProgress?.(checks);
+      const status = qblastInfo(info, 'Status');
+      if (status === 'WAITING') continue;
+      if (status === 'FAILED') {
+        throw new McpError(ErrorCode.InternalError, `BLAST search ${rid} failed at NCBI; check the query, program and database`);
+      }
+      if (status === 'UNKNOWN') {
+        throw new McpError(ErrorCode.InvalidParams, `BLAST search ${rid} is unknown or has expired`);
+      }
+      if (status !== 'READY') {
+        throw new McpError(ErrorCode.InternalError, `Unexpected BLAST status ${status ?? 'response'} for search ${rid}`);
+      }
+      if (qblastInfo(info, 'ThereAreHits') === 'no') return { rid, hits: [] };
+      break;
+    }
+
+    const results = await get({ FORMAT_TYPE: 'JSON2_S' });
+    return { rid, hits: parseBlastResults(results.data) };
+  } catch (error) {
+    if (run.signal?.aborted) {
+      // Best effort: free the search slot at NCBI
+      apiClient.get(options.url, { params: { CMD: 'Delete', RID: rid }, responseType: 'text' }).catch(() => undefined);
+      throw new McpError(ErrorCode.InternalError, `BLAST search ${rid} cancelled`);
+    }
+    throw error;
+  }
+};
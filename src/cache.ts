@@ -0,0 +1,304 @@
+import axios, { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Cache interfaces
+export interface CacheTtlRule {
+  name: string;
+  pattern: RegExp;
+  ttlMs: number;
+}
+
+export interface CacheOptions {
+  enabled: boolean;
+  defaultTtlMs: number;
+  maxEntries: number;
+  // Entries kept on disk; the least recently written are removed past it
+  maxDiskEntries: number;
+  directory?: string;
+  rules: CacheTtlRule[];
+}
+
+interface CacheEntry {
+  key: string;
+  endpoint: string;
+  status: number;
+  headers: Record<string, string>;
+  data: unknown;
+  expiresAt: number;
+}
+
+interface CacheCounters {
+  hits: number;
+  misses: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Taxonomy and finished assembly reports rarely change; searches go stale quickly
+export const DEFAULT_TTL_RULES: CacheTtlRule[] = [
+  { name: 'taxonomy', pattern: /^\/taxonomy\/taxon\//, ttlMs: 24 * HOUR },
+  { name: 'search', pattern: /\/search$|^\/genome\/taxon\//, ttlMs: 15 * MINUTE },
+  { name: 'genome', pattern: /^\/(genome|assembly)\/accession\//, ttlMs: 6 * HOUR },
+  { name: 'gene', pattern: /^\/gene\/id\//, ttlMs: 6 * HOUR },
+];
+
+export const cacheOptionsFromEnv = (env: NodeJS.ProcessEnv = process.env): CacheOptions => {
+  const defaultTtlMs = parseInt(env.NCBI_CACHE_TTL || String(HOUR));
+  return {
+    enabled: env.NCBI_CACHE_ENABLED !== 'false' && defaultTtlMs > 0,
+    defaultTtlMs,
+    maxEntries: parseInt(env.NCBI_CACHE_MAX_ENTRIES || '1000'),
+    maxDiskEntries: parseInt(env.NCBI_CACHE_MAX_DISK_ENTRIES || '10000'),
+    directory: env.NCBI_CACHE_DIR || undefined,
+    rules: DEFAULT_TTL_RULES,
+  };
+};
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private counters = new Map<string, CacheCounters>();
+  // Files in the cache directory, counted on the first write after startup or a removal
+  private diskEntries?: number;
+
+  constructor(private options: CacheOptions) {}
+
+  get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  // Build a stable key from the endpoint and its params, ignoring order and empty values
+  static keyFor(url: string, params?: Record<string, unknown>): string {
+    const query = Object.keys(params || {})
+      .filter((name) => params![name] !== undefined && params![name] !== null && params![name] !== '')
+      .sort()
+      .map((name) => {
+        const value = params![name];
+        const normalized = Array.isArray(value) ? value.map(String).sort().join(',') : String(value);
+        return `${encodeURIComponent(name)}=${encodeURIComponent(normalized)}`;
+      })
+      .join('&');
+    return query ? `${url}?${query}` : url;
+  }
+
+  ruleFor(endpoint: string): { name: string; ttlMs: number } {
+    const rule = this.options.rules.find((candidate) => candidate.pattern.test(endpoint));
+    return rule ? { name: rule.name, ttlMs: rule.ttlMs } : { name: 'default', ttlMs: this.options.defaultTtlMs };
+  }
+
+  async get(key: string, endpoint: string): Promise<CacheEntry | undefined> {
+    const counters = this.countersFor(endpoint);
+    let entry = this.entries.get(key);
+
+    if (!entry && this.options.directory) {
+      entry = await this.readFromDisk(key);
+      if (entry) this.remember(entry);
+    }
+
+    if (entry && entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      entry = undefined;
+    }
+
+    if (entry) {
+      counters.hits++;
+      // Refresh recency so eviction drops the least recently used entry
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    } else {
+      counters.misses++;
+    }
+    return entry;
+  }
+
+  async set(key: string, endpoint: string, response: Pick<CacheEntry, 'status' | 'headers' | 'data'>): Promise<void> {
+    const { ttlMs } = this.ruleFor(endpoint);
+    if (ttlMs <= 0) return;
+
+    const entry: CacheEntry = { key, endpoint, ...response, expiresAt: Date.now() + ttlMs };
+    this.remember(entry);
+
+    // The response was fetched already; a full or read-only disk must not fail the request, only its persistence
+    if (this.options.directory) await this.writeToDisk(entry).catch(() => undefined);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    if (this.options.directory) {
+      this.diskEntries = undefined;
+      await fs.rm(this.fileFor(key), { force: true }).catch(() => undefined);
+    }
+  }
+
+  // Remove every entry, or only those whose endpoint starts with the given prefix
+  async clear(prefix?: string): Promise<number> {
+    const matches = (entry: CacheEntry) => !prefix || entry.endpoint.startsWith(prefix);
+    const removed = new Set<string>();
+
+    for (const [key, entry] of this.entries) {
+      if (matches(entry)) {
+        this.entries.delete(key);
+        removed.add(key);
+      }
+    }
+
+    if (this.options.directory) {
+      for (const file of await this.diskFiles()) {
+        const entry = await this.readFile(file);
+        if (!entry || matches(entry)) {
+          await fs.rm(file, { force: true });
+          if (entry) removed.add(entry.key);
+        }
+      }
+    }
+
+    if (!prefix) this.counters.clear();
+    this.diskEntries = undefined;
+    return removed.size;
+  }
+
+  async stats() {
+    let hits = 0;
+    let misses = 0;
+    const endpoints: Record<string, CacheCounters & { ttl_ms: number }> = {};
+
+    for (const [name, counters] of this.counters) {
+      hits += counters.hits;
+      misses += counters.misses;
+      const rule = this.options.rules.find((candidate) => candidate.name === name);
+      endpoints[name] = { ...counters, ttl_ms: rule ? rule.ttlMs : this.options.defaultTtlMs };
+    }
+
+    return {
+      enabled: this.options.enabled,
+      default_ttl_ms: this.options.defaultTtlMs,
+      max_entries: this.options.maxEntries,
+      persistent_directory: this.options.directory || null,
+      memory_entries: this.entries.size,
+      disk_entries: this.options.directory ? (await this.diskFiles()).length : 0,
+      max_disk_entries: this.options.maxDiskEntries,
+      hits,
+      misses,
+      hit_rate: hits + misses > 0 ? Number((hits / (hits + misses)).toFixed(3)) : 0,
+      endpoints,
+    };
+  }
+
+  private countersFor(endpoint: string): CacheCounters {
+    const { name } = this.ruleFor(endpoint);
+    let counters = this.counters.get(name);
+    if (!counters) {
+      counters = { hits: 0, misses: 0 };
+      this.counters.set(name, counters);
+    }
+    return counters;
+  }
+
+  private remember(entry: CacheEntry) {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private fileFor(key: string): string {
+    const digest = createHash('sha256').update(key).digest('hex');
+    return path.join(this.options.directory!, `${digest}.json`);
+  }
+
+  // Written to a temporary file and renamed into place, so that readers never see a partly written entry
+  private async writeToDisk(entry: CacheEntry) {
+    const file = this.fileFor(entry.key);
+    const temporary = `${file}.${process.pid}-${randomBytes(4).toString('hex')}.tmp`;
+    await fs.mkdir(this.options.directory!, { recursive: true });
+    this.diskEntries ??= (await this.diskFiles()).length;
+    const replaces = await fs.access(file).then(() => true, () => false);
+
+    try {
+      await fs.writeFile(temporary, JSON.stringify(entry));
+      await fs.rename(temporary, file);
+    } catch (error) {
+      await fs.rm(temporary, { force: true }).catch(() => undefined);
+      throw error;
+    }
+
+    if (!replaces) this.diskEntries++;
+    if (this.diskEntries > this.options.maxDiskEntries) await this.pruneDisk();
+  }
+
+  // Remove the least recently written files until the directory is back within maxDiskEntries
+  private async pruneDisk() {
+    const files = await Promise.all((await this.diskFiles()).map(async (file) => ({
+      file,
+      writtenAt: (await fs.stat(file).catch(() => undefined))?.mtimeMs ?? 0,
+    })));
+    files.sort((a, b) => a.writtenAt - b.writtenAt);
+    const excess = files.slice(0, Math.max(0, files.length - this.options.maxDiskEntries));
+    for (const { file } of excess) await fs.rm(file, { force: true });
+    this.diskEntries = files.length - excess.length;
+  }
+
+  private async diskFiles(): Promise<string[]> {
+    try {
+      const names = await fs.readdir(this.options.directory!);
+      return names.filter((name) => name.endsWith('.json')).map((name) => path.join(this.options.directory!, name));
+    } catch {
+      return [];
+    }
+  }
+
+  private async readFromDisk(key: string): Promise<CacheEntry | undefined> {
+    const entry = await this.readFile(this.fileFor(key));
+    return entry && entry.key === key ? entry : undefined;
+  }
+
+  private async readFile(file: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+// Serve GET requests from the cache before they reach the network adapter
+export const attachResponseCache = (client: AxiosInstance, cache: ResponseCache) => {
+  if (!cache.enabled) return;
+
+  const networkAdapter = axios.getAdapter(client.defaults.adapter);
+
+  client.defaults.adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const cacheable = (config.method || 'get').toLowerCase() === 'get' &&
+      (!config.responseType || config.responseType === 'json');
+    if (!cacheable) return networkAdapter(config);
+
+    const endpoint = config.url || '';
+    const key = ResponseCache.keyFor(endpoint, config.params);
+    const cached = await cache.get(key, endpoint);
+
+    if (cached) {
+      return {
+        data: cached.data,
+        status: cached.status,
+        statusText: 'OK',
+        headers: { ...cached.headers, 'x-ncbi-cache': 'HIT' },
+        config,
+        request: {},
+      };
+    }
+
+    const response = await networkAdapter(config);
+    if (response.status >= 200 && response.status < 300) {
+      await cache.set(key, endpoint, {
+        status: response.status,
+        headers: { 'content-type': String(response.headers['content-type'] || 'application/json') },
+        data: response.data,
+      });
+    }
+    return response;
+  };
+};
@@ -0,0 +1,316 @@
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { promises as fs, readFileSync } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+
+// Cassette interfaces
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteOptions {
+  mode?: CassetteMode;
+  file?: string;
+  // Replaced with REDACTED wherever it appears in a recorded interaction
+  apiKey?: string;
+}
+
+export interface CassetteRequest {
+  method: string;
+  url: string;
+  params?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface CassetteResponse {
+  status: number;
+  status_text: string;
+  headers: Record<string, string>;
+  data: unknown;
+  encoding: 'json' | 'text' | 'base64';
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response?: CassetteResponse;
+  // Failures without a response (timeouts, connection resets)
+  error?: { code?: string; message: string };
+}
+
+interface CassetteFile {
+  version: number;
+  recorded_at: string;
+  interactions: CassetteInteraction[];
+}
+
+const CASSETTE_VERSION = 1;
+const REDACTED = 'REDACTED';
+const REDACTED_PARAMS = new Set(['api_key', 'api-key', 'apikey']);
+// Response headers worth keeping; the rest vary between runs or identify the session
+const RECORDED_HEADERS = ['content-type', 'retry-after', 'ncbi-phid', 'x-request-id'];
+
+export const cassetteOptionsFromEnv = (apiKey?: string, env: NodeJS.ProcessEnv = process.env): CassetteOptions => {
+  const mode = env.NCBI_CASSETTE_MODE?.toLowerCase();
+  if (!mode || mode === 'off') return {};
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`NCBI_CASSETTE_MODE must be record, replay or off (got ${env.NCBI_CASSETTE_MODE})`);
+  }
+  if (!env.NCBI_CASSETTE_FILE) {
+    throw new Error(`NCBI_CASSETTE_FILE is required when NCBI_CASSETTE_MODE=${mode}`);
+  }
+  return { mode, file: path.resolve(env.NCBI_CASSETTE_FILE), apiKey };
+};
+
+// Query parameters as they go over the wire: empty values dropped, everything a string
+const normalizeParams = (params?: Record<string, unknown>): Record<string, string> | undefined => {
+  const entries = Object.entries(params || {})
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([name, value]): [string, string] => [name, REDACTED_PARAMS.has(name.toLowerCase()) ? REDACTED : Array.isArray(value) ? value.join(',') : String(value)])
+    .sort(([a], [b]) => a.localeCompare(b));
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+const normalizeBody = (data: unknown): unknown => {
+  if (data === undefined || data === null || data === '') return undefined;
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+export const cassetteRequestFor = (config: InternalAxiosRequestConfig): CassetteRequest => ({
+  method: (config.method || 'get').toUpperCase(),
+  url: config.url || '',
+  params: normalizeParams(config.params),
+  body: normalizeBody(config.data),
+});
+
+const encodeData = (data: unknown): Pick<CassetteResponse, 'data' | 'encoding'> => {
+  if (Buffer.isBuffer(data)) return { data: data.toString('base64'), encoding: 'base64' };
+  if (data instanceof ArrayBuffer) return { data: Buffer.from(data).toString('base64'), encoding: 'base64' };
+  if (typeof data === 'string') {
+    try {
+      return { data: JSON.parse(data), encoding: 'json' };
+    } catch {
+      return { data, encoding: 'text' };
+    }
+  }
+  return { data, encoding: 'json' };
+};
+
+const decodeData = (response: CassetteResponse, config: InternalAxiosRequestConfig): unknown => {
+  if (config.responseType === 'stream') {
+    const text = response.encoding === 'json' ? JSON.stringify(response.data) : String(response.data);
+    return Readable.from([Buffer.from(text, response.encoding === 'base64' ? 'base64' : 'utf8')]);
+  }
+  if (response.encoding === 'base64') {
+    const buffer = Buffer.from(response.data as string, 'base64');
+    return config.responseType === 'arraybuffer' ? buffer : buffer.toString('utf8');
+  }
+  // The network adapter hands raw text to axios' response transform, so replay does the same
+  return response.encoding === 'json' ? JSON.stringify(response.data) : response.data;
+};
+
+// Streamed bodies (package downloads) are buffered so they can be recorded, then handed on as a fresh stream
+const bufferStreamedBody = async (response?: AxiosResponse) => {
+  if (!response || !(response.data instanceof Readable)) return;
+  const chunks: Buffer[] = [];
+  for await (const chunk of response.data) chunks.push(Buffer.from(chunk));
+  const body = Buffer.concat(chunks);
+  response.data = body;
+  return () => {
+    response.data = Readable.from([body]);
+  };
+};
+
+const cassetteResponseFor = (response: AxiosResponse): CassetteResponse => {
+  const headers: Record<string, string> = {};
+  for (const name of RECORDED_HEADERS) {
+    const value = response.headers?.[name];
+    if (value !== undefined && value !== null) headers[name] = String(value);
+  }
+  return { status: response.status, status_text: response.statusText || '', headers, ...encodeData(response.data) };
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const describeValue = (value: unknown): string => (value === undefined ? '(none)' : JSON.stringify(value));
+
+// Field-by-field differences between a recorded request and the one being replayed
+export const diffRequests = (recorded: CassetteRequest, actual: CassetteRequest): string[] => {
+  const lines: string[] = [];
+  const compare = (field: string, expected: unknown, received: unknown) => {
+    if (!sameValue(expected, received)) {
+      lines.push(`  ${field}:\n    - recorded: ${describeValue(expected)}\n    + received: ${describeValue(received)}`);
+    }
+  };
+
+  compare('method', recorded.method, actual.method);
+  compare('url', recorded.url, actual.url);
+  const names = new Set([...Object.keys(recorded.params || {}), ...Object.keys(actual.params || {})]);
+  for (const name of [...names].sort()) compare(`params.${name}`, recorded.params?.[name], actual.params?.[name]);
+  compare('body', recorded.body, actual.body);
+  return lines;
+};
+
+export class CassetteMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+// Records NCBI traffic to a JSON file, or replays it without touching the network
+export class Cassette {
+  private interactions: CassetteInteraction[] = [];
+  private used = new Set<number>();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private options: CassetteOptions) {
+    if (options.mode === 'replay') {
+      let contents: CassetteFile;
+      try {
+        contents = JSON.parse(readFileSync(options.file!, 'utf8'));
+      } catch (error) {
+        throw new Error(`Cannot read cassette ${options.file}: ${error instanceof Error ? error.message : error}`);
+      }
+      if (contents.version !== CASSETTE_VERSION || !Array.isArray(contents.interactions)) {
+        throw new Error(`Cassette ${options.file} is not a version ${CASSETTE_VERSION} cassette`);
+      }
+      this.interactions = contents.interactions;
+    }
+  }
+
+  get mode(): CassetteMode | undefined {
+    return this.options.mode;
+  }
+
+  get file(): string | undefined {
+    return this.options.file;
+  }
+
+  // Append an interaction and rewrite the file, so a crashed session still leaves a usable cassette
+  record(interaction: CassetteInteraction): Promise<void> {
+    this.interactions.push(this.redact(interaction));
+    this.writes = this.writes.then(() => this.save());
+    return this.writes;
+  }
+
+  // Interactions are consumed in order; identical requests replay their recorded responses in sequence
+  match(received: CassetteRequest): CassetteInteraction {
+    const request = this.redact(received);
+    const candidates = this.interactions
+      .map((interaction, index) => ({ interaction, index }))
+      .filter(({ interaction }) => diffRequests(interaction.request, request).length === 0);
+    const next = candidates.find(({ index }) => !this.used.has(index));
+    if (next) {
+      this.used.add(next.index);
+      return next.interaction;
+    }
+
+    const summary = `${request.method} ${request.url}`;
+    if (candidates.length > 0) {
+      throw new CassetteMismatchError(
+        `Cassette replay mismatch for ${summary}: all ${candidates.length} recorded response(s) for this request were already used (${this.options.file})`
+      );
+    }
+
+    // Diff against the next unused recording, which is what the recorded session sent at this point
+    const expectedIndex = this.interactions.findIndex((_, index) => !this.used.has(index));
+    if (expectedIndex === -1) {
+      throw new CassetteMismatchError(
+        `Cassette replay mismatch for ${summary}: every recorded interaction has been replayed (${this.options.file})`
+      );
+    }
+    const expected = this.interactions[expectedIndex];
+    throw new CassetteMismatchError(
+      `Cassette replay mismatch for ${summary}: no recorded request matches (${this.options.file}). ` +
+      `Differences from recorded interaction #${expectedIndex + 1} (${expected.request.method} ${expected.request.url}):\n` +
+      diffRequests(expected.request, request).join('\n')
+    );
+  }
+
+  status() {
+    return {
+      mode: this.options.mode ?? 'off',
+      file: this.options.file ?? null,
+      interactions: this.interactions.length,
+      replayed: this.used.size,
+    };
+  }
+
+  private redact<T>(value: T): T {
+    if (!this.options.apiKey) return value;
+    return JSON.parse(JSON.stringify(value).split(this.options.apiKey).join(REDACTED));
+  }
+
+  private async save() {
+    const contents: CassetteFile = {
+      version: CASSETTE_VERSION,
+      recorded_at: new Date().toISOString(),
+      interactions: this.interactions,
+    };
+    await fs.mkdir(path.dirname(this.options.file!), { recursive: true });
+    const temporary = `${this.options.file}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(contents, null, 2));
+    await fs.rename(temporary, this.options.file!);
+  }
+}
+
+const replayedResponse = (interaction: CassetteInteraction, config: InternalAxiosRequestConfig): AxiosResponse => {
+  if (!interaction.response) {
+    throw new AxiosError(interaction.error?.message || 'Recorded request failed', interaction.error?.code, config);
+  }
+  const recorded = interaction.response;
+  const response: AxiosResponse = {
+    data: decodeData(recorded, config),
+    status: recorded.status,
+    statusText: recorded.status_text,
+    headers: { ...recorded.headers, 'x-ncbi-cassette': 'REPLAY' },
+    config,
+    request: {},
+  };
+
+  // Mirror axios' own settle step so error classification and retries behave as they did when recording
+  const validateStatus = config.validateStatus;
+  if (!validateStatus || validateStatus(recorded.status)) return response;
+  throw new AxiosError(
+    `Request failed with status code ${recorded.status}`,
+    recorded.status < 500 ? AxiosError.ERR_BAD_REQUEST : AxiosError.ERR_BAD_RESPONSE,
+    config,
+    {},
+    response
+  );
+};
+
+// Sits directly on the network adapter, so every attempt (including retries) is recorded or replayed
+export const attachCassette = (client: AxiosInstance, cassette: Cassette) => {
+  if (!cassette.mode) return;
+
+  const networkAdapter = axios.getAdapter(client.defaults.adapter);
+
+  client.defaults.adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const request = cassetteRequestFor(config);
+
+    if (cassette.mode === 'replay') {
+      return replayedResponse(cassette.match(request), config);
+    }
+
+    try {
+      const response = await networkAdapter(config);
+      const restoreStream = await bufferStreamedBody(response);
+      await cassette.record({ request, response: cassetteResponseFor(response) });
+      restoreStream?.();
+      return response;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const restoreStream = await bufferStreamedBody(error.response);
+        await cassette.record(error.response
+          ? { request, response: cassetteResponseFor(error.response) }
+          : { request, error: { code: error.code, message: error.message } });
+        restoreStream?.();
+      }
+      throw error;
+    }
+  };
+};
@@ -0,0 +1,108 @@
+// Genome comparison interfaces
+export interface GenomeMetrics {
+  accession: string;
+  organism: string;
+  assembly_name: string;
+  assembly_level: string;
+  total_sequence_length: number | null;
+  gc_percent: number | null;
+  contig_n50: number | null;
+  scaffold_n50: number | null;
+  number_of_contigs: number | null;
+  number_of_scaffolds: number | null;
+  total_genes: number | null;
+  protein_coding_genes: number | null;
+  checkm_completeness: number | null;
+  checkm_contamination: number | null;
+}
+
+export type ComparedMetric = Exclude<keyof GenomeMetrics, 'accession' | 'organism' | 'assembly_name' | 'assembly_level'>;
+
+export interface MetricDifferences {
+  accession: string;
+  // Percent difference from the reference; null where either genome lacks the value or the reference is 0
+  percent_difference: Record<ComparedMetric, number | null>;
+}
+
+export interface GeneContentComparison {
+  gene_counts: Record<string, number>;
+  shared_count: number;
+  shared: string[];
+  unique: Record<string, { count: number; symbols: string[] }>;
+}
+
+export const COMPARED_METRICS: ComparedMetric[] = [
+  'total_sequence_length',
+  'gc_percent',
+  'contig_n50',
+  'scaffold_n50',
+  'number_of_contigs',
+  'number_of_scaffolds',
+  'total_genes',
+  'protein_coding_genes',
+  'checkm_completeness',
+  'checkm_contamination',
+];
+
+// Report values are numbers or numeric strings, and absent for unannotated or CheckM-less assemblies
+const toMetric = (value: unknown): number | null =>
+  value === undefined || value === null || value === '' || !Number.isFinite(Number(value)) ? null : Number(value);
+
+// One row of the comparison table, from a Datasets v2 dataset report
+export const genomeMetrics = (report: any): GenomeMetrics => ({
+  accession: report.accession ?? report.current_accession,
+  organism: report.organism?.organism_name,
+  assembly_name: report.assembly_info?.assembly_name,
+  assembly_level: report.assembly_info?.assembly_level,
+  total_sequence_length: toMetric(report.assembly_stats?.total_sequence_length),
+  gc_percent: toMetric(report.assembly_stats?.gc_percent),
+  contig_n50: toMetric(report.assembly_stats?.contig_n50),
+  scaffold_n50: toMetric(report.assembly_stats?.scaffold_n50),
+  number_of_contigs: toMetric(report.assembly_stats?.number_of_contigs),
+  number_of_scaffolds: toMetric(report.assembly_stats?.number_of_scaffolds),
+  total_genes: toMetric(report.annotation_info?.stats?.gene_counts?.total),
+  protein_coding_genes: toMetric(report.annotation_info?.stats?.gene_counts?.protein_coding),
+  checkm_completeness: toMetric(report.checkm_info?.completeness),
+  checkm_contamination: toMetric(report.checkm_info?.contamination),
+});
+
+const percentDifference = (value: number | null, reference: number | null): number | null =>
+  value === null || reference === null || reference === 0 ? null : Math.round(((value - reference) / reference) * 10000) / 100;
+
+export const metricDifferences = (genome: GenomeMetrics, reference: GenomeMetrics): MetricDifferences => ({
+  accession: genome.accession,
+  percent_difference: Object.fromEntries(
+    COMPARED_METRICS.map((metric) => [metric, percentDifference(genome[metric], reference[metric])])
+  ) as Record<ComparedMetric, number | null>,
+});
+
+// Shared and genome-specific gene symbols, matched case-insensitively (BRCA1 and Brca1 are the same gene);
+// symbols are listed as first seen, in accession order, up to maxSymbols per list
+export const compareGeneContent = (symbolsByAccession: Map<string, string[]>, maxSymbols: number): GeneContentComparison => {
+  const display = new Map<string, string>();
+  const keysByAccession = new Map<string, Set<string>>();
+  for (const [accession, symbols] of symbolsByAccession) {
+    const keys = new Set<string>();
+    for (const symbol of symbols) {
+      const key = symbol.toLowerCase();
+      if (!display.has(key)) display.set(key, symbol);
+      keys.add(key);
+    }
+    keysByAccession.set(accession, keys);
+  }
+
+  const sets = [...keysByAccession.values()];
+  const shared = [...display.keys()].filter((key) => sets.every((keys) => keys.has(key)));
+  const unique: GeneContentComparison['unique'] = {};
+  for (const [accession, keys] of keysByAccession) {
+    const own = [...keys].filter((key) => sets.every((other) => other === keys || !other.has(key)));
+    unique[accession] = { count: own.length, symbols: own.slice(0, maxSymbols).map((key) => display.get(key)!) };
+  }
+
+  return {
+    gene_counts: Object.fromEntries([...keysByAccession].map(([accession, keys]) => [accession, keys.size])),
+    shared_count: shared.length,
+    shared: shared.slice(0, maxSymbols).map((key) => display.get(key)!),
+    unique,
+  };
+};
@@ -0,0 +1,174 @@
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+// Error classification interfaces
+export type NCBIErrorKind =
+  | 'invalid_request'
+  | 'not_found'
+  | 'rate_limited'
+  | 'upstream_unavailable'
+  | 'timeout'
+  | 'network'
+  | 'unknown';
+
+export interface NCBIErrorDetails {
+  kind: NCBIErrorKind;
+  http_status?: number;
+  endpoint?: string;
+  method?: string;
+  request_id?: string;
+  attempts?: number;
+  ncbi_error?: unknown;
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Not part of JSON-RPC, but lets clients tell a missing record from bad input
+export const NOT_FOUND_ERROR_CODE = -32004;
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'ETIMEDOUT', 'EAI_AGAIN']);
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options']);
+
+export class NCBIApiError extends McpError {
+  constructor(code: number, message: string, public details: NCBIErrorDetails) {
+    super(code, message, details);
+    this.name = 'NCBIApiError';
+  }
+}
+
+export const retryOptionsFromEnv = (env: NodeJS.ProcessEnv = process.env): RetryOptions => ({
+  maxRetries: Math.max(0, parseInt(env.NCBI_MAX_RETRIES || '3')),
+  baseDelayMs: Math.max(0, parseInt(env.NCBI_RETRY_BASE_DELAY || '500')),
+  maxDelayMs: 10000,
+});
+
+// Full jitter: a random delay between zero and the exponential ceiling
+export const backoffDelay = (attempt: number, options: RetryOptions, random = Math.random): number => {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+};
+
+export const isRetryableError = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error)) return false;
+  const method = (error.config?.method || 'get').toLowerCase();
+  if (!IDEMPOTENT_METHODS.has(method)) return false;
+
+  if (error.response) {
+    // A 429 carrying Retry-After has already been waited out by the rate limiter
+    if (error.response.status === 429 && error.response.headers['retry-after'] !== undefined) return false;
+    return RETRYABLE_STATUSES.has(error.response.status);
+  }
+  return error.code !== undefined && RETRYABLE_NETWORK_CODES.has(error.code);
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Retry idempotent requests that failed for transient reasons, recording the attempt count
+export const attachRetry = (client: AxiosInstance, options: RetryOptions) => {
+  const networkAdapter = axios.getAdapter(client.defaults.adapter);
+
+  client.defaults.adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await networkAdapter(config);
+      } catch (error) {
+        if (axios.isAxiosError(error)) (error as AxiosError & { attempts?: number }).attempts = attempt + 1;
+        if (attempt >= options.maxRetries || !isRetryableError(error)) throw error;
+        await sleep(backoffDelay(attempt, options));
+      }
+    }
+  };
+};
+
+const requestIdFrom = (response?: AxiosResponse): string | undefined => {
+  const headers = response?.headers || {};
+  const value = headers['ncbi-phid'] || headers['x-request-id'] || headers['x-ncbi-request-id'];
+  return value ? String(value) : undefined;
+};
+
+// Streamed responses (package downloads) cannot be serialized into error details
+const isStream = (data: unknown): boolean =>
+  data !== null && typeof data === 'object' && typeof (data as { pipe?: unknown }).pipe === 'function';
+
+const ncbiMessageFrom = (data: unknown): string | undefined => {
+  if (!data) return undefined;
+  if (typeof data === 'string') return data.length <= 500 ? data : undefined;
+  if (typeof data === 'object') {
+    const body = data as Record<string, any>;
+    const message = body.message || body.error?.message || body.error || body.messages?.[0]?.error?.message;
+    return typeof message === 'string' ? message : undefined;
+  }
+  return undefined;
+};
+
+const classifyStatus = (status: number): { code: number; kind: NCBIErrorKind } => {
+  if (status === 404) return { code: NOT_FOUND_ERROR_CODE, kind: 'not_found' };
+  if (status === 429) return { code: ErrorCode.InternalError, kind: 'rate_limited' };
+  if (status >= 400 && status < 500) return { code: ErrorCode.InvalidParams, kind: 'invalid_request' };
+  return { code: ErrorCode.InternalError, kind: 'upstream_unavailable' };
+};
+
+// Convert any failure inside a handler into an McpError, keeping ones that were raised deliberately
+export const toMcpError = (error: unknown, context: string): McpError => {
+  if (error instanceof McpError) return error;
+
+  if (axios.isAxiosError(error)) {
+    const response = error.response;
+    const details: NCBIErrorDetails = {
+      kind: 'unknown',
+      http_status: response?.status,
+      endpoint: error.config?.url,
+      method: error.config?.method?.toUpperCase(),
+      request_id: requestIdFrom(response),
+      attempts: (error as AxiosError & { attempts?: number }).attempts,
+      ncbi_error: isStream(response?.data) ? undefined : response?.data,
+    };
+
+    let code: number = ErrorCode.InternalError;
+    let reason = error.message;
+    if (response) {
+      ({ code, kind: details.kind } = classifyStatus(response.status));
+      const ncbiMessage = isStream(response.data) ? undefined : ncbiMessageFrom(response.data);
+      reason = `NCBI returned HTTP ${response.status}${ncbiMessage ? ` (${ncbiMessage})` : ''}`;
+    } else if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      code = ErrorCode.RequestTimeout;
+      details.kind = 'timeout';
+    } else {
+      details.kind = 'network';
+    }
+
+    return new NCBIApiError(code, `${context}: ${reason}`, details);
+  }
+
+  return new McpError(ErrorCode.InternalError, `${context}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+};
+
+// Structured details for the isError tool result
+export const errorDetailsOf = (error: unknown): Record<string, unknown> => {
+  if (error instanceof NCBIApiError) return { code: error.code, ...error.details };
+  if (error instanceof McpError) {
+    const data = (error as McpError & { data?: unknown }).data;
+    return { code: error.code, ...(data !== null && typeof data === 'object' ? data : {}) };
+  }
+  return { code: ErrorCode.InternalError };
+};
+
+// isError tool result: a readable message, then the structured details
+export const toolErrorResult = (tool: string, error: unknown) => ({
+  content: [
+    {
+      type: 'text',
+      text: `Error executing tool ${tool}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    },
+    {
+      type: 'text',
+      text: JSON.stringify({ tool, error: errorDetailsOf(error) }, null, 2),
+    },
+  ],
+  isError: true,
+});
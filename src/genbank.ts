@@ -0,0 +1,235 @@
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+
+// GenBank interfaces
+export interface GenbankSegment {
+  start: number;
+  end: number;
+}
+
+export interface GenbankLocation {
+  // Span of all local segments, 1-based and inclusive
+  start: number;
+  end: number;
+  strand: '+' | '-';
+  // In file order; segments on other sequences (ACC:1..10) are left out
+  segments: GenbankSegment[];
+  // < and > mark locations that extend beyond the given positions
+  partial_start?: boolean;
+  partial_end?: boolean;
+}
+
+export interface GenbankFeature extends GenbankLocation {
+  key: string;
+  // Location as written, e.g. complement(join(3300..3400,3500..3600))
+  location: string;
+  // Repeated qualifiers such as db_xref are joined with commas; flags such as /pseudo are "true"
+  qualifiers: Record<string, string>;
+}
+
+export interface GenbankLocus {
+  name: string;
+  length: number;
+  molecule_type?: string;
+  topology?: string;
+  division?: string;
+  date?: string;
+}
+
+export interface GenbankRecord {
+  locus: GenbankLocus;
+  accession: string;
+  version?: string;
+  definition?: string;
+  keywords?: string;
+  source?: string;
+  organism?: string;
+  lineage?: string[];
+  features: GenbankFeature[];
+  // From ORIGIN, lowercase as in the file; absent for CON records and when not requested
+  sequence?: string;
+}
+
+// Qualifier values and continuation lines start at column 22, feature keys at column 6
+const QUALIFIER_INDENT = 21;
+const FEATURE_INDENT = 5;
+
+// Segments on other sequences, e.g. J00194.1:100..202
+const REMOTE_SEGMENT = /[A-Za-z][\w.]*:<?\d+(\.\.>?\d+)?/g;
+
+// Qualifiers whose wrapped lines are joined without spaces
+const UNSPACED_QUALIFIERS = new Set(['translation', 'transcription']);
+
+// LOCUS       NC_000913.3          4641652 bp    DNA     circular CON 09-MAR-2022
+const parseLocus = (text: string): GenbankLocus => {
+  const [name = '', ...fields] = text.trim().split(/\s+/);
+  const sizeIndex = fields.findIndex((field) => /^(bp|aa)$/.test(field));
+  const rest = sizeIndex >= 0 ? fields.slice(sizeIndex + 1) : [];
+  const topology = rest.find((field) => /^(linear|circular)$/i.test(field));
+  const date = rest.find((field) => /^\d{2}-[A-Z]{3}-\d{4}$/.test(field));
+  const others = rest.filter((field) => field !== topology && field !== date);
+  return {
+    name,
+    length: sizeIndex > 0 ? parseInt(fields[sizeIndex - 1]) : 0,
+    ...(others[0] && { molecule_type: others[0] }),
+    ...(topology && { topology }),
+    ...(others[1] && { division: others[1] }),
+    ...(date && { date }),
+  };
+};
+
+// Local positions of a location: 100, <1..>200, 100^101, complement(join(1..10,20..30)), order(...)
+export const parseLocation = (location: string): GenbankLocation => {
+  const local = location.replace(REMOTE_SEGMENT, '');
+  const segments: GenbankSegment[] = [];
+  let partialStart = false;
+  let partialEnd = false;
+  for (const match of local.matchAll(/(<)?(\d+)(?:(?:\.\.|\^)(>)?(\d+))?/g)) {
+    const start = parseInt(match[2]);
+    const end = match[4] ? parseInt(match[4]) : start;
+    segments.push({ start: Math.min(start, end), end: Math.max(start, end) });
+    partialStart ||= Boolean(match[1]);
+    partialEnd ||= Boolean(match[3]);
+  }
+  return {
+    start: Math.min(...segments.map((segment) => segment.start)),
+    end: Math.max(...segments.map((segment) => segment.end)),
+    strand: location.includes('complement(') ? '-' : '+',
+    segments,
+    ...(partialStart && { partial_start: true }),
+    ...(partialEnd && { partial_end: true }),
+  };
+};
+
+// A quoted value is complete once its quotes, ignoring "" escapes, are balanced
+const isOpenQuote = (value: string): boolean =>
+  value.startsWith('"') && (value.replace(/""/g, '').match(/"/g) || []).length % 2 === 1;
+
+const parseFeatures = (lines: string[]): GenbankFeature[] => {
+  const features: GenbankFeature[] = [];
+  let key: string | undefined;
+  let location = '';
+  let qualifiers: Array<[string, string]> = [];
+
+  const finish = () => {
+    // Features lying wholly on other sequences have no local positions
+    if (!key || !/\d/.test(location.replace(REMOTE_SEGMENT, ''))) return;
+    const values: Record<string, string> = {};
+    for (const [name, raw] of qualifiers) {
+      const value = raw === '' ? 'true' : raw.replace(/^"|"$/g, '').replace(/""/g, '"');
+      values[name] = values[name] !== undefined ? `${values[name]},${value}` : value;
+    }
+    features.push({ key, location, ...parseLocation(location), qualifiers: values });
+  };
+
+  for (const line of lines) {
+    const content = line.slice(QUALIFIER_INDENT).trim();
+    if (line.length > FEATURE_INDENT && line[FEATURE_INDENT] !== ' ') {
+      finish();
+      key = line.slice(FEATURE_INDENT, QUALIFIER_INDENT).trim();
+      location = content;
+      qualifiers = [];
+      continue;
+    }
+    const last = qualifiers[qualifiers.length - 1];
+    if (last && isOpenQuote(last[1])) {
+      last[1] += UNSPACED_QUALIFIERS.has(last[0]) ? content : ` ${content}`;
+    } else if (content.startsWith('/')) {
+      const separator = content.indexOf('=');
+      qualifiers.push(separator < 0 ? [content.slice(1), ''] : [content.slice(1, separator), content.slice(separator + 1)]);
+    } else if (!qualifiers.length) {
+      // Long locations wrap onto continuation lines
+      location += content;
+    }
+  }
+  finish();
+  return features;
+};
+
+// Parse the lines of one record, up to but not including its // terminator
+const parseRecord = (lines: string[]): GenbankRecord => {
+  const fields = new Map<string, string>();
+  const featureLines: string[] = [];
+  const sequence: string[] = [];
+  let section = '';
+  let hasOrigin = false;
+
+  for (const line of lines) {
+    const keyword = line.slice(0, 12).trim();
+    if (keyword && line[0] !== ' ') {
+      section = keyword;
+      if (section === 'ORIGIN') hasOrigin = true;
+      else if (section !== 'FEATURES') fields.set(section, line.slice(12).trim());
+    } else if (section === 'FEATURES') {
+      featureLines.push(line);
+    } else if (section === 'ORIGIN') {
+      sequence.push(line.replace(/[\d\s]/g, ''));
+    } else if (keyword === 'ORGANISM') {
+      section = 'ORGANISM';
+      fields.set(section, line.slice(12).trim());
+    } else if (keyword) {
+      // Other subkeywords, such as the AUTHORS and TITLE of a REFERENCE, are not kept
+      section = '';
+    } else if (section) {
+      fields.set(section, `${fields.get(section) ?? ''}\n${line.trim()}`);
+    }
+  }
+
+  const joined = (name: string) => fields.get(name)?.replace(/\n/g, ' ');
+  // The ORGANISM field holds the name on its first line and the lineage after it
+  const [organism, ...lineage] = (fields.get('ORGANISM') ?? '').split('\n');
+  const accession = joined('ACCESSION')?.split(' ')[0] ?? '';
+  const version = joined('VERSION')?.split(' ')[0];
+  return {
+    locus: parseLocus(fields.get('LOCUS') ?? ''),
+    accession,
+    ...(version && { version }),
+    ...(fields.has('DEFINITION') && { definition: joined('DEFINITION')!.replace(/\.$/, '') }),
+    ...(fields.has('KEYWORDS') && joined('KEYWORDS') !== '.' && { keywords: joined('KEYWORDS')!.replace(/\.$/, '') }),
+    ...(fields.has('SOURCE') && { source: joined('SOURCE') }),
+    ...(organism && { organism }),
+    ...(lineage.length && { lineage: lineage.join(' ').replace(/\.$/, '').split(/;\s*/).filter(Boolean) }),
+    features: parseFeatures(featureLines),
+    ...(hasOrigin && { sequence: sequence.join('') }),
+  };
+};
+
+// Parse GenBank flat-file text with any number of records
+export const parseGenbank = (text: string): GenbankRecord[] => {
+  const records: GenbankRecord[] = [];
+  let lines: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (line.startsWith('//')) {
+      records.push(parseRecord(lines));
+      lines = [];
+    } else if (line.trim() || lines.length) {
+      lines.push(line);
+    }
+  }
+  if (lines.some((line) => line.startsWith('LOCUS'))) records.push(parseRecord(lines));
+  return records;
+};
+
+// Stream the records of a GBFF file; ORIGIN lines are skipped unless the sequence is wanted, so
+// whole-genome files can be read for their features without holding the sequences
+export async function* readGenbankRecords(file: string, options: { sequence?: boolean } = {}): AsyncGenerator<GenbankRecord> {
+  const input = createInterface({ input: createReadStream(file), crlfDelay: Infinity });
+  let lines: string[] = [];
+  let inOrigin = false;
+  try {
+    for await (const line of input) {
+      if (line.startsWith('//')) {
+        yield parseRecord(lines);
+        lines = [];
+        inOrigin = false;
+        continue;
+      }
+      if (line.startsWith('ORIGIN')) inOrigin = true;
+      if (inOrigin && !options.sequence) continue;
+      if (line.trim() || lines.length) lines.push(line);
+    }
+    if (lines.some((line) => line.startsWith('LOCUS'))) yield parseRecord(lines);
+  } finally {
+    input.close();
+  }
+}
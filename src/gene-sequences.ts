@@ -0,0 +1,184 @@
+import { AxiosInstance } from 'axios';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fetchPackageFiles, WorkspaceOptions, workspacePath } from './packages.js';
+import { GENES_DIRECTORY } from './sequence-sources.js';
+import { parseFasta } from './sequences.js';
+
+// Gene sequence interfaces
+export type GeneSequenceType = 'genomic' | 'transcript' | 'protein' | 'cds' | '5p_utr' | '3p_utr';
+
+// FASTA files of a gene package; gene_flank holds the genomic sequence with flanks on both sides
+export type GeneFastaFile = GeneSequenceType | 'gene_flank';
+
+export interface SequenceLocation {
+  accession: string;
+  // 1-based, inclusive
+  start: number;
+  end: number;
+  strand: 'plus' | 'minus';
+}
+
+export interface GeneSequence {
+  type: GeneSequenceType;
+  // FASTA ID, e.g. NC_000913.3:190-255 or NM_007294.4:1-113
+  id: string;
+  // RefSeq accession of the sequence, or of the sequence the region is on
+  accession: string;
+  description: string;
+  gene_id?: string;
+  location?: SequenceLocation;
+  transcript_accession?: string;
+  protein_accession?: string;
+  // Flanking bases included before and after the gene
+  flank?: { upstream: number; downstream: number };
+  length: number;
+  sequence: string;
+}
+
+// Gene data report fields used to describe and link sequences
+export interface GeneReport {
+  geneId: string;
+  symbol?: string;
+  description?: string;
+  taxId?: string;
+  taxname?: string;
+  genomicRanges?: Array<{ accessionVersion: string; range: Array<{ begin: string; end: string; orientation?: string }> }>;
+  transcripts?: Array<{ accessionVersion: string; protein?: { accessionVersion: string } }>;
+}
+
+// Datasets gene package annotation types and the files they add
+export const GENE_FASTA_FILES: Record<GeneFastaFile, { annotationType: string; file: string }> = {
+  genomic: { annotationType: 'FASTA_GENE', file: 'gene.fna' },
+  gene_flank: { annotationType: 'FASTA_GENE_FLANK', file: 'gene_flank.fna' },
+  transcript: { annotationType: 'FASTA_RNA', file: 'rna.fna' },
+  protein: { annotationType: 'FASTA_PROTEIN', file: 'protein.faa' },
+  cds: { annotationType: 'FASTA_CDS', file: 'cds.fna' },
+  '5p_utr': { annotationType: 'FASTA_5P_UTR', file: '5p_utr.fna' },
+  '3p_utr': { annotationType: 'FASTA_3P_UTR', file: '3p_utr.fna' },
+};
+
+const REPORT_FILE = 'data_report.jsonl';
+// Annotation types downloaded so far, so that files a gene has none of (e.g. rna.fna for bacteria) are not fetched again
+const CONTENTS_FILE = 'package_contents.json';
+
+const TRANSCRIPT_PREFIX = /^(NM|XM|NR|XR)_/;
+
+// Region IDs: NC_000913.3:190-255 on the plus strand, NC_000017.11:c43125364-43044295 on the minus strand
+export const parseRegionId = (id: string): SequenceLocation | undefined => {
+  const match = id.match(/^(.+):(c?)(\d+)-(\d+)$/);
+  if (!match) return undefined;
+  const [first, second] = [parseInt(match[3]), parseInt(match[4])];
+  return { accession: match[1], start: Math.min(first, second), end: Math.max(first, second), strand: match[2] ? 'minus' : 'plus' };
+};
+
+const regionId = (location: SequenceLocation): string =>
+  location.strand === 'minus'
+    ? `${location.accession}:c${location.end}-${location.start}`
+    : `${location.accession}:${location.start}-${location.end}`;
+
+// Gene package descriptions end in [key=value] pairs, e.g. [organism=Homo sapiens] [GeneID=672] [protein_id=NP_009225.1]
+const parseDescription = (description: string): { text: string; attributes: Record<string, string> } => {
+  const attributes: Record<string, string> = {};
+  for (const match of description.matchAll(/\[([^=\]]+)=([^\]]*)\]/g)) attributes[match[1]] = match[2];
+  return { text: description.replace(/\s*\[[^\]]*\]/g, '').trim(), attributes };
+};
+
+// Structured records for one FASTA file of a gene package, linked to transcripts and proteins through the report
+export const geneSequencesFromFasta = (type: GeneSequenceType, text: string, reports: GeneReport[] = []): GeneSequence[] => {
+  if (!text.trim()) return [];
+  const proteinOf = new Map<string, string>();
+  const transcriptOf = new Map<string, string>();
+  for (const transcript of reports.flatMap((report) => report.transcripts || [])) {
+    if (!transcript.protein) continue;
+    proteinOf.set(transcript.accessionVersion, transcript.protein.accessionVersion);
+    transcriptOf.set(transcript.protein.accessionVersion, transcript.accessionVersion);
+  }
+
+  return parseFasta(text).map((record) => {
+    const { text: description, attributes } = parseDescription(record.description);
+    const location = parseRegionId(record.id);
+    const accession = location?.accession ?? record.id;
+    let transcriptAccession: string | undefined;
+    let proteinAccession: string | undefined;
+    if (type === 'transcript') {
+      proteinAccession = proteinOf.get(accession);
+    } else if (type === 'protein') {
+      proteinAccession = accession;
+      transcriptAccession = transcriptOf.get(accession);
+    } else if (type !== 'genomic') {
+      transcriptAccession = TRANSCRIPT_PREFIX.test(accession) ? accession : undefined;
+      proteinAccession = attributes.protein_id || (transcriptAccession && proteinOf.get(transcriptAccession));
+    }
+    return {
+      type,
+      id: record.id,
+      accession,
+      description,
+      ...(attributes.GeneID && { gene_id: attributes.GeneID }),
+      ...(location && { location }),
+      ...(transcriptAccession && type !== 'transcript' && { transcript_accession: transcriptAccession }),
+      ...(proteinAccession && type !== 'protein' && { protein_accession: proteinAccession }),
+      length: record.sequence.length,
+      sequence: record.sequence,
+    };
+  });
+};
+
+// Cut a gene_flank record down to flankLength bases on each side of the gene; fewer remain where the
+// package's flanks stop at the end of the sequence
+export const trimFlanks = (sequence: GeneSequence, reports: GeneReport[], flankLength: number): GeneSequence => {
+  const flank = sequence.location;
+  const ranges = reports
+    .filter((report) => !sequence.gene_id || report.geneId === sequence.gene_id)
+    .flatMap((report) => report.genomicRanges || [])
+    .filter((range) => range.accessionVersion === flank?.accession)
+    .flatMap((range) => range.range.map((part) => [parseInt(part.begin), parseInt(part.end)]));
+  if (!flank || !ranges.length) return sequence;
+
+  const gene = { start: Math.min(...ranges.flat()), end: Math.max(...ranges.flat()) };
+  const minus = flank.strand === 'minus';
+  const upstreamAvailable = minus ? flank.end - gene.end : gene.start - flank.start;
+  const downstreamAvailable = minus ? gene.start - flank.start : flank.end - gene.end;
+  const upstream = Math.min(flankLength, upstreamAvailable);
+  const downstream = Math.min(flankLength, downstreamAvailable);
+
+  const bases = sequence.sequence.slice(upstreamAvailable - upstream, sequence.sequence.length - (downstreamAvailable - downstream));
+  const location: SequenceLocation = {
+    ...flank,
+    start: gene.start - (minus ? downstream : upstream),
+    end: gene.end + (minus ? upstream : downstream),
+  };
+  return { ...sequence, id: regionId(location), location, flank: { upstream, downstream }, length: bases.length, sequence: bases };
+};
+
+// A gene's package files from <workspace>/genes/<gene id>/, downloading the annotation types not fetched before
+export const geneSequenceFiles = async (
+  apiClient: AxiosInstance,
+  workspace: WorkspaceOptions,
+  geneId: number,
+  files: GeneFastaFile[],
+  signal?: AbortSignal
+): Promise<{ directory: string; downloaded: boolean; reports: GeneReport[] }> => {
+  const directory = workspacePath(workspace, GENES_DIRECTORY, String(geneId));
+  const contentsFile = path.join(directory, CONTENTS_FILE);
+  const fetched: string[] = JSON.parse(await fs.readFile(contentsFile, 'utf8').catch(() => '[]'));
+  const missing = files.map((file) => GENE_FASTA_FILES[file].annotationType).filter((type) => !fetched.includes(type));
+
+  if (missing.length) {
+    await fetchPackageFiles(apiClient, workspace, `/gene/id/${geneId}/download`, { include_annotation_type: missing.join(',') }, directory, { signal });
+    await fs.writeFile(contentsFile, JSON.stringify([...fetched, ...missing]));
+  }
+
+  const report = await fs.readFile(path.join(directory, REPORT_FILE), 'utf8').catch(() => '');
+  const reports = report.split('\n').filter((line) => line.trim()).map((line) => JSON.parse(line) as GeneReport);
+  return { directory, downloaded: missing.length > 0, reports };
+};
+
+// Records of one type from a downloaded gene package; a missing file means the gene has none
+export const readGeneSequences = async (directory: string, type: GeneSequenceType, reports: GeneReport[], flankLength = 0): Promise<GeneSequence[]> => {
+  const file = GENE_FASTA_FILES[type === 'genomic' && flankLength > 0 ? 'gene_flank' : type].file;
+  const text = await fs.readFile(path.join(directory, file), 'utf8').catch(() => '');
+  const sequences = geneSequencesFromFasta(type, text, reports);
+  return type === 'genomic' && flankLength > 0 ? sequences.map((sequence) => trimFlanks(sequence, reports, flankLength)) : sequences;
+};
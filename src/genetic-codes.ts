@@ -0,0 +1,143 @@
+// NCBI genetic code tables (https://www.ncbi.nlm.nih.gov/Taxonomy/Utils/wprintgc.cgi), in NCBI's compact
+// notation: amino acids and start codons for the 64 codons ordered TTT, TTC, TTA, TTG, TCT, ... GGG. Stops are
+// marked in both; a stop marked only in starts (tables 27, 28 and 31) reads as an amino acid except at the end of a CDS
+interface GeneticCodeTable {
+  name: string;
+  amino_acids: string;
+  starts: string;
+}
+
+export const GENETIC_CODES: Record<number, GeneticCodeTable> = {
+  1: {
+    name: 'Standard',
+    amino_acids: 'FFLLSSSSYY**CC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '---M------**--*----M---------------M----------------------------',
+  },
+  2: {
+    name: 'Vertebrate Mitochondrial',
+    amino_acids: 'FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIMMTTTTNNKKSS**VVVVAAAADDEEGGGG',
+    starts: '----------**--------------------MMMM----------**---M------------',
+  },
+  3: {
+    name: 'Yeast Mitochondrial',
+    amino_acids: 'FFLLSSSSYY**CCWWTTTTPPPPHHQQRRRRIIMMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '----------**----------------------MM---------------M------------',
+  },
+  4: {
+    name: 'Mold, Protozoan, and Coelenterate Mitochondrial and Mycoplasma/Spiroplasma',
+    amino_acids: 'FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '--MM------**-------M------------MMMM---------------M------------',
+  },
+  5: {
+    name: 'Invertebrate Mitochondrial',
+    amino_acids: 'FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIMMTTTTNNKKSSSSVVVVAAAADDEEGGGG',
+    starts: '---M------**--------------------MMMM---------------M------------',
+  },
+  6: {
+    name: 'Ciliate, Dasycladacean and Hexamita Nuclear',
+    amino_acids: 'FFLLSSSSYYQQCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '--------------*--------------------M----------------------------',
+  },
+  9: {
+    name: 'Echinoderm and Flatworm Mitochondrial',
+    amino_acids: 'FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNNKSSSSVVVVAAAADDEEGGGG',
+    starts: '----------**-----------------------M---------------M------------',
+  },
+  10: {
+    name: 'Euplotid Nuclear',
+    amino_acids: 'FFLLSSSSYY**CCCWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '----------**-----------------------M----------------------------',
+  },
+  11: {
+    name: 'Bacterial, Archaeal and Plant Plastid',
+    amino_acids: 'FFLLSSSSYY**CC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '---M------**--*----M------------MMMM---------------M------------',
+  },
+  12: {
+    name: 'Alternative Yeast Nuclear',
+    amino_acids: 'FFLLSSSSYY**CC*WLLLSPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '----------**--*----M---------------M----------------------------',
+  },
+  13: {
+    name: 'Ascidian Mitochondrial',
+    amino_acids: 'FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIMMTTTTNNKKSSGGVVVVAAAADDEEGGGG',
+    starts: '---M------**----------------------MM---------------M------------',
+  },
+  14: {
+    name: 'Alternative Flatworm Mitochondrial',
+    amino_acids: 'FFLLSSSSYYY*CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNNKSSSSVVVVAAAADDEEGGGG',
+    starts: '-----------*-----------------------M----------------------------',
+  },
+  16: {
+    name: 'Chlorophycean Mitochondrial',
+    amino_acids: 'FFLLSSSSYY*LCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '----------*---*--------------------M----------------------------',
+  },
+  21: {
+    name: 'Trematode Mitochondrial',
+    amino_acids: 'FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIMMTTTTNNNKSSSSVVVVAAAADDEEGGGG',
+    starts: '----------**-----------------------M---------------M------------',
+  },
+  22: {
+    name: 'Scenedesmus obliquus Mitochondrial',
+    amino_acids: 'FFLLSS*SYY*LCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '------*---*---*--------------------M----------------------------',
+  },
+  23: {
+    name: 'Thraustochytrium Mitochondrial',
+    amino_acids: 'FF*LSSSSYY**CC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '--*-------**--*-----------------M--M---------------M------------',
+  },
+  24: {
+    name: 'Rhabdopleuridae Mitochondrial',
+    amino_acids: 'FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSSKVVVVAAAADDEEGGGG',
+    starts: '---M------**-------M---------------M---------------M------------',
+  },
+  25: {
+    name: 'Candidate Division SR1 and Gracilibacteria',
+    amino_acids: 'FFLLSSSSYY**CCGWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '---M------**-----------------------M---------------M------------',
+  },
+  26: {
+    name: 'Pachysolen tannophilus Nuclear',
+    amino_acids: 'FFLLSSSSYY**CC*WLLLAPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '----------**--*----M---------------M----------------------------',
+  },
+  27: {
+    name: 'Karyorelict Nuclear',
+    amino_acids: 'FFLLSSSSYYQQCCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '--------------*--------------------M----------------------------',
+  },
+  28: {
+    name: 'Condylostoma Nuclear',
+    amino_acids: 'FFLLSSSSYYQQCCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '----------**--*--------------------M----------------------------',
+  },
+  29: {
+    name: 'Mesodinium Nuclear',
+    amino_acids: 'FFLLSSSSYYYYCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '--------------*--------------------M----------------------------',
+  },
+  30: {
+    name: 'Peritrich Nuclear',
+    amino_acids: 'FFLLSSSSYYEECC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '--------------*--------------------M----------------------------',
+  },
+  31: {
+    name: 'Blastocrithidia Nuclear',
+    amino_acids: 'FFLLSSSSYYEECCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '----------**-----------------------M----------------------------',
+  },
+  32: {
+    name: 'Balanophoraceae Plastid',
+    amino_acids: 'FFLLSSSSYY*WCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG',
+    starts: '---M------*---*----M------------MMMM---------------M------------',
+  },
+  33: {
+    name: 'Cephalodiscidae Mitochondrial',
+    amino_acids: 'FFLLSSSSYYY*CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSSKVVVVAAAADDEEGGGG',
+    starts: '---M-------*-------M---------------M---------------M------------',
+  },
+};
+
+export const GENETIC_CODE_IDS = Object.keys(GENETIC_CODES).map(Number);
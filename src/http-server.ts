@@ -0,0 +1,155 @@
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+// Transport interfaces
+export type TransportKind = 'stdio' | 'sse';
+
+export interface TransportOptions {
+  transport: TransportKind;
+  port: number;
+  host: string;
+  // How long shutdown waits for open connections before dropping them
+  shutdownTimeoutMs: number;
+}
+
+// The part of the server the HTTP transport needs; one MCP session is connected per SSE stream
+export interface SessionHost {
+  connect(transport: SSEServerTransport): Promise<void>;
+  readonly connectionCount: number;
+}
+
+export interface HttpServerHandle {
+  url: string;
+  close(): Promise<void>;
+}
+
+export const SSE_PATH = '/sse';
+export const MESSAGES_PATH = '/messages';
+export const HEALTH_PATH = '/health';
+
+const TRANSPORT_ALIASES: Record<string, TransportKind> = { stdio: 'stdio', sse: 'sse', http: 'sse' };
+
+// Command-line flags (--transport sse, --http, --port 8080, --host 0.0.0.0) take precedence over the environment
+export const transportOptionsFromArgs = (argv: string[], env: NodeJS.ProcessEnv = process.env): TransportOptions => {
+  const flags = new Map<string, string | true>();
+  for (let index = 0; index < argv.length; index++) {
+    const match = argv[index].match(/^--([a-z-]+)(?:=(.*))?$/);
+    if (!match) continue;
+    const [, name, inline] = match;
+    const next = argv[index + 1];
+    if (inline !== undefined) flags.set(name, inline);
+    else if (next !== undefined && !next.startsWith('--')) flags.set(name, argv[++index]);
+    else flags.set(name, true);
+  }
+
+  const requested = flags.has('http') ? 'sse' : String(flags.get('transport') ?? env.NCBI_TRANSPORT ?? 'stdio').toLowerCase();
+  const transport = TRANSPORT_ALIASES[requested];
+  if (!transport) {
+    throw new Error(`Unknown transport "${requested}" (expected stdio, sse or http)`);
+  }
+
+  const port = parseInt(String(flags.get('port') ?? env.NCBI_HTTP_PORT ?? '3000'));
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${flags.get('port') ?? env.NCBI_HTTP_PORT}`);
+  }
+
+  return {
+    transport,
+    port,
+    host: String(flags.get('host') ?? env.NCBI_HTTP_HOST ?? '127.0.0.1'),
+    shutdownTimeoutMs: parseInt(env.NCBI_SHUTDOWN_TIMEOUT || '10000'),
+  };
+};
+
+const sendJson = (response: http.ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+// Serve MCP over SSE: GET /sse opens a session stream, POST /messages?sessionId=... delivers client messages
+export const startHttpServer = async (host: SessionHost, options: TransportOptions): Promise<HttpServerHandle> => {
+  const sessions = new Map<string, SSEServerTransport>();
+  const startedAt = Date.now();
+  let closing = false;
+
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+
+    try {
+      if (request.method === 'GET' && url.pathname === HEALTH_PATH) {
+        return sendJson(response, closing ? 503 : 200, {
+          status: closing ? 'shutting_down' : 'ok',
+          transport: 'sse',
+          sessions: sessions.size,
+          connections: host.connectionCount,
+          uptime_seconds: Math.round((Date.now() - startedAt) / 1000),
+        });
+      }
+
+      if (closing) {
+        return sendJson(response, 503, { error: 'Server is shutting down' });
+      }
+
+      if (request.method === 'GET' && url.pathname === SSE_PATH) {
+        const transport = new SSEServerTransport(MESSAGES_PATH, response);
+        sessions.set(transport.sessionId, transport);
+        response.on('close', () => sessions.delete(transport.sessionId));
+        await host.connect(transport);
+        return;
+      }
+
+      if (request.method === 'POST' && url.pathname === MESSAGES_PATH) {
+        const sessionId = url.searchParams.get('sessionId') || '';
+        const transport = sessions.get(sessionId);
+        if (!transport) {
+          return sendJson(response, 404, { error: `Unknown session: ${sessionId || '(missing sessionId)'}` });
+        }
+        await transport.handlePostMessage(request, response);
+        return;
+      }
+
+      sendJson(response, 404, { error: `Not found: ${request.method} ${url.pathname}` });
+    } catch (error) {
+      console.error('[HTTP Error]', error);
+      if (!response.headersSent) sendJson(response, 500, { error: 'Internal server error' });
+      else response.end();
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  const url = `http://${address.family === 'IPv6' ? `[${address.address}]` : address.address}:${address.port}`;
+
+  // Stop accepting connections, end every SSE stream, then wait for in-flight requests up to the timeout
+  const close = async () => {
+    if (closing) return;
+    closing = true;
+
+    const stopped = new Promise<void>((resolve) => server.close(() => resolve()));
+    await Promise.all([...sessions.values()].map((transport) => transport.close().catch(() => undefined)));
+    sessions.clear();
+    // closeIdleConnections and closeAllConnections arrived in Node 18.2; older servers wait for the timeout instead
+    server.closeIdleConnections?.();
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<void>((resolve) => {
+      timer = setTimeout(() => {
+        server.closeAllConnections?.();
+        resolve();
+      }, options.shutdownTimeoutMs);
+      timer.unref();
+    });
+    await Promise.race([stopped, timedOut]);
+    clearTimeout(timer);
+  };
+
+  return { url, close };
+};
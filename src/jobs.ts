@@ -0,0 +1,186 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { randomBytes } from 'crypto';
+import { toolErrorResult } from './errors.js';
+import { ToolResult } from './registry.js';
+import { JSONSchemaProperty } from './validation.js';
+
+// Job interfaces
+export type JobState = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobOptions {
+  // How long finished jobs and their results are kept
+  resultTtlMs: number;
+  maxRunning: number;
+}
+
+export interface JobProgress {
+  progress: number;
+  total?: number;
+}
+
+export type JobRunner = (signal: AbortSignal, reportProgress: (progress: number, total?: number) => void) => Promise<ToolResult>;
+
+export interface JobStatus {
+  job_id: string;
+  tool: string;
+  status: JobState;
+  created_at: string;
+  finished_at?: string;
+  elapsed_ms: number;
+  progress?: JobProgress;
+  expires_at?: string;
+  error?: string;
+}
+
+interface Job {
+  id: string;
+  tool: string;
+  state: JobState;
+  createdAt: number;
+  finishedAt?: number;
+  progress?: JobProgress;
+  result?: ToolResult;
+  controller: AbortController;
+  // Resolves when the job finishes, fails or is cancelled
+  finished: Promise<void>;
+  settle: () => void;
+  listeners: Set<(progress: JobProgress) => void>;
+}
+
+export const jobOptionsFromEnv = (env: NodeJS.ProcessEnv = process.env): JobOptions => ({
+  resultTtlMs: parseInt(env.NCBI_JOB_RESULT_TTL || String(60 * 60 * 1000)),
+  maxRunning: parseInt(env.NCBI_MAX_JOBS || '10'),
+});
+
+// Long-running tools spread this into their input schema to offer background execution
+export const jobSchemaProperties: Record<string, JSONSchemaProperty> = {
+  background: { type: 'boolean', description: 'Run as a background job and return a job id immediately; poll with get_job_status and collect the output with get_job_result (default: false)' },
+};
+
+// Runs tool calls in the background, so they outlive the request that started them
+export class JobManager {
+  private jobs = new Map<string, Job>();
+
+  constructor(private options: JobOptions) {}
+
+  start(tool: string, run: JobRunner): JobStatus {
+    this.sweep();
+    const running = [...this.jobs.values()].filter((job) => job.state === 'running').length;
+    if (running >= this.options.maxRunning) {
+      throw new McpError(ErrorCode.InvalidRequest, `Too many running jobs (${running}); wait for one to finish or cancel one`);
+    }
+
+    let settle!: () => void;
+    const job: Job = {
+      id: `job_${randomBytes(6).toString('hex')}`,
+      tool,
+      state: 'running',
+      createdAt: Date.now(),
+      controller: new AbortController(),
+      finished: new Promise<void>((resolve) => { settle = resolve; }),
+      settle: () => settle(),
+      listeners: new Set(),
+    };
+    const reportProgress = (progress: number, total?: number) => {
+      if (job.state !== 'running') return;
+      job.progress = { progress, total };
+      job.listeners.forEach((listener) => listener(job.progress!));
+    };
+
+    // A cancelled job keeps running until it notices the abort signal, but its outcome is discarded
+    run(job.controller.signal, reportProgress).then(
+      (result) => this.finish(job, result.isError ? 'failed' : 'completed', result),
+      (error) => this.finish(job, 'failed', toolErrorResult(tool, error))
+    );
+    this.jobs.set(job.id, job);
+    return this.statusOf(job);
+  }
+
+  status(id: string): JobStatus {
+    return this.statusOf(this.get(id));
+  }
+
+  list(): JobStatus[] {
+    this.sweep();
+    return [...this.jobs.values()].map((job) => this.statusOf(job));
+  }
+
+  // The job's tool result; waits up to waitMs for a running job, forwarding its progress meanwhile
+  async result(id: string, waitMs = 0, onProgress?: (progress: number, total?: number) => void): Promise<ToolResult> {
+    const job = this.get(id);
+    if (job.state === 'running' && waitMs > 0) {
+      const listener = (progress: JobProgress) => onProgress?.(progress.progress, progress.total);
+      job.listeners.add(listener);
+      let timer: NodeJS.Timeout | undefined;
+      await Promise.race([job.finished, new Promise((resolve) => { timer = setTimeout(resolve, waitMs); })]);
+      clearTimeout(timer);
+      job.listeners.delete(listener);
+    }
+
+    if (job.state === 'running') {
+      const progress = job.progress ? ` (progress ${job.progress.progress}${job.progress.total !== undefined ? `/${job.progress.total}` : ''})` : '';
+      throw new McpError(ErrorCode.InvalidRequest, `Job ${id} is still running${progress}; check get_job_status or pass wait_ms`);
+    }
+    if (job.state === 'cancelled') {
+      throw new McpError(ErrorCode.InvalidRequest, `Job ${id} was cancelled`);
+    }
+    return job.result!;
+  }
+
+  cancel(id: string): JobStatus {
+    const job = this.get(id);
+    if (job.state !== 'running') {
+      throw new McpError(ErrorCode.InvalidRequest, `Job ${id} has already ${job.state === 'cancelled' ? 'been cancelled' : 'finished'}`);
+    }
+    job.controller.abort();
+    this.finish(job, 'cancelled');
+    return this.statusOf(job);
+  }
+
+  // Abort every running job, e.g. on shutdown
+  cancelAll() {
+    for (const job of this.jobs.values()) {
+      if (job.state === 'running') this.cancel(job.id);
+    }
+  }
+
+  private get(id: string): Job {
+    this.sweep();
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown job ${id}; finished jobs are kept for ${Math.round(this.options.resultTtlMs / 1000)}s`);
+    }
+    return job;
+  }
+
+  private finish(job: Job, state: JobState, result?: ToolResult) {
+    if (job.state !== 'running') return;
+    job.state = state;
+    job.result = result;
+    job.finishedAt = Date.now();
+    job.listeners.clear();
+    job.settle();
+  }
+
+  // Drop finished jobs whose results have expired
+  private sweep(now = Date.now()) {
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt !== undefined && now - job.finishedAt >= this.options.resultTtlMs) this.jobs.delete(id);
+    }
+  }
+
+  private statusOf(job: Job): JobStatus {
+    const error = job.state === 'failed' ? job.result?.content[0]?.text : undefined;
+    return {
+      job_id: job.id,
+      tool: job.tool,
+      status: job.state,
+      created_at: new Date(job.createdAt).toISOString(),
+      ...(job.finishedAt !== undefined && { finished_at: new Date(job.finishedAt).toISOString() }),
+      elapsed_ms: (job.finishedAt ?? Date.now()) - job.createdAt,
+      ...(job.progress && { progress: job.progress }),
+      ...(job.finishedAt !== undefined && { expires_at: new Date(job.finishedAt + this.options.resultTtlMs).toISOString() }),
+      ...(error && { error }),
+    };
+  }
+}
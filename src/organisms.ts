@@ -0,0 +1,182 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { AxiosInstance } from 'axios';
+import { NOT_FOUND_ERROR_CODE } from './errors.js';
+
+// Organism name resolution interfaces
+export type OrganismMatchType = 'tax_id' | 'scientific_name' | 'common_name' | 'synonym' | 'abbreviation' | 'fuzzy' | 'partial';
+
+export interface OrganismCandidate {
+  tax_id: number;
+  name: string;
+  common_name?: string;
+  rank?: string;
+  group?: string;
+  // The taxonomy name the query matched, when it is not the scientific name
+  matched_term?: string;
+  match_type: OrganismMatchType;
+  // 0-1; how well the query matches this taxon, independent of the other candidates
+  confidence: number;
+}
+
+export interface OrganismResolution {
+  query: string;
+  tax_id: number;
+  name?: string;
+  rank?: string;
+  match_type: OrganismMatchType;
+  confidence: number;
+  // Every taxon the query could mean, best first
+  candidates: OrganismCandidate[];
+}
+
+// A resolution is accepted at this confidence, when no other candidate comes within AMBIGUITY_MARGIN of it
+const MIN_CONFIDENCE = 0.7;
+const AMBIGUITY_MARGIN = 0.1;
+const MAX_CANDIDATES = 5;
+
+const MATCH_CONFIDENCE: Record<Exclude<OrganismMatchType, 'fuzzy' | 'partial'>, number> = {
+  tax_id: 1,
+  scientific_name: 1,
+  common_name: 0.95,
+  synonym: 0.9,
+  abbreviation: 0.8,
+};
+// Misspellings score up to this, scaled by how similar the names are
+const FUZZY_CONFIDENCE = 0.8;
+// Names that merely start with the query score up to this, scaled by how much of the name it covers
+const PARTIAL_CONFIDENCE = 0.5;
+
+// Names nothing is suggested for are looked up by the start of their first word when their words fail too
+const FALLBACK_PREFIX_LENGTH = 4;
+
+// "E. coli", "E coli" or "S. cerevisiae S288C": genus initial, species epithet and anything after it
+const ABBREVIATION = /^([a-z])\.?\s+([a-z-]+)(.*)$/i;
+
+const normalize = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Optimal string alignment distance: edits, counting a swap of neighbouring letters as one
+const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Score one name-suggest entry against the query
+const scoreSuggestion = (query: string, entry: any): OrganismCandidate => {
+  const name: string = entry.sci_name;
+  const matchedTerm: string = entry.matched_term || name;
+  const [sciName, commonName, term] = [normalize(name), normalize(entry.common_name || ''), normalize(matchedTerm)];
+
+  let matchType: OrganismMatchType;
+  let confidence: number;
+  if (query === sciName) {
+    [matchType, confidence] = ['scientific_name', MATCH_CONFIDENCE.scientific_name];
+  } else if (query === commonName) {
+    [matchType, confidence] = ['common_name', MATCH_CONFIDENCE.common_name];
+  } else if (query === term) {
+    [matchType, confidence] = ['synonym', MATCH_CONFIDENCE.synonym];
+  } else {
+    const abbreviation = query.match(ABBREVIATION);
+    const words = sciName.split(' ');
+    const expands = abbreviation && words[0].startsWith(abbreviation[1]) &&
+      normalize(`${words.slice(1).join(' ')}`) === normalize(`${abbreviation[2]}${abbreviation[3]}`);
+    if (expands) {
+      [matchType, confidence] = ['abbreviation', MATCH_CONFIDENCE.abbreviation];
+    } else {
+      const similarity = Math.max(...[sciName, commonName, term].filter(Boolean).map((candidate) =>
+        1 - editDistance(query, candidate) / Math.max(query.length, candidate.length)));
+      const coverage = term.startsWith(query) ? query.length / term.length : 0;
+      [matchType, confidence] = similarity * FUZZY_CONFIDENCE >= coverage * PARTIAL_CONFIDENCE
+        ? ['fuzzy', similarity * FUZZY_CONFIDENCE]
+        : ['partial', coverage * PARTIAL_CONFIDENCE];
+    }
+  }
+
+  return {
+    tax_id: Number(entry.tax_id),
+    name,
+    ...(entry.common_name && { common_name: entry.common_name }),
+    ...(entry.rank && { rank: entry.rank.toLowerCase() }),
+    ...(entry.group_name && { group: entry.group_name }),
+    ...(matchedTerm !== name && { matched_term: matchedTerm }),
+    match_type: matchType,
+    confidence: round(Math.max(0, confidence)),
+  };
+};
+
+const suggest = async (apiClient: AxiosInstance, term: string): Promise<any[]> => {
+  const response = await apiClient.get(`/taxonomy/taxon_suggest/${encodeURIComponent(term)}`);
+  return response.data.sci_name_and_ids || [];
+};
+
+// Candidate taxa for a name through the taxonomy name-suggest endpoint, best first. Abbreviations are also looked
+// up by their species epithet. Names nothing starts with (usually misspellings) are looked up word by word, and
+// then by the start of their first word, until something is suggested, so that a misspelt genus is recovered too.
+export const organismCandidates = async (apiClient: AxiosInstance, name: string): Promise<OrganismCandidate[]> => {
+  const query = normalize(name);
+  const entries = await suggest(apiClient, name.trim());
+  const abbreviation = query.match(ABBREVIATION);
+  if (abbreviation) entries.push(...await suggest(apiClient, abbreviation[2]));
+  const words = name.trim().split(/\s+/);
+  const fallbacks = new Set([...words, words[0].slice(0, FALLBACK_PREFIX_LENGTH)].filter((term) => normalize(term) !== query));
+  for (const term of fallbacks) {
+    if (entries.length) break;
+    entries.push(...await suggest(apiClient, term));
+  }
+
+  // A taxon can be suggested under several names; keep its best match
+  const best = new Map<number, OrganismCandidate>();
+  for (const candidate of entries.map((entry) => scoreSuggestion(query, entry))) {
+    const existing = best.get(candidate.tax_id);
+    if (!existing || candidate.confidence > existing.confidence) best.set(candidate.tax_id, candidate);
+  }
+  return [...best.values()].sort((a, b) => b.confidence - a.confidence);
+};
+
+const describeCandidate = (candidate: OrganismCandidate): string =>
+  `${candidate.name} (${[candidate.rank, candidate.group, candidate.common_name, `tax ID ${candidate.tax_id}`].filter(Boolean).join(', ')})`;
+
+// Resolve an organism given by tax ID, scientific name, abbreviation, synonym or common name to one taxon.
+// Names matching no taxon well enough, or two taxa about equally well (e.g. the plant and the bird genus
+// Morus), are refused with the candidates, so that the caller can pick a tax ID.
+export const resolveOrganism = async (apiClient: AxiosInstance, organism: string): Promise<OrganismResolution> => {
+  const query = organism.trim();
+  if (/^\d+$/.test(query)) {
+    return { query, tax_id: Number(query), match_type: 'tax_id', confidence: MATCH_CONFIDENCE.tax_id, candidates: [] };
+  }
+
+  const candidates = (await organismCandidates(apiClient, query)).slice(0, MAX_CANDIDATES);
+  const [top, runnerUp] = candidates;
+  if (!top) {
+    throw new McpError(NOT_FOUND_ERROR_CODE, `No organism in NCBI Taxonomy matches "${query}"`);
+  }
+  if (top.confidence < MIN_CONFIDENCE) {
+    throw new McpError(ErrorCode.InvalidParams,
+      `No confident match for organism "${query}"; closest: ${candidates.map(describeCandidate).join('; ')}. Use a tax ID or the scientific name`,
+      { query, candidates });
+  }
+  if (runnerUp && round(top.confidence - runnerUp.confidence) < AMBIGUITY_MARGIN) {
+    const tied = candidates.filter((candidate) => round(top.confidence - candidate.confidence) < AMBIGUITY_MARGIN);
+    throw new McpError(ErrorCode.InvalidParams,
+      `Organism "${query}" is ambiguous: it matches ${tied.map(describeCandidate).join(' and ')}. Use a tax ID or a more specific name`,
+      { query, candidates });
+  }
+
+  return { query, tax_id: top.tax_id, name: top.name, ...(top.rank && { rank: top.rank }), match_type: top.match_type, confidence: top.confidence, candidates };
+};
+
+// Resolve several organisms in order, refusing on the first that cannot be resolved
+export const resolveOrganisms = async (apiClient: AxiosInstance, organisms: string[]): Promise<OrganismResolution[]> => {
+  const resolutions: OrganismResolution[] = [];
+  for (const organism of organisms) resolutions.push(await resolveOrganism(apiClient, organism));
+  return resolutions;
+};
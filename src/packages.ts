@@ -0,0 +1,279 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { openZipEntry, readZipEntries, readZipEntry, ZipEntry } from './zip.js';
+
+// Data package interfaces
+export type PackageFileFormat = 'fasta' | 'genbank' | 'gff3' | 'gtf';
+
+export interface WorkspaceOptions {
+  directory: string;
+  downloadTimeoutMs: number;
+}
+
+export interface DownloadedFile {
+  path: string;
+  size_bytes: number;
+  md5: string;
+}
+
+export interface ManifestFile extends DownloadedFile {
+  // Location inside the data package
+  package_path: string;
+  // Whether md5sum.txt listed the file and its checksum matched
+  checksum_verified: boolean;
+}
+
+// Datasets annotation types and the package files each one produces
+export const PACKAGE_FORMATS: Record<PackageFileFormat, { annotationType: string; pattern: RegExp }> = {
+  fasta: { annotationType: 'GENOME_FASTA', pattern: /\.(fna|fasta|fa)$/ },
+  genbank: { annotationType: 'GENOME_GBFF', pattern: /\.gbff$/ },
+  gff3: { annotationType: 'GENOME_GFF', pattern: /\.gff3?$/ },
+  gtf: { annotationType: 'GENOME_GTF', pattern: /\.gtf$/ },
+};
+
+// Bulk packages are identified by name under <workspace>/packages/
+export const PACKAGES_DIRECTORY = 'packages';
+
+const DATA_PREFIX = 'ncbi_dataset/data/';
+const CHECKSUM_FILE = 'md5sum.txt';
+
+export const workspaceOptionsFromEnv = (env: NodeJS.ProcessEnv = process.env): WorkspaceOptions => ({
+  directory: path.resolve(env.NCBI_WORKSPACE_DIR || path.join(os.tmpdir(), 'ncbi-datasets-workspace')),
+  downloadTimeoutMs: parseInt(env.NCBI_DOWNLOAD_TIMEOUT || '600000'),
+});
+
+// Directory names derived from accessions or other user input must stay inside the workspace
+export const workspacePath = (workspace: WorkspaceOptions, ...segments: string[]): string => {
+  const resolved = path.resolve(workspace.directory, ...segments.map((segment) => segment.replace(/[^A-Za-z0-9._-]/g, '_')));
+  if (resolved !== workspace.directory && !resolved.startsWith(workspace.directory + path.sep)) {
+    throw new McpError(ErrorCode.InvalidParams, `Path escapes the workspace directory: ${segments.join('/')}`);
+  }
+  return resolved;
+};
+
+const md5Transform = (hash: ReturnType<typeof createHash>, counter: { bytes: number }) =>
+  new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      counter.bytes += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+// Write a stream to disk via a .part file, returning its size and md5. With append, an existing .part
+// file is continued (and counted in the checksum); with keepPartial, it survives a failure for resuming
+export const writeStreamToFile = async (
+  source: Readable,
+  destination: string,
+  options: { append?: boolean; keepPartial?: boolean } = {}
+): Promise<DownloadedFile> => {
+  await fs.mkdir(path.dirname(destination), { recursive: true });
+  const hash = createHash('md5');
+  const counter = { bytes: 0 };
+  const partial = `${destination}.part`;
+  try {
+    if (options.append) {
+      await pipeline(createReadStream(partial), md5Transform(hash, counter), new Writable({ write: (_chunk, _encoding, callback) => callback() }));
+    }
+    await pipeline(source, md5Transform(hash, counter), createWriteStream(partial, { flags: options.append ? 'a' : 'w' }));
+    await fs.rename(partial, destination);
+  } catch (error) {
+    if (!options.keepPartial) await fs.rm(partial, { force: true });
+    throw error;
+  }
+  return { path: destination, size_bytes: counter.bytes, md5: hash.digest('hex') };
+};
+
+const MAX_ERROR_BODY_BYTES = 64 * 1024;
+
+// Error responses to streamed requests arrive as streams; read the NCBI error body so it can be reported
+const readErrorBody = async (stream: Readable): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+    size += (chunk as Buffer).length;
+    if (size >= MAX_ERROR_BODY_BYTES) break;
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+// GET a streamed response; NCBI error bodies are read from the stream so they can be reported
+export const requestStream = async (
+  apiClient: AxiosInstance,
+  url: string,
+  config: AxiosRequestConfig = {}
+): Promise<AxiosResponse<Readable>> => {
+  try {
+    return await apiClient.request({ method: 'GET', url, ...config, responseType: 'stream' });
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.data instanceof Readable) {
+      error.response.data = await readErrorBody(error.response.data);
+    }
+    throw error;
+  }
+};
+
+// Stream a data package zip from the Datasets API straight to disk; a body switches the request to POST
+export const downloadPackage = async (
+  apiClient: AxiosInstance,
+  endpoint: string,
+  params: Record<string, unknown>,
+  destination: string,
+  workspace: WorkspaceOptions,
+  options: { body?: unknown; signal?: AbortSignal } = {}
+): Promise<DownloadedFile> => {
+  const response = await requestStream(apiClient, endpoint, {
+    ...(options.body !== undefined && { method: 'POST', data: options.body }),
+    params,
+    timeout: workspace.downloadTimeoutMs,
+    signal: options.signal,
+    headers: { Accept: 'application/zip' },
+  });
+  return writeStreamToFile(response.data, destination);
+};
+
+// md5sum.txt lines look like "<md5>  ncbi_dataset/data/GCF_000005845.2/GCF_000005845.2_ASM584v2_genomic.fna"
+export const parseMd5Sums = (text: string): Map<string, string> => {
+  const sums = new Map<string, string>();
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.trim().match(/^([0-9a-f]{32})\s+\*?(.+)$/i);
+    if (match) sums.set(match[2].replace(/^\.\//, ''), match[1].toLowerCase());
+  }
+  return sums;
+};
+
+export const readPackageChecksums = async (zipFile: string, entries: ZipEntry[]): Promise<Map<string, string>> => {
+  const entry = entries.find((candidate) => candidate.name === CHECKSUM_FILE || candidate.name.endsWith(`/${CHECKSUM_FILE}`));
+  return entry ? parseMd5Sums((await readZipEntry(zipFile, entry)).toString('utf8')) : new Map();
+};
+
+// Data files in the package, optionally restricted to the requested formats
+export const packageDataEntries = (entries: ZipEntry[], formats?: PackageFileFormat[]): ZipEntry[] =>
+  entries.filter((entry) =>
+    entry.name.startsWith(DATA_PREFIX) && !entry.name.endsWith('/') &&
+    (!formats || formats.some((format) => PACKAGE_FORMATS[format].pattern.test(entry.name)))
+  );
+
+// Extract entries into a directory and verify each against md5sum.txt; flattened to their base
+// names by default, otherwise keeping their package paths. Entries that would flatten onto the same
+// name (e.g. genomic.gff of two assemblies) are refused before anything is written.
+export const extractPackageFiles = async (
+  zipFile: string,
+  entries: ZipEntry[],
+  checksums: Map<string, string>,
+  directory: string,
+  flatten = true
+): Promise<ManifestFile[]> => {
+  if (flatten) {
+    const byName = new Map<string, string[]>();
+    for (const entry of entries) {
+      const name = path.basename(entry.name);
+      byName.set(name, [...(byName.get(name) ?? []), entry.name]);
+    }
+    const collisions = [...byName.values()].filter((names) => names.length > 1);
+    if (collisions.length) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Package entries share a file name and cannot be flattened: ${collisions.map((names) => names.join(', ')).join('; ')}`
+      );
+    }
+  }
+
+  const files: ManifestFile[] = [];
+  for (const entry of entries) {
+    const destination = path.resolve(directory, flatten ? path.basename(entry.name) : entry.name);
+    if (!destination.startsWith(directory + path.sep)) {
+      throw new McpError(ErrorCode.InternalError, `Package entry escapes the extraction directory: ${entry.name}`);
+    }
+    const extracted = await writeStreamToFile(await openZipEntry(zipFile, entry), destination);
+    const expected = checksums.get(entry.name);
+    if (expected && expected !== extracted.md5) {
+      await fs.rm(extracted.path, { force: true });
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Checksum mismatch for ${entry.name}: md5sum.txt lists ${expected}, extracted file has ${extracted.md5}`
+      );
+    }
+    files.push({ ...extracted, package_path: entry.name, checksum_verified: expected !== undefined });
+  }
+  return files;
+};
+
+// Download a package and extract its data files, flattened, into a workspace directory; the zip is saved
+// alongside as <directory name>.zip and removed afterwards unless keepZip is set
+export const fetchPackageFiles = async (
+  apiClient: AxiosInstance,
+  workspace: WorkspaceOptions,
+  endpoint: string,
+  params: Record<string, unknown>,
+  directory: string,
+  options: { formats?: PackageFileFormat[]; keepZip?: boolean; signal?: AbortSignal } = {}
+): Promise<{ zipPath: string; package: DownloadedFile; checksums: Map<string, string>; files: ManifestFile[] }> => {
+  const zipPath = path.join(directory, `${path.basename(directory)}.zip`);
+  const download = await downloadPackage(apiClient, endpoint, params, zipPath, workspace, { signal: options.signal });
+  try {
+    const entries = await readZipEntries(zipPath);
+    const checksums = await readPackageChecksums(zipPath, entries);
+    const files = await extractPackageFiles(zipPath, packageDataEntries(entries, options.formats), checksums, directory);
+    return { zipPath, package: download, checksums, files };
+  } finally {
+    if (!options.keepZip) await fs.rm(zipPath, { force: true });
+  }
+};
+
+// Files under a directory whose names match, recursively; a missing directory has none
+export const listFiles = async (directory: string, pattern: RegExp): Promise<string[]> => {
+  const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+  for (const entry of entries) {
+    const file = path.join(directory, entry.name);
+    if (entry.isDirectory()) files.push(...await listFiles(file, pattern));
+    else if (pattern.test(entry.name)) files.push(file);
+  }
+  return files.sort();
+};
+
+// Where download_genome_data and download_genome_package put an assembly's files
+export const assemblyDirectories = async (workspace: WorkspaceOptions, assemblyAccession: string): Promise<string[]> => {
+  const packages = await fs.readdir(workspacePath(workspace, PACKAGES_DIRECTORY)).catch(() => []);
+  return [
+    workspacePath(workspace, assemblyAccession),
+    ...packages.map((name) => workspacePath(workspace, PACKAGES_DIRECTORY, name, 'ncbi_dataset', 'data', assemblyAccession)),
+  ];
+};
+
+// An assembly's files of one format, from the workspace or downloaded into <workspace>/<accession> when there are none
+export const assemblyFiles = async (
+  apiClient: AxiosInstance,
+  workspace: WorkspaceOptions,
+  assemblyAccession: string,
+  format: PackageFileFormat,
+  signal?: AbortSignal
+): Promise<{ files: string[]; downloaded: boolean }> => {
+  const { annotationType, pattern } = PACKAGE_FORMATS[format];
+  for (const directory of await assemblyDirectories(workspace, assemblyAccession)) {
+    const files = await listFiles(directory, pattern);
+    if (files.length) return { files, downloaded: false };
+  }
+
+  const directory = workspacePath(workspace, assemblyAccession);
+  await fetchPackageFiles(apiClient, workspace, `/genome/accession/${assemblyAccession}/download`,
+    { include_annotation_type: annotationType }, directory, { formats: [format], signal });
+  const files = await listFiles(directory, pattern);
+  if (!files.length) {
+    throw new McpError(ErrorCode.InvalidParams, `Assembly ${assemblyAccession} has no ${format} files`);
+  }
+  return { files, downloaded: true };
+};
@@ -0,0 +1,107 @@
+import { JSONSchemaProperty } from './validation.js';
+
+// Pagination interfaces
+export interface Page<T> {
+  records: T[];
+  totalCount?: number;
+  nextPageToken?: string;
+}
+
+export interface PaginationRequest {
+  max_results?: number;
+  fetch_all?: boolean;
+  max_total?: number;
+  page_token?: string;
+}
+
+export interface PaginatedResult<T> {
+  records: T[];
+  total_count: number;
+  pages_fetched: number;
+  duplicates_removed: number;
+  truncated: boolean;
+  // Where to resume; absent when the last page was only partly returned
+  next_page_token?: string;
+}
+
+// Hard limits on automatic pagination, whatever the caller asks for
+export const MAX_PAGINATED_RECORDS = 5000;
+export const MAX_PAGINATED_PAGES = 50;
+export const AUTO_PAGINATION_PAGE_SIZE = 1000;
+
+export const paginationSchemaProperties: Record<string, JSONSchemaProperty> = {
+  fetch_all: { type: 'boolean', description: `Follow page tokens automatically and return all results (up to ${MAX_PAGINATED_RECORDS}, default: false)` },
+  max_total: { type: 'integer', description: `Follow page tokens until this many results are collected (1-${MAX_PAGINATED_RECORDS})`, minimum: 1, maximum: MAX_PAGINATED_RECORDS },
+};
+
+export const wantsAutoPagination = (args: PaginationRequest): boolean =>
+  args.fetch_all === true || args.max_total !== undefined;
+
+// max_results sets the page size when paginating automatically; otherwise fetch large pages
+export const autoPageSize = (args: PaginationRequest): number =>
+  args.max_results || Math.min(args.max_total || AUTO_PAGINATION_PAGE_SIZE, AUTO_PAGINATION_PAGE_SIZE);
+
+// Follow page tokens until the requested total, the hard caps, or the last page is reached
+export const fetchAllPages = async <T>(
+  args: PaginationRequest,
+  fetchPage: (pageToken?: string) => Promise<Page<T>>,
+  keyOf: (record: T) => string | number | undefined
+): Promise<PaginatedResult<T>> => {
+  const limit = Math.min(args.max_total ?? MAX_PAGINATED_RECORDS, MAX_PAGINATED_RECORDS);
+  const seen = new Set<string>();
+  const records: T[] = [];
+  let duplicates = 0;
+  let pages = 0;
+  let totalCount = 0;
+  let pageToken = args.page_token;
+
+  do {
+    const page = await fetchPage(pageToken);
+    pages++;
+    totalCount = page.totalCount ?? totalCount;
+    pageToken = page.nextPageToken || undefined;
+
+    for (const record of page.records) {
+      const key = keyOf(record);
+      const dedupeKey = key !== undefined ? String(key) : JSON.stringify(record);
+      if (seen.has(dedupeKey)) {
+        duplicates++;
+        continue;
+      }
+      seen.add(dedupeKey);
+      records.push(record);
+    }
+  } while (pageToken && records.length < limit && pages < MAX_PAGINATED_PAGES);
+
+  // Records cut from the last page would be skipped by resuming at the next one, so no token is returned then
+  const sliced = records.length > limit;
+  return {
+    records: records.slice(0, limit),
+    total_count: totalCount || records.length,
+    pages_fetched: pages,
+    duplicates_removed: duplicates,
+    truncated: sliced || pageToken !== undefined,
+    next_page_token: sliced ? undefined : pageToken,
+  };
+};
+
+// Tool result for an automatically paginated search, shaped like the single-page results
+export const paginatedToolResult = <T>(searchParameters: unknown, recordsKey: string, result: PaginatedResult<T>) => ({
+  content: [
+    {
+      type: 'text',
+      text: JSON.stringify({
+        search_parameters: searchParameters,
+        total_count: result.total_count,
+        returned_count: result.records.length,
+        page_token: result.next_page_token,
+        pagination: {
+          pages_fetched: result.pages_fetched,
+          duplicates_removed: result.duplicates_removed,
+          truncated: result.truncated,
+        },
+        [recordsKey]: result.records,
+      }, null, 2),
+    },
+  ],
+});
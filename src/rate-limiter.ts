@@ -0,0 +1,153 @@
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+// Rate limiter interfaces
+export interface RateLimiterOptions {
+  requestsPerSecond: number;
+  burst: number;
+  maxRetryAfterAttempts: number;
+}
+
+export interface RateLimiterStatus {
+  requests_per_second: number;
+  burst: number;
+  available_tokens: number;
+  queue_depth: number;
+  in_flight: number;
+  paused_until: string | null;
+  total_requests: number;
+  total_queued: number;
+  retry_after_responses: number;
+}
+
+// NCBI allows 3 requests/second without an API key and 10 with one
+export const rateLimiterOptionsFromEnv = (apiKey?: string, env: NodeJS.ProcessEnv = process.env): RateLimiterOptions => {
+  const requestsPerSecond = parseFloat(env.NCBI_RATE_LIMIT || (apiKey ? '10' : '3'));
+  return {
+    requestsPerSecond: requestsPerSecond > 0 ? requestsPerSecond : 3,
+    burst: Math.max(1, parseInt(env.NCBI_RATE_LIMIT_BURST || '1')),
+    maxRetryAfterAttempts: parseInt(env.NCBI_RATE_LIMIT_RETRIES || '3'),
+  };
+};
+
+// Parse a Retry-After header given either in seconds or as an HTTP date
+export const parseRetryAfter = (value: unknown, now = Date.now()): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) return Math.ceil(parseFloat(text) * 1000);
+  const date = Date.parse(text);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private queue: Array<() => void> = [];
+  private timer?: NodeJS.Timeout;
+  private inFlight = 0;
+  private totalRequests = 0;
+  private totalQueued = 0;
+  private retryAfterResponses = 0;
+
+  constructor(private options: RateLimiterOptions) {
+    this.tokens = options.burst;
+  }
+
+  get maxRetryAfterAttempts(): number {
+    return this.options.maxRetryAfterAttempts;
+  }
+
+  // Resolve once a request slot is available; callers wait in FIFO order
+  acquire(): Promise<void> {
+    this.totalRequests++;
+    return new Promise((resolve) => {
+      this.queue.push(resolve);
+      if (this.queue.length > 1 || !this.tryDrain()) this.totalQueued++;
+    });
+  }
+
+  started() {
+    this.inFlight++;
+  }
+
+  finished() {
+    this.inFlight = Math.max(0, this.inFlight - 1);
+  }
+
+  // Stop handing out tokens until the server-requested delay has passed
+  pause(delayMs: number) {
+    this.retryAfterResponses++;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+    this.tokens = 0;
+    this.schedule();
+  }
+
+  status(): RateLimiterStatus {
+    this.refill();
+    return {
+      requests_per_second: this.options.requestsPerSecond,
+      burst: this.options.burst,
+      available_tokens: Number(this.tokens.toFixed(2)),
+      queue_depth: this.queue.length,
+      in_flight: this.inFlight,
+      paused_until: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null,
+      total_requests: this.totalRequests,
+      total_queued: this.totalQueued,
+      retry_after_responses: this.retryAfterResponses,
+    };
+  }
+
+  private refill() {
+    const now = Date.now();
+    const elapsed = (Math.max(now, this.pausedUntil) - Math.max(this.lastRefill, this.pausedUntil)) / 1000;
+    if (elapsed > 0) {
+      this.tokens = Math.min(this.options.burst, this.tokens + elapsed * this.options.requestsPerSecond);
+    }
+    this.lastRefill = now;
+  }
+
+  // Release as many queued requests as there are tokens; returns true if the queue emptied
+  private tryDrain(): boolean {
+    this.refill();
+    while (this.queue.length > 0 && Date.now() >= this.pausedUntil && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.queue.shift()!();
+    }
+    if (this.queue.length > 0) this.schedule();
+    return this.queue.length === 0;
+  }
+
+  private schedule() {
+    if (this.timer || this.queue.length === 0) return;
+    const now = Date.now();
+    const untilToken = this.tokens >= 1 ? 0 : ((1 - this.tokens) / this.options.requestsPerSecond) * 1000;
+    const delay = Math.max(this.pausedUntil - now, 0) + untilToken;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.tryDrain();
+    }, Math.ceil(delay));
+    this.timer.unref();
+  }
+}
+
+// Throttle every network request through the limiter and wait out 429 Retry-After responses
+export const attachRateLimiter = (client: AxiosInstance, limiter: RateLimiter) => {
+  const networkAdapter = axios.getAdapter(client.defaults.adapter);
+
+  client.defaults.adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    for (let attempt = 0; ; attempt++) {
+      await limiter.acquire();
+      limiter.started();
+      try {
+        return await networkAdapter(config);
+      } catch (error) {
+        const response = (error as AxiosError).response;
+        const delay = response?.status === 429 ? parseRetryAfter(response.headers['retry-after']) : undefined;
+        if (delay === undefined || attempt >= limiter.maxRetryAfterAttempts) throw error;
+        limiter.pause(delay);
+      } finally {
+        limiter.finished();
+      }
+    }
+  };
+};
@@ -0,0 +1,135 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { AxiosInstance } from 'axios';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { BlastOptions } from './blast.js';
+import { ResponseCache } from './cache.js';
+import { JobManager } from './jobs.js';
+import { WorkspaceOptions } from './packages.js';
+import { RateLimiter } from './rate-limiter.js';
+import { shapingSchemaProperties, SummaryKind } from './shaping.js';
+import { ToolDefinition } from './validation.js';
+
+// Tool registry interfaces
+export type ToolCategory =
+  | 'genome'
+  | 'gene'
+  | 'taxonomy'
+  | 'assembly'
+  | 'virus'
+  | 'protein'
+  | 'annotation'
+  | 'comparative'
+  | 'sequence'
+  | 'phylogenetic'
+  | 'statistics'
+  | 'quality'
+  | 'server'
+  | 'plugin';
+
+// A type alias rather than an interface so it stays assignable to the SDK's passthrough result schema
+export type ToolResult = {
+  content: Array<{ type: string; text: string }>;
+  isError?: boolean;
+};
+
+// Shared server state handed to every tool handler
+export interface ToolContext {
+  apiClient: AxiosInstance;
+  cache: ResponseCache;
+  rateLimiter: RateLimiter;
+  workspace: WorkspaceOptions;
+  blast: BlastOptions;
+  jobs: JobManager;
+  apiKey?: string;
+  // Sends MCP progress notifications, or updates a background job's progress
+  reportProgress?: (progress: number, total?: number) => void;
+  // Aborted when the client cancels the request or the background job is cancelled
+  signal?: AbortSignal;
+}
+
+export interface ToolModule extends ToolDefinition {
+  category: ToolCategory;
+  // Compact record shape used by view: "summary"
+  summaryKind?: SummaryKind;
+  // Server tools report on the server itself and opt out of response shaping
+  shaped?: boolean;
+  handler: (args: any, context: ToolContext) => Promise<ToolResult>;
+}
+
+export const defineTool = (tool: ToolModule): ToolModule => tool;
+
+const isToolModule = (value: any): value is ToolModule =>
+  value !== null && typeof value === 'object' &&
+  typeof value.name === 'string' &&
+  typeof value.description === 'string' &&
+  typeof value.handler === 'function' &&
+  value.inputSchema?.type === 'object' &&
+  typeof value.inputSchema.properties === 'object';
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolModule>();
+
+  register(tool: ToolModule) {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool ${tool.name} is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  get(name: string): ToolModule {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+    return tool;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  // Definitions advertised to clients, with the shared response shaping arguments on data tools
+  definitions(): ToolDefinition[] {
+    return [...this.tools.values()].map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.shaped === false ? tool.inputSchema : {
+        ...tool.inputSchema,
+        properties: { ...tool.inputSchema.properties, ...shapingSchemaProperties },
+      },
+    }));
+  }
+
+  byCategory(): Record<string, string[]> {
+    const categories: Record<string, string[]> = {};
+    for (const tool of this.tools.values()) {
+      (categories[tool.category] ||= []).push(tool.name);
+    }
+    return categories;
+  }
+
+  // Load every .js/.mjs module in a directory; each exports a tool, or an array of tools, as default or `tools`
+  async loadPlugins(directory: string): Promise<string[]> {
+    const files = (await fs.readdir(directory))
+      .filter((file) => file.endsWith('.js') || file.endsWith('.mjs'))
+      .sort();
+    const loaded: string[] = [];
+
+    for (const file of files) {
+      const module = await import(pathToFileURL(path.resolve(directory, file)).href);
+      const exported = module.default ?? module.tools;
+      const candidates = Array.isArray(exported) ? exported : [exported];
+
+      for (const candidate of candidates) {
+        if (!isToolModule(candidate)) {
+          throw new Error(`Plugin ${file} does not export a valid tool (name, description, inputSchema and handler are required)`);
+        }
+        this.register({ ...candidate, category: candidate.category || 'plugin', inputSchema: { ...candidate.inputSchema, required: candidate.inputSchema.required ?? [] } });
+        loaded.push(candidate.name);
+      }
+    }
+    return loaded;
+  }
+}
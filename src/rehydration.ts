@@ -0,0 +1,164 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { AxiosInstance } from 'axios';
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { toMcpError } from './errors.js';
+import { parseMd5Sums, requestStream, writeStreamToFile } from './packages.js';
+
+// Rehydration interfaces
+export interface FetchEntry {
+  url: string;
+  // Expected size, when fetch.txt lists one
+  size_bytes?: number;
+  // Path relative to the package's ncbi_dataset/ directory, e.g. data/GCF_000005845.2/genomic.gff
+  path: string;
+}
+
+export type RehydrationStatus = 'downloaded' | 'resumed' | 'skipped' | 'failed';
+
+export interface RehydratedFile {
+  path: string;
+  package_path: string;
+  status: RehydrationStatus;
+  size_bytes?: number;
+  md5?: string;
+  checksum_verified?: boolean;
+  error?: string;
+}
+
+export interface RehydrationOptions {
+  concurrency: number;
+  // Only fetch files whose package path contains this string
+  match?: string;
+  timeoutMs: number;
+  onProgress?: (completed: number, total: number) => void;
+  // Stops starting new files and aborts those in flight; partial downloads are kept for resuming
+  signal?: AbortSignal;
+}
+
+export const FETCH_FILE = 'ncbi_dataset/fetch.txt';
+const PACKAGE_ROOT = 'ncbi_dataset';
+
+// fetch.txt is a BagIt fetch file: "<url>\t<length>\t<path>", where the length may be "-" or -1 when unknown
+export const parseFetchFile = (text: string): FetchEntry[] =>
+  text.split(/\r?\n/).filter((line) => line.trim()).map((line, index) => {
+    const [url, length, ...rest] = line.split(/\t| {2,}/);
+    const filePath = rest.join(' ').trim();
+    if (!url || !filePath) {
+      throw new McpError(ErrorCode.InternalError, `Malformed fetch.txt line ${index + 1}: ${line}`);
+    }
+    const size = parseInt(length);
+    return { url: url.trim(), ...(size >= 0 && { size_bytes: size }), path: filePath.replace(/^\.\//, '') };
+  });
+
+const md5OfFile = async (file: string): Promise<string> => {
+  const hash = createHash('md5');
+  for await (const chunk of createReadStream(file)) hash.update(chunk as Buffer);
+  return hash.digest('hex');
+};
+
+const sizeOf = async (file: string): Promise<number | undefined> =>
+  (await fs.stat(file).catch(() => undefined))?.size;
+
+// Rehydrated files are requested with the API client (so they are rate limited and retried, and the
+// API key is sent), which is only safe for URLs on the API's own origin
+const assertSameOrigin = (apiClient: AxiosInstance, url: string) => {
+  const origin = new URL(apiClient.defaults.baseURL || url).origin;
+  if (new URL(url).origin !== origin) {
+    throw new McpError(ErrorCode.InvalidRequest, `Refusing to fetch ${url}: fetch.txt URLs must be on ${origin}`);
+  }
+};
+
+const rehydrateFile = async (
+  apiClient: AxiosInstance,
+  directory: string,
+  entry: FetchEntry,
+  checksums: Map<string, string>,
+  options: RehydrationOptions
+): Promise<RehydratedFile> => {
+  const packagePath = `${PACKAGE_ROOT}/${entry.path}`;
+  const destination = path.resolve(directory, packagePath);
+  if (!destination.startsWith(directory + path.sep)) {
+    throw new McpError(ErrorCode.InternalError, `fetch.txt path escapes the package directory: ${entry.path}`);
+  }
+  const expectedMd5 = checksums.get(packagePath);
+  const file = { path: destination, package_path: packagePath };
+
+  // Resume: complete files that still match fetch.txt and md5sum.txt are not fetched again
+  const existing = await sizeOf(destination);
+  if (existing !== undefined && (entry.size_bytes === undefined || existing === entry.size_bytes)) {
+    const md5 = await md5OfFile(destination);
+    if (!expectedMd5 || md5 === expectedMd5) {
+      return { ...file, status: 'skipped', size_bytes: existing, md5, checksum_verified: expectedMd5 !== undefined };
+    }
+  }
+
+  // An interrupted download continues from its .part file when the server honours the range
+  assertSameOrigin(apiClient, entry.url);
+  const offset = await sizeOf(`${destination}.part`) || 0;
+  const response = await requestStream(apiClient, entry.url, {
+    timeout: options.timeoutMs,
+    signal: options.signal,
+    headers: { Accept: '*/*', ...(offset > 0 && { Range: `bytes=${offset}-` }) },
+  });
+  const resumed = offset > 0 && response.status === 206;
+  const written = await writeStreamToFile(response.data, destination, { append: resumed, keepPartial: true });
+
+  const mismatch = entry.size_bytes !== undefined && written.size_bytes !== entry.size_bytes
+    ? `fetch.txt lists ${entry.size_bytes} bytes, downloaded file has ${written.size_bytes}`
+    : expectedMd5 && written.md5 !== expectedMd5
+      ? `md5sum.txt lists ${expectedMd5}, downloaded file has ${written.md5}`
+      : undefined;
+  if (mismatch) {
+    await fs.rm(destination, { force: true });
+    throw new McpError(ErrorCode.InternalError, `Verification failed for ${packagePath}: ${mismatch}`);
+  }
+  return {
+    ...file,
+    status: resumed ? 'resumed' : 'downloaded',
+    size_bytes: written.size_bytes,
+    md5: written.md5,
+    checksum_verified: expectedMd5 !== undefined,
+  };
+};
+
+// Fetch every file listed in a dehydrated package's fetch.txt, a bounded number at a time. Failures are
+// reported per file rather than aborting the rest, and running again resumes where this run stopped.
+export const rehydratePackage = async (
+  apiClient: AxiosInstance,
+  directory: string,
+  options: RehydrationOptions
+): Promise<RehydratedFile[]> => {
+  const fetchText = await fs.readFile(path.join(directory, FETCH_FILE), 'utf8').catch(() => {
+    throw new McpError(ErrorCode.InvalidParams, `No ${FETCH_FILE} in ${directory}; is this a dehydrated package?`);
+  });
+  const checksums = parseMd5Sums(await fs.readFile(path.join(directory, 'md5sum.txt'), 'utf8').catch(() => ''));
+  const entries = parseFetchFile(fetchText).filter((entry) => !options.match || entry.path.includes(options.match));
+
+  const results: RehydratedFile[] = new Array(entries.length);
+  let next = 0;
+  let completed = 0;
+  const worker = async () => {
+    while (next < entries.length && !options.signal?.aborted) {
+      const index = next++;
+      const entry = entries[index];
+      try {
+        results[index] = await rehydrateFile(apiClient, directory, entry, checksums, options);
+      } catch (error) {
+        results[index] = {
+          path: path.resolve(directory, PACKAGE_ROOT, entry.path),
+          package_path: `${PACKAGE_ROOT}/${entry.path}`,
+          status: 'failed',
+          error: toMcpError(error, `Failed to fetch ${entry.path}`).message,
+        };
+      }
+      options.onProgress?.(++completed, entries.length);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, entries.length) }, worker));
+  if (options.signal?.aborted) {
+    throw new McpError(ErrorCode.InternalError, `Rehydration cancelled after ${completed} of ${entries.length} files`);
+  }
+  return results;
+};
@@ -0,0 +1,125 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { AxiosInstance } from 'axios';
+import { GenbankRecord, readGenbankRecords } from './genbank.js';
+import { assemblyDirectories, assemblyFiles, fetchPackageFiles, listFiles, PACKAGES_DIRECTORY, WorkspaceOptions, workspacePath } from './packages.js';
+import { FastaRegion, readFastaRecord } from './sequences.js';
+
+// Sequence source interfaces
+export type SequenceKind = 'genomic' | 'transcript' | 'protein';
+
+export interface SequenceLookup {
+  accession: string;
+  kind: SequenceKind;
+  // Genome assembly holding a genomic sequence; resolved through NCBI when omitted
+  assemblyAccession?: string;
+  // download_genome_package package to search first
+  packageName?: string;
+  // 1-based inclusive region to read
+  start?: number;
+  end?: number;
+  signal?: AbortSignal;
+}
+
+export interface SequenceSource {
+  // workspace: found in files already downloaded; download: fetched into the workspace for this lookup
+  type: 'workspace' | 'download';
+  path: string;
+  assembly_accession?: string;
+}
+
+// Gene packages are downloaded by RefSeq accession under <workspace>/genes/
+export const GENES_DIRECTORY = 'genes';
+
+const FASTA_EXTENSIONS: Record<SequenceKind, RegExp> = {
+  genomic: /\.(fna|fasta|fa)$/,
+  transcript: /\.(fna|fasta|fa)$/,
+  protein: /\.(faa|fasta|fa)$/,
+};
+
+// RefSeq prefixes: NM_/XM_/NR_/XR_ are transcripts and NP_/XP_/YP_/WP_/AP_ proteins
+export const sequenceKindOf = (accession: string): SequenceKind => {
+  if (/^(NM|XM|NR|XR)_/.test(accession)) return 'transcript';
+  if (/^(NP|XP|YP|WP|AP)_/.test(accession)) return 'protein';
+  return 'genomic';
+};
+
+const searchFiles = async (files: string[], lookup: SequenceLookup): Promise<{ record: FastaRegion; file: string } | undefined> => {
+  for (const file of files) {
+    const record = await readFastaRecord(file, lookup.accession, lookup.start, lookup.end);
+    if (record) return { record, file };
+  }
+  return undefined;
+};
+
+// Directories where earlier downloads would have put the sequence
+const localDirectories = async (workspace: WorkspaceOptions, lookup: SequenceLookup): Promise<string[]> => {
+  const directories: string[] = [];
+  if (lookup.packageName) directories.push(workspacePath(workspace, PACKAGES_DIRECTORY, lookup.packageName));
+  if (lookup.kind !== 'genomic') directories.push(workspacePath(workspace, GENES_DIRECTORY, lookup.accession));
+  if (lookup.assemblyAccession) directories.push(...await assemblyDirectories(workspace, lookup.assemblyAccession));
+  return directories;
+};
+
+// The genome assembly that contains a sequence accession, e.g. NC_000913.3 -> GCF_000005845.2
+export const assemblyForSequence = async (apiClient: AxiosInstance, accession: string): Promise<string> => {
+  const response = await apiClient.get(`/genome/sequence_accession/${accession}/sequence_assemblies`);
+  const assembly = response.data.accessions?.[0];
+  if (!assembly) {
+    throw new McpError(ErrorCode.InvalidParams, `No genome assembly contains sequence ${accession}`);
+  }
+  return assembly;
+};
+
+// Find a FASTA record in the workspace, or download the genome or gene package that contains it
+export const locateSequence = async (
+  apiClient: AxiosInstance,
+  workspace: WorkspaceOptions,
+  lookup: SequenceLookup
+): Promise<{ record: FastaRegion; source: SequenceSource }> => {
+  const pattern = FASTA_EXTENSIONS[lookup.kind];
+  for (const directory of await localDirectories(workspace, lookup)) {
+    const found = await searchFiles(await listFiles(directory, pattern), lookup);
+    if (found) return { record: found.record, source: { type: 'workspace', path: found.file, assembly_accession: lookup.assemblyAccession } };
+  }
+
+  let directory: string;
+  let assemblyAccession: string | undefined;
+  if (lookup.kind === 'genomic') {
+    assemblyAccession = lookup.assemblyAccession || await assemblyForSequence(apiClient, lookup.accession);
+    directory = workspacePath(workspace, assemblyAccession);
+    // The assembly may already be downloaded even though the caller did not name it
+    const found = lookup.assemblyAccession ? undefined : await searchFiles(await listFiles(directory, pattern), lookup);
+    if (found) return { record: found.record, source: { type: 'workspace', path: found.file, assembly_accession: assemblyAccession } };
+
+    await fetchPackageFiles(apiClient, workspace, `/genome/accession/${assemblyAccession}/download`,
+      { include_annotation_type: 'GENOME_FASTA' }, directory, { formats: ['fasta'], signal: lookup.signal });
+  } else {
+    directory = workspacePath(workspace, GENES_DIRECTORY, lookup.accession);
+    await fetchPackageFiles(apiClient, workspace, `/gene/accession/${lookup.accession}/download`,
+      { include_annotation_type: lookup.kind === 'protein' ? 'FASTA_PROTEIN' : 'FASTA_RNA' }, directory, { signal: lookup.signal });
+  }
+
+  const found = await searchFiles(await listFiles(directory, pattern), lookup);
+  if (!found) {
+    throw new McpError(ErrorCode.InvalidParams, `Sequence ${lookup.accession} is not in the downloaded ${assemblyAccession ? `assembly ${assemblyAccession}` : 'gene package'}`);
+  }
+  return { record: found.record, source: { type: 'download', path: found.file, assembly_accession: assemblyAccession } };
+};
+
+// The GenBank record of a genomic sequence, from its assembly's GBFF files; ORIGIN is not read, as the
+// sequence itself comes from FASTA
+export const locateGenbankRecord = async (
+  apiClient: AxiosInstance,
+  workspace: WorkspaceOptions,
+  assemblyAccession: string,
+  accession: string,
+  signal?: AbortSignal
+): Promise<{ record: GenbankRecord; path: string; downloaded: boolean }> => {
+  const { files, downloaded } = await assemblyFiles(apiClient, workspace, assemblyAccession, 'genbank', signal);
+  for (const file of files) {
+    for await (const record of readGenbankRecords(file)) {
+      if (record.version === accession || record.accession === accession) return { record, path: file, downloaded };
+    }
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Sequence ${accession} has no GenBank record in assembly ${assemblyAccession}`);
+};
@@ -0,0 +1,304 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { GENETIC_CODES } from './genetic-codes.js';
+
+// Sequence interfaces
+export type SequenceType = 'dna' | 'rna' | 'protein';
+
+export interface FastaRecord {
+  id: string;
+  description: string;
+  sequence: string;
+}
+
+export interface Run {
+  // 1-based, inclusive
+  start: number;
+  end: number;
+  length: number;
+}
+
+export interface InvalidCharacter {
+  character: string;
+  count: number;
+  // First few 1-based positions
+  positions: number[];
+}
+
+export interface StopCodon {
+  // 1-based position of the codon's first base, or of the residue in a protein
+  position: number;
+  codon: string;
+}
+
+export interface SequenceReport {
+  index: number;
+  id: string;
+  description: string;
+  length: number;
+  valid: boolean;
+  gc_content?: number;
+  ambiguous_count: number;
+  n_runs: Run[];
+  invalid_characters: InvalidCharacter[];
+  internal_stop_codons: StopCodon[];
+  issues: string[];
+}
+
+export interface SequenceCheckOptions {
+  // Shortest run of N (or X in proteins) that is reported
+  minNRun: number;
+  // Reading frame (1-3) for internal stop codons in nucleotide sequences
+  frame: number;
+}
+
+export interface FastaRegion extends FastaRecord {
+  // Length of the whole record, whatever part of it was read
+  record_length: number;
+}
+
+// IUPAC codes: unambiguous residues, ambiguity codes and gaps
+const ALPHABETS: Record<SequenceType, { residues: string; ambiguous: string; gaps: string }> = {
+  dna: { residues: 'ACGT', ambiguous: 'RYSWKMBDHVN', gaps: '-.' },
+  rna: { residues: 'ACGU', ambiguous: 'RYSWKMBDHVN', gaps: '-.' },
+  protein: { residues: 'ACDEFGHIKLMNPQRSTVWY*', ambiguous: 'BJOUXZ', gaps: '-.' },
+};
+
+const STANDARD_STOP_CODONS = new Set(['TAA', 'TAG', 'TGA']);
+const MAX_REPORTED_POSITIONS = 10;
+
+// Parse FASTA text; input without a header line is treated as one unnamed sequence
+export const parseFasta = (text: string, defaultId = 'sequence_1'): FastaRecord[] => {
+  const records: FastaRecord[] = [];
+  let current: { id: string; description: string; lines: string[] } | undefined;
+
+  const finish = () => {
+    if (current) records.push({ id: current.id, description: current.description, sequence: current.lines.join('') });
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('>')) {
+      finish();
+      const header = trimmed.slice(1).trim();
+      const [id = '', ...rest] = header.split(/\s+/);
+      current = { id, description: rest.join(' '), lines: [] };
+    } else if (trimmed && !trimmed.startsWith(';')) {
+      current ||= { id: defaultId, description: '', lines: [] };
+      current.lines.push(trimmed.replace(/\s+/g, ''));
+    }
+  }
+  finish();
+
+  if (!records.length) {
+    throw new McpError(ErrorCode.InvalidParams, 'No sequences found in the input');
+  }
+  return records;
+};
+
+// Runs of a residue such as N, at least minLength long
+export const findRuns = (sequence: string, residue: string, minLength: number): Run[] => {
+  const runs: Run[] = [];
+  const pattern = new RegExp(`${residue}+`, 'gi');
+  for (const match of sequence.matchAll(pattern)) {
+    if (match[0].length >= minLength) {
+      runs.push({ start: match.index! + 1, end: match.index! + match[0].length, length: match[0].length });
+    }
+  }
+  return runs;
+};
+
+// GC percentage over unambiguous bases; S (G or C) counts as GC and W (A or T) as AT
+export const gcContent = (sequence: string): number | undefined => {
+  let gc = 0;
+  let total = 0;
+  for (const base of sequence.toUpperCase()) {
+    if (base === 'G' || base === 'C' || base === 'S') { gc++; total++; }
+    else if (base === 'A' || base === 'T' || base === 'U' || base === 'W') total++;
+  }
+  return total ? Math.round((gc / total) * 10000) / 100 : undefined;
+};
+
+// Stop codons before the final codon of the frame; a terminal stop is expected in coding sequences
+const internalStops = (sequence: string, type: SequenceType, frame: number): StopCodon[] => {
+  const stops: StopCodon[] = [];
+  if (type === 'protein') {
+    for (let index = 0; index < sequence.length - 1; index++) {
+      if (sequence[index] === '*') stops.push({ position: index + 1, codon: '*' });
+    }
+    return stops;
+  }
+
+  const dna = sequence.toUpperCase().replace(/U/g, 'T');
+  const lastCodon = frame - 1 + Math.floor((dna.length - (frame - 1)) / 3) * 3 - 3;
+  for (let index = frame - 1; index < lastCodon; index += 3) {
+    const codon = dna.slice(index, index + 3);
+    if (STANDARD_STOP_CODONS.has(codon)) {
+      stops.push({ position: index + 1, codon: type === 'rna' ? codon.replace(/T/g, 'U') : codon });
+    }
+  }
+  return stops;
+};
+
+export const checkSequence = (record: FastaRecord, index: number, type: SequenceType, options: SequenceCheckOptions): SequenceReport => {
+  const alphabet = ALPHABETS[type];
+  const sequence = record.sequence.toUpperCase();
+  const invalid = new Map<string, InvalidCharacter>();
+  let ambiguous = 0;
+
+  for (let position = 0; position < sequence.length; position++) {
+    const character = sequence[position];
+    if (alphabet.residues.includes(character) || alphabet.gaps.includes(character)) continue;
+    if (alphabet.ambiguous.includes(character)) {
+      ambiguous++;
+      continue;
+    }
+    const entry = invalid.get(character) || { character, count: 0, positions: [] };
+    entry.count++;
+    if (entry.positions.length < MAX_REPORTED_POSITIONS) entry.positions.push(position + 1);
+    invalid.set(character, entry);
+  }
+
+  const issues: string[] = [];
+  if (!sequence.length) issues.push('Empty sequence');
+  for (const entry of invalid.values()) {
+    issues.push(`Invalid ${type.toUpperCase()} character '${entry.character}' (${entry.count}x, first at ${entry.positions[0]})`);
+  }
+
+  const unknown = type === 'protein' ? 'X' : 'N';
+  const nRuns = findRuns(sequence, unknown, options.minNRun);
+  if (nRuns.length) {
+    const total = nRuns.reduce((sum, run) => sum + run.length, 0);
+    issues.push(`${nRuns.length} run(s) of ${options.minNRun}+ ${unknown} covering ${total} position(s)`);
+  }
+
+  const stops = internalStops(sequence, type, options.frame);
+  if (stops.length) {
+    issues.push(`${stops.length} internal stop codon(s)${type === 'protein' ? '' : ` in frame ${options.frame}`}, first at ${stops[0].position}`);
+  }
+
+  return {
+    index,
+    id: record.id,
+    description: record.description,
+    length: sequence.length,
+    valid: sequence.length > 0 && invalid.size === 0,
+    ...(type !== 'protein' && { gc_content: gcContent(sequence) }),
+    ambiguous_count: ambiguous,
+    n_runs: nRuns,
+    invalid_characters: [...invalid.values()],
+    internal_stop_codons: stops,
+    issues,
+  };
+};
+
+// IDs used by more than one record, with the indexes of those records
+export const duplicateIds = (records: FastaRecord[]): Array<{ id: string; indexes: number[] }> => {
+  const indexes = new Map<string, number[]>();
+  records.forEach((record, index) => indexes.set(record.id, [...(indexes.get(record.id) || []), index]));
+  return [...indexes].filter(([, found]) => found.length > 1).map(([id, found]) => ({ id, indexes: found }));
+};
+
+const COMPLEMENTS: Record<string, string> = {
+  A: 'T', T: 'A', U: 'A', G: 'C', C: 'G', R: 'Y', Y: 'R', S: 'S', W: 'W',
+  K: 'M', M: 'K', B: 'V', V: 'B', D: 'H', H: 'D', N: 'N',
+};
+
+// Reverse complement, keeping IUPAC ambiguity codes, case and gaps; RNA input stays RNA
+export const reverseComplement = (sequence: string): string => {
+  const rna = /U/i.test(sequence) && !/T/i.test(sequence);
+  let result = '';
+  for (let index = sequence.length - 1; index >= 0; index--) {
+    const base = sequence[index];
+    const upper = base.toUpperCase();
+    let complement = COMPLEMENTS[upper] ?? base;
+    if (rna && complement === 'T') complement = 'U';
+    result += base === upper ? complement : complement.toLowerCase();
+  }
+  return result;
+};
+
+const IUPAC_BASES: Record<string, string> = {
+  A: 'A', C: 'C', G: 'G', T: 'T', U: 'T', R: 'AG', Y: 'CT', S: 'CG', W: 'AT', K: 'GT', M: 'AC',
+  B: 'CGT', D: 'AGT', H: 'ACT', V: 'ACG', N: 'ACGT',
+};
+const CODON_ORDER = 'TCAG';
+
+const codonIndexes = (codon: string): number[] => {
+  const options = [...codon].map((base) => IUPAC_BASES[base]);
+  if (options.some((bases) => bases === undefined)) return [];
+  const indexes: number[] = [];
+  for (const first of options[0]) {
+    for (const second of options[1]) {
+      for (const third of options[2]) {
+        indexes.push(CODON_ORDER.indexOf(first) * 16 + CODON_ORDER.indexOf(second) * 4 + CODON_ORDER.indexOf(third));
+      }
+    }
+  }
+  return indexes;
+};
+
+// Translate with an NCBI genetic code. Ambiguous codons translate when every reading agrees, otherwise X.
+// As a CDS, an alternative start codon is read as M and the terminal stop is dropped, including codons that are
+// stops only at the end of a gene.
+export const translate = (sequence: string, geneticCode = 1, options: { cds?: boolean } = {}): string => {
+  const table = GENETIC_CODES[geneticCode];
+  if (!table) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown genetic code ${geneticCode}`);
+  }
+
+  const bases = sequence.toUpperCase();
+  let protein = '';
+  for (let index = 0; index + 3 <= bases.length; index += 3) {
+    const indexes = codonIndexes(bases.slice(index, index + 3));
+    const residues = new Set(indexes.map((codon) => table.amino_acids[codon]));
+    const isStart = index === 0 && options.cds && indexes.length > 0 && indexes.every((codon) => table.starts[codon] === 'M');
+    const isFinalStop = index + 6 > bases.length && options.cds && indexes.length > 0 && indexes.every((codon) => table.starts[codon] === '*');
+    protein += isStart ? 'M' : isFinalStop ? '*' : residues.size === 1 ? [...residues][0] : 'X';
+  }
+  return options.cds ? protein.replace(/\*$/, '') : protein;
+};
+
+// Wrap a sequence into FASTA lines; a width of 0 keeps it on one line
+export const formatFasta = (header: string, sequence: string, width = 80): string => {
+  const lines = [`>${header}`];
+  if (width > 0) {
+    for (let index = 0; index < sequence.length; index += width) lines.push(sequence.slice(index, index + width));
+  } else if (sequence) {
+    lines.push(sequence);
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+// Stream a FASTA file and return one record, keeping only the 1-based inclusive region when given,
+// so that single contigs can be cut out of whole-genome files without loading them
+export const readFastaRecord = async (file: string, id: string, start = 1, end = Infinity): Promise<FastaRegion | undefined> => {
+  const lines = createInterface({ input: createReadStream(file), crlfDelay: Infinity });
+  let found: FastaRegion | undefined;
+  const chunks: string[] = [];
+
+  try {
+    for await (const line of lines) {
+      if (line.startsWith('>')) {
+        if (found) break;
+        const [recordId = '', ...rest] = line.slice(1).trim().split(/\s+/);
+        if (recordId === id) found = { id: recordId, description: rest.join(' '), sequence: '', record_length: 0 };
+        continue;
+      }
+      if (!found) continue;
+
+      const bases = line.trim();
+      const lineStart = found.record_length + 1;
+      found.record_length += bases.length;
+      if (found.record_length >= start && lineStart <= end) {
+        chunks.push(bases.slice(Math.max(start - lineStart, 0), Math.min(end - lineStart + 1, bases.length)));
+      }
+    }
+  } finally {
+    lines.close();
+  }
+
+  if (found) found.sequence = chunks.join('');
+  return found;
+};
@@ -0,0 +1,386 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import axios, { AxiosInstance } from 'axios';
+import { blastOptionsFromEnv } from './blast.js';
+import { attachResponseCache, cacheOptionsFromEnv, ResponseCache } from './cache.js';
+import { attachCassette, Cassette, cassetteOptionsFromEnv } from './cassette.js';
+import { attachRetry, retryOptionsFromEnv, toMcpError, toolErrorResult } from './errors.js';
+import { HEALTH_PATH, HttpServerHandle, SSE_PATH, startHttpServer, TransportOptions, transportOptionsFromArgs } from './http-server.js';
+import { JobManager, jobOptionsFromEnv } from './jobs.js';
+import { workspaceOptionsFromEnv } from './packages.js';
+import { attachRateLimiter, RateLimiter, rateLimiterOptionsFromEnv } from './rate-limiter.js';
+import { ToolContext, ToolModule, ToolRegistry, ToolResult } from './registry.js';
+import { shapeToolResult, shapingOptionsFromArgs } from './shaping.js';
+import { BUILTIN_TOOLS } from './tools/index.js';
+import { assertValidArguments } from './validation.js';
+
+export class NCBIDatasetsServer {
+  private servers = new Set<Server>();
+  private apiClient: AxiosInstance;
+  private baseUrl: string;
+  private apiKey?: string;
+  private cache: ResponseCache;
+  private cassette: Cassette;
+  private rateLimiter: RateLimiter;
+  private jobs: JobManager;
+  private registry: ToolRegistry;
+  private toolContext: ToolContext;
+
+  constructor() {
+    // Configuration from environment variables
+    this.baseUrl = process.env.NCBI_BASE_URL || 'https://api.ncbi.nlm.nih.gov/datasets/v2alpha';
+    this.apiKey = process.env.NCBI_API_KEY;
+    const timeout = parseInt(process.env.NCBI_TIMEOUT || '30000');
+
+    // Initialize NCBI Datasets API client
+    this.apiClient = axios.create({
+      baseURL: this.baseUrl,
+      timeout: timeout,
+      headers: {
+        'User-Agent': 'NCBI-Datasets-MCP-Server/1.0.0',
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { 'api-key': this.apiKey }),
+      },
+    });
+
+    // Record NCBI traffic to a cassette, or replay one offline, directly on the network adapter
+    this.cassette = new Cassette(cassetteOptionsFromEnv(this.apiKey));
+    attachCassette(this.apiClient, this.cassette);
+
+    // Throttle network requests to NCBI's per-second limits
+    this.rateLimiter = new RateLimiter(rateLimiterOptionsFromEnv(this.apiKey));
+    attachRateLimiter(this.apiClient, this.rateLimiter);
+
+    // Retry transient failures with jittered exponential backoff; each attempt is rate limited
+    attachRetry(this.apiClient, retryOptionsFromEnv());
+
+    // Response cache in front of the API client, so cache hits skip the rate limiter
+    this.cache = new ResponseCache(cacheOptionsFromEnv());
+    attachResponseCache(this.apiClient, this.cache);
+
+    // Long-running tools can run as background jobs that outlive the tool call
+    this.jobs = new JobManager(jobOptionsFromEnv());
+
+    // Tools share the configured client and server state through a context object
+    this.toolContext = {
+      apiClient: this.apiClient,
+      cache: this.cache,
+      rateLimiter: this.rateLimiter,
+      workspace: workspaceOptionsFromEnv(),
+      blast: blastOptionsFromEnv(),
+      jobs: this.jobs,
+      apiKey: this.apiKey,
+    };
+    this.registry = new ToolRegistry();
+    BUILTIN_TOOLS.forEach((tool) => this.registry.register(tool));
+
+  }
+
+  // One MCP server per connection; all of them share the API client, cache, rate limiter and tools
+  private createServer(): Server {
+    const server = new Server(
+      {
+        name: 'ncbi-datasets-server',
+        version: '1.0.0',
+        configSchema: null, // 显式指定，不需要配置也要写
+      },
+      {
+        capabilities: {
+          resources: {},
+          tools: {},
+        },
+      }
+    );
+
+    this.setupResourceHandlers(server);
+    this.setupToolHandlers(server);
+
+    // Error handling
+    server.onerror = (error: any) => console.error('[MCP Error]', error);
+    return server;
+  }
+
+  private setupResourceHandlers(server: Server) {
+    // List available resource templates
+    server.setRequestHandler(
+      ListResourceTemplatesRequestSchema,
+      async () => ({
+        resourceTemplates: [
+          {
+            uriTemplate: 'ncbi://genome/{accession}',
+            name: 'NCBI genome assembly information',
+            mimeType: 'application/json',
+            description: 'Complete genome assembly information including statistics and annotation',
+          },
+          {
+            uriTemplate: 'ncbi://gene/{gene_id}',
+            name: 'NCBI gene information',
+            mimeType: 'application/json',
+            description: 'Gene information including genomic locations and functional annotations',
+          },
+          {
+            uriTemplate: 'ncbi://taxonomy/{tax_id}',
+            name: 'NCBI taxonomic information',
+            mimeType: 'application/json',
+            description: 'Taxonomic classification and lineage information',
+          },
+          {
+            uriTemplate: 'ncbi://assembly/{assembly_accession}',
+            name: 'NCBI assembly metadata',
+            mimeType: 'application/json',
+            description: 'Assembly metadata, statistics, and quality metrics',
+          },
+          {
+            uriTemplate: 'ncbi://search/{data_type}/{query}',
+            name: 'NCBI search results',
+            mimeType: 'application/json',
+            description: 'Search results for the specified data type and query',
+          },
+        ],
+      })
+    );
+
+    // Handle resource requests
+    server.setRequestHandler(
+      ReadResourceRequestSchema,
+      async (request: any) => {
+        const uri = request.params.uri;
+
+        // Handle genome requests
+        const genomeMatch = uri.match(/^ncbi:\/\/genome\/(.+)$/);
+        if (genomeMatch) {
+          const accession = genomeMatch[1];
+          try {
+            const response = await this.apiClient.get(`/genome/accession/${accession}`);
+            return {
+              contents: [
+                {
+                  uri: request.params.uri,
+                  mimeType: 'application/json',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          } catch (error) {
+            throw toMcpError(error, `Failed to fetch genome ${accession}`);
+          }
+        }
+
+        // Handle gene requests
+        const geneMatch = uri.match(/^ncbi:\/\/gene\/(.+)$/);
+        if (geneMatch) {
+          const geneId = geneMatch[1];
+          try {
+            const response = await this.apiClient.get(`/gene/id/${geneId}`);
+            return {
+              contents: [
+                {
+                  uri: request.params.uri,
+                  mimeType: 'application/json',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          } catch (error) {
+            throw toMcpError(error, `Failed to fetch gene ${geneId}`);
+          }
+        }
+
+        // Handle taxonomy requests
+        const taxonomyMatch = uri.match(/^ncbi:\/\/taxonomy\/(.+)$/);
+        if (taxonomyMatch) {
+          const taxId = taxonomyMatch[1];
+          try {
+            const response = await this.apiClient.get(`/taxonomy/taxon/${taxId}`);
+            return {
+              contents: [
+                {
+                  uri: request.params.uri,
+                  mimeType: 'application/json',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          } catch (error) {
+            throw toMcpError(error, `Failed to fetch taxonomy ${taxId}`);
+          }
+        }
+
+        // Handle assembly requests
+        const assemblyMatch = uri.match(/^ncbi:\/\/assembly\/(.+)$/);
+        if (assemblyMatch) {
+          const assemblyAccession = assemblyMatch[1];
+          try {
+            const response = await this.apiClient.get(`/assembly/accession/${assemblyAccession}`);
+            return {
+              contents: [
+                {
+                  uri: request.params.uri,
+                  mimeType: 'application/json',
+                  text: JSON.stringify(response.data, null, 2),
+                },
+              ],
+            };
+          } catch (error) {
+            throw toMcpError(error, `Failed to fetch assembly ${assemblyAccession}`);
+          }
+        }
+
+        // Handle search requests
+        const searchMatch = uri.match(/^ncbi:\/\/search\/([^\/]+)\/(.+)$/);
+        if (searchMatch) {
+          const dataType = searchMatch[1];
+          const query = decodeURIComponent(searchMatch[2]);
+          try {
+            const response = await this.apiClient.get(`/${dataType}/search`, {
+              params: { q: query, limit: 50 }
+            });
+            return {
+              contents: [
+                {
+                  uri: request.params.uri,
+                  mimeType: 'application/json',
+                  text: JSON.stringify({ search_results: response.data, query, data_type: dataType }, null, 2),
+                },
+              ],
+            };
+          } catch (error) {
+            throw toMcpError(error, `Failed to search ${dataType} for ${query}`);
+          }
+        }
+
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Invalid URI format: ${uri}`
+        );
+      }
+    );
+  }
+
+  private setupToolHandlers(server: Server) {
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.registry.definitions(),
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request: any, extra) => {
+      const { name, arguments: args } = request.params;
+
+      try {
+        const tool = this.registry.get(name);
+        assertValidArguments(tool, args);
+
+        // Tools offering background execution return a job id straight away
+        if (args?.background === true && tool.inputSchema.properties.background) {
+          const job = this.jobs.start(name, (signal, reportProgress) =>
+            this.runTool(tool, args, { ...this.toolContext, signal, reportProgress }));
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  ...job,
+                  next_step: `Poll get_job_status with job_id "${job.job_id}", then call get_job_result`,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        return await this.runTool(tool, args, this.callContext(server, extra.signal, request.params._meta?.progressToken));
+      } catch (error) {
+        return toolErrorResult(name, error);
+      }
+    });
+  }
+
+  private async runTool(tool: ToolModule, args: any, context: ToolContext): Promise<ToolResult> {
+    if (tool.shaped === false) {
+      return tool.handler(args ?? {}, context);
+    }
+    const shaping = shapingOptionsFromArgs(args, tool.summaryKind);
+    return shapeToolResult(await tool.handler(args ?? {}, context), shaping);
+  }
+
+  // The shared tool context, plus the request's abort signal and progress reporting to the calling
+  // client when it sent a progress token
+  private callContext(server: Server, signal: AbortSignal, progressToken?: string | number): ToolContext {
+    return {
+      ...this.toolContext,
+      signal,
+      ...(progressToken !== undefined && {
+        reportProgress: (progress: number, total?: number) => {
+          server.notification({ method: 'notifications/progress', params: { progressToken, progress, total } })
+            .catch((error) => console.error('[MCP Error] Failed to send progress notification', error));
+        },
+      }),
+    };
+  }
+
+  // Internal tools can be added as plugins without forking the server
+  async loadPlugins() {
+    const pluginDir = process.env.NCBI_PLUGIN_DIR;
+    if (pluginDir) {
+      const loaded = await this.registry.loadPlugins(pluginDir);
+      console.error(`Loaded ${loaded.length} plugin tool(s) from ${pluginDir}: ${loaded.join(', ')}`);
+    }
+  }
+
+  async connect(transport: Transport) {
+    const server = this.createServer();
+    this.servers.add(server);
+    server.onclose = () => this.servers.delete(server);
+    await server.connect(transport);
+  }
+
+  // Number of connected MCP clients
+  get connectionCount(): number {
+    return this.servers.size;
+  }
+
+  async close() {
+    this.jobs.cancelAll();
+    await Promise.all([...this.servers].map((server) => server.close()));
+    this.servers.clear();
+  }
+
+  async run(options: TransportOptions = transportOptionsFromArgs(process.argv.slice(2))) {
+    await this.loadPlugins();
+
+    let httpServer: HttpServerHandle | undefined;
+    if (options.transport === 'sse') {
+      httpServer = await startHttpServer(this, options);
+      console.error(`NCBI Datasets MCP server listening on ${httpServer.url} (SSE at ${SSE_PATH}, health at ${HEALTH_PATH})`);
+    } else {
+      const transport = new StdioServerTransport();
+      await this.connect(transport);
+      console.error('NCBI Datasets MCP server running on stdio');
+    }
+    if (this.cassette.mode) {
+      console.error(`Cassette ${this.cassette.mode === 'record' ? 'recording to' : 'replaying from'} ${this.cassette.file}`);
+    }
+
+    // Graceful shutdown: stop accepting connections, close open sessions, then exit
+    let shuttingDown = false;
+    const shutdown = async (signal: string) => {
+      if (shuttingDown) return;
+      shuttingDown = true;
+      console.error(`Received ${signal}, shutting down`);
+      await httpServer?.close();
+      await this.close();
+      process.exit(0);
+    };
+    process.on('SIGINT', () => shutdown('SIGINT'));
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+  }
+}
@@ -0,0 +1,236 @@
+import { NCBIAssemblyInfo, NCBIGenomeInfo } from './types.js';
+import { JSONSchemaProperty } from './validation.js';
+
+// Response shaping interfaces
+export type ResponseView = 'summary' | 'full';
+export type SummaryKind = 'genome' | 'assembly';
+
+export interface ShapingOptions {
+  fields?: string[];
+  view?: ResponseView;
+  maxChars: number;
+  summaryKind?: SummaryKind;
+}
+
+export interface TrimmedArray {
+  path: string;
+  original_length: number;
+  returned_length: number;
+}
+
+export const DEFAULT_MAX_RESPONSE_CHARS = parseInt(process.env.NCBI_MAX_RESPONSE_CHARS || '100000');
+const MIN_RESPONSE_CHARS = 1000;
+
+export const shapingSchemaProperties: Record<string, JSONSchemaProperty> = {
+  fields: { type: 'array', items: { type: 'string', minLength: 1 }, description: 'Only return these dot-separated paths (e.g., reports.accession, reports.assembly_stats.contig_n50)' },
+  view: { type: 'string', enum: ['summary', 'full'], description: 'summary returns compact records; full returns the raw NCBI response (default: full)' },
+  max_response_chars: { type: 'number', description: `Size budget for the response; large arrays are trimmed to fit (default: ${DEFAULT_MAX_RESPONSE_CHARS})`, minimum: MIN_RESPONSE_CHARS },
+};
+
+// Arguments have already been validated against shapingSchemaProperties
+export const shapingOptionsFromArgs = (args: any, summaryKind?: SummaryKind): ShapingOptions => {
+  return {
+    fields: args?.fields,
+    view: args?.view,
+    maxChars: args?.max_response_chars ?? DEFAULT_MAX_RESPONSE_CHARS,
+    summaryKind,
+  };
+};
+
+const toNumber = (value: unknown): number => (value === undefined || value === null || value === '' ? 0 : Number(value));
+
+// Compact genome record from a Datasets v2 dataset report
+export const summarizeGenomeReport = (report: any): NCBIGenomeInfo => {
+  const annotation = report.annotation_info;
+  return {
+    accession: report.accession ?? report.current_accession,
+    organism: {
+      tax_id: report.organism?.tax_id,
+      organism_name: report.organism?.organism_name,
+      ...(report.organism?.common_name && { common_name: report.organism.common_name }),
+    },
+    assembly_info: {
+      assembly_name: report.assembly_info?.assembly_name,
+      assembly_level: report.assembly_info?.assembly_level,
+      assembly_type: report.assembly_info?.assembly_type,
+      submission_date: report.assembly_info?.submission_date ?? report.assembly_info?.release_date,
+      submitter: report.assembly_info?.submitter,
+    },
+    assembly_stats: {
+      total_sequence_length: toNumber(report.assembly_stats?.total_sequence_length),
+      total_ungapped_length: toNumber(report.assembly_stats?.total_ungapped_length),
+      number_of_contigs: toNumber(report.assembly_stats?.number_of_contigs),
+      number_of_scaffolds: toNumber(report.assembly_stats?.number_of_scaffolds),
+      scaffold_n50: toNumber(report.assembly_stats?.scaffold_n50),
+      contig_n50: toNumber(report.assembly_stats?.contig_n50),
+    },
+    ...(annotation && {
+      annotation_info: {
+        name: annotation.name,
+        source: annotation.source ?? annotation.provider,
+        release_date: annotation.release_date,
+        stats: {
+          gene_counts: {
+            total: toNumber(annotation.stats?.gene_counts?.total),
+            protein_coding: toNumber(annotation.stats?.gene_counts?.protein_coding),
+            non_coding: toNumber(annotation.stats?.gene_counts?.non_coding),
+          },
+        },
+      },
+    }),
+  };
+};
+
+// Compact assembly record from a Datasets v2 dataset report or assembly record
+export const summarizeAssemblyReport = (report: any): NCBIAssemblyInfo => {
+  const info = report.assembly_info ?? report;
+  const stats = report.assembly_stats ?? {};
+  const checkm = report.checkm_info;
+  return {
+    assembly_accession: report.assembly_accession ?? report.accession ?? report.current_accession,
+    assembly_name: info.assembly_name,
+    organism: {
+      tax_id: report.organism?.tax_id,
+      organism_name: report.organism?.organism_name,
+      ...(report.organism?.common_name && { common_name: report.organism.common_name }),
+    },
+    assembly_level: info.assembly_level,
+    assembly_type: info.assembly_type,
+    submission_date: info.submission_date ?? info.release_date,
+    submitter: info.submitter,
+    assembly_stats: {
+      total_sequence_length: toNumber(stats.total_sequence_length),
+      total_ungapped_length: toNumber(stats.total_ungapped_length),
+      number_of_contigs: toNumber(stats.number_of_contigs),
+      number_of_scaffolds: toNumber(stats.number_of_scaffolds),
+      scaffold_n50: toNumber(stats.scaffold_n50),
+      contig_n50: toNumber(stats.contig_n50),
+      gc_percent: toNumber(stats.gc_percent),
+    },
+    ...(checkm && {
+      checkm_info: {
+        completeness: toNumber(checkm.completeness),
+        contamination: toNumber(checkm.contamination),
+        strain_heterogeneity: toNumber(checkm.strain_heterogeneity),
+      },
+    }),
+  };
+};
+
+const isAssemblyReport = (value: any): boolean =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) &&
+  (value.assembly_info !== undefined || value.assembly_stats !== undefined) &&
+  (value.accession !== undefined || value.assembly_accession !== undefined || value.current_accession !== undefined);
+
+// Replace every assembly/genome report found in the response with its compact form
+export const summarize = (value: any, kind: SummaryKind): any => {
+  if (Array.isArray(value)) return value.map((item) => summarize(item, kind));
+  if (isAssemblyReport(value)) return kind === 'genome' ? summarizeGenomeReport(value) : summarizeAssemblyReport(value);
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, summarize(item, kind)]));
+  }
+  return value;
+};
+
+const pick = (value: any, path: string[]): any => {
+  if (path.length === 0) return value;
+  // Arrays are traversed transparently; null keeps element positions aligned for merging
+  if (Array.isArray(value)) return value.map((item) => pick(item, path) ?? null);
+  if (value === null || typeof value !== 'object' || !(path[0] in value)) return undefined;
+  const picked = pick(value[path[0]], path.slice(1));
+  return picked === undefined ? undefined : { [path[0]]: picked };
+};
+
+const merge = (target: any, source: any): any => {
+  if (target === undefined || target === null) return source;
+  if (source === undefined || source === null) return target;
+  if (Array.isArray(target) && Array.isArray(source)) {
+    return target.map((item, index) => merge(item, source[index]));
+  }
+  if (typeof target === 'object' && typeof source === 'object') {
+    const merged = { ...target };
+    for (const [key, item] of Object.entries(source)) merged[key] = merge(merged[key], item);
+    return merged;
+  }
+  return source;
+};
+
+// Keep only the requested dot-paths
+export const projectFields = (value: any, fields: string[]): any =>
+  fields.reduce((projected, field) => merge(projected, pick(value, field.split('.'))), undefined as any) ?? {};
+
+const collectArrays = (value: any, path: string, found: Array<{ path: string; array: any[] }>) => {
+  if (Array.isArray(value)) {
+    found.push({ path, array: value });
+    value.forEach((item, index) => collectArrays(item, `${path}[${index}]`, found));
+  } else if (value !== null && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) collectArrays(item, path ? `${path}.${key}` : key, found);
+  }
+};
+
+// Halve the largest array until the serialized response fits the budget
+export const trimToBudget = (value: any, maxChars: number): TrimmedArray[] => {
+  const trimmed = new Map<any[], TrimmedArray>();
+
+  for (let iteration = 0; iteration < 200 && JSON.stringify(value).length > maxChars; iteration++) {
+    const arrays: Array<{ path: string; array: any[] }> = [];
+    collectArrays(value, '', arrays);
+
+    let largest: { path: string; array: any[]; size: number } | undefined;
+    for (const candidate of arrays) {
+      if (candidate.array.length <= 1) continue;
+      const size = JSON.stringify(candidate.array).length;
+      if (!largest || size > largest.size) largest = { ...candidate, size };
+    }
+    if (!largest) break;
+
+    const note = trimmed.get(largest.array) ?? {
+      path: largest.path || '(root)',
+      original_length: largest.array.length,
+      returned_length: largest.array.length,
+    };
+    largest.array.length = Math.ceil(largest.array.length / 2);
+    note.returned_length = largest.array.length;
+    trimmed.set(largest.array, note);
+  }
+
+  return [...trimmed.values()];
+};
+
+// Apply summary view, projection and size budget to a JSON payload
+export const shapeData = (data: any, options: ShapingOptions): any => {
+  let shaped = data;
+  if (options.view === 'summary' && options.summaryKind) shaped = summarize(shaped, options.summaryKind);
+  if (options.fields && options.fields.length > 0) shaped = projectFields(shaped, options.fields);
+
+  const trimmed = trimToBudget(shaped, options.maxChars);
+  if (trimmed.length === 0) return shaped;
+
+  const note = {
+    trimmed_arrays: trimmed,
+    note: `Response exceeded ${options.maxChars} characters; arrays were trimmed. Use fields, view: "summary", pagination or a larger max_response_chars to see more.`,
+  };
+  return shaped !== null && typeof shaped === 'object' && !Array.isArray(shaped)
+    ? { ...shaped, _response_shaping: note }
+    : { data: shaped, _response_shaping: note };
+};
+
+// Shape the JSON text blocks of a tool result; non-JSON text is passed through untouched
+export const shapeToolResult = <R extends { content: Array<{ type: string; text?: string }> }>(result: R, options: ShapingOptions): R => {
+  const withinBudget = result.content.every((block) => (block.text?.length ?? 0) <= options.maxChars);
+  if (!options.view && !options.fields && withinBudget) return result;
+
+  return {
+    ...result,
+    content: result.content.map((block) => {
+      if (block.type !== 'text' || block.text === undefined) return block;
+      let data: unknown;
+      try {
+        data = JSON.parse(block.text);
+      } catch {
+        return block;
+      }
+      return { ...block, text: JSON.stringify(shapeData(data, options), null, 2) };
+    }),
+  };
+};
@@ -0,0 +1,134 @@
+import { TaxonomyNode } from './taxonomy.js';
+
+// Taxonomy tree interfaces
+export type TreeRank = 'strain' | 'species' | 'genus' | 'family' | 'order' | 'class' | 'phylum' | 'kingdom' | 'superkingdom';
+
+export interface TreeTaxon {
+  tax_id: number;
+  name?: string;
+  rank?: string;
+}
+
+export interface TaxonomyTreeNode extends TreeTaxon {
+  // Taxonomic levels between this node and its parent in the full lineage
+  branch_length?: number;
+  // Requested taxa this node stands for, when it is one of them or their ancestor at the tree rank
+  input_tax_ids?: number[];
+  children?: TaxonomyTreeNode[];
+}
+
+// A requested taxon placed in the tree: itself, or its ancestor at the tree rank
+export interface TreeLeaf extends TreeTaxon {
+  // Tax IDs from the root down to the parent
+  lineage: number[];
+  input_tax_ids: number[];
+}
+
+export const TREE_RANKS: TreeRank[] = ['strain', 'species', 'genus', 'family', 'order', 'class', 'phylum', 'kingdom', 'superkingdom'];
+
+// The taxon to show for a requested one: its ancestor at the rank, or itself when it has none (e.g. Mammalia in a
+// genus tree) or the rank is strain
+const collapseToRank = (node: TaxonomyNode, rank: TreeRank): Omit<TreeLeaf, 'input_tax_ids'> => {
+  const ancestor = rank === 'strain' ? undefined : node.classification[rank];
+  const index = ancestor ? node.lineage.indexOf(ancestor.id) : -1;
+  if (!ancestor || ancestor.id === node.tax_id || index < 0) {
+    return { tax_id: node.tax_id, name: node.organism_name, rank: node.rank?.toLowerCase(), lineage: node.lineage };
+  }
+  return { tax_id: ancestor.id, name: ancestor.name, rank, lineage: node.lineage.slice(0, index) };
+};
+
+// The leaves of the tree, one per distinct taxon after collapsing, in request order
+export const treeLeaves = (nodes: TaxonomyNode[], rank: TreeRank): TreeLeaf[] => {
+  const leaves = new Map<number, TreeLeaf>();
+  for (const node of nodes) {
+    const leaf = collapseToRank(node, rank);
+    const existing = leaves.get(leaf.tax_id);
+    if (existing) existing.input_tax_ids.push(node.tax_id);
+    else leaves.set(leaf.tax_id, { ...leaf, input_tax_ids: [node.tax_id] });
+  }
+  return [...leaves.values()];
+};
+
+// Children of every taxon on the leaves' lineages, in the order the leaves reach them
+const childMap = (leaves: TreeLeaf[]): Map<number, number[]> => {
+  const children = new Map<number, number[]>();
+  for (const leaf of leaves) {
+    const path = [...leaf.lineage, leaf.tax_id];
+    path.forEach((taxId, depth) => {
+      if (!children.has(taxId)) children.set(taxId, []);
+      const next = path[depth + 1];
+      if (next !== undefined && !children.get(taxId)!.includes(next)) children.get(taxId)!.push(next);
+    });
+  }
+  return children;
+};
+
+// Tax IDs of the branching points of the leaves' lineages, whose names and ranks are not known from the leaves
+export const branchTaxIds = (leaves: TreeLeaf[]): number[] => {
+  const children = childMap(leaves);
+  const leafIds = new Set(leaves.map((leaf) => leaf.tax_id));
+  return [...children.entries()].filter(([taxId, below]) => below.length > 1 && !leafIds.has(taxId)).map(([taxId]) => taxId);
+};
+
+// The tree of the leaves' lineages with single-child taxa removed, so that each internal node is the lowest
+// common ancestor of its leaves; the root is the lowest common ancestor of all of them
+export const buildTaxonomyTree = (leaves: TreeLeaf[], taxa: Map<number, TreeTaxon>): TaxonomyTreeNode => {
+  const children = childMap(leaves);
+  const leafById = new Map(leaves.map((leaf) => [leaf.tax_id, leaf]));
+  const depthOf = new Map<number, number>();
+  for (const leaf of leaves) [...leaf.lineage, leaf.tax_id].forEach((taxId, depth) => depthOf.set(taxId, depth));
+
+  const isKept = (taxId: number) => leafById.has(taxId) || children.get(taxId)!.length !== 1;
+  const descend = (taxId: number): number => {
+    while (!isKept(taxId)) taxId = children.get(taxId)![0];
+    return taxId;
+  };
+
+  const build = (taxId: number, parentDepth?: number): TaxonomyTreeNode => {
+    const leaf = leafById.get(taxId);
+    const taxon = leaf ?? taxa.get(taxId);
+    const below = children.get(taxId)!.map((child) => build(descend(child), depthOf.get(taxId)));
+    return {
+      tax_id: taxId,
+      ...(taxon?.name && { name: taxon.name }),
+      ...(taxon?.rank && { rank: taxon.rank.toLowerCase() }),
+      ...(parentDepth !== undefined && { branch_length: depthOf.get(taxId)! - parentDepth }),
+      ...(leaf && { input_tax_ids: leaf.input_tax_ids }),
+      ...(below.length && { children: below }),
+    };
+  };
+
+  const [first] = leaves;
+  return build(descend(first.lineage[0] ?? first.tax_id));
+};
+
+const newickLabel = (node: TaxonomyTreeNode): string => {
+  const label = node.name ?? String(node.tax_id);
+  return /^[A-Za-z0-9_.-]+$/.test(label) ? label : `'${label.replace(/'/g, "''")}'`;
+};
+
+// Newick with quoted taxon names, and taxonomic levels as branch lengths when asked
+export const toNewick = (root: TaxonomyTreeNode, distances: boolean): string => {
+  const write = (node: TaxonomyTreeNode): string => {
+    const subtree = node.children ? `(${node.children.map(write).join(',')})` : '';
+    const length = distances && node.branch_length !== undefined ? `:${node.branch_length}` : '';
+    return `${subtree}${newickLabel(node)}${length}`;
+  };
+  return `${write(root)};`;
+};
+
+// Cladogram drawn with box characters, one taxon per line with its rank
+export const toAscii = (root: TaxonomyTreeNode, distances: boolean): string => {
+  const label = (node: TaxonomyTreeNode) =>
+    `${node.name ?? node.tax_id}${node.rank ? ` (${node.rank})` : ''}${distances && node.branch_length !== undefined ? ` [${node.branch_length}]` : ''}`;
+  const lines = [label(root)];
+  const draw = (node: TaxonomyTreeNode, prefix: string) => {
+    node.children?.forEach((child, index) => {
+      const last = index === node.children!.length - 1;
+      lines.push(`${prefix}${last ? '└── ' : '├── '}${label(child)}`);
+      draw(child, `${prefix}${last ? '    ' : '│   '}`);
+    });
+  };
+  draw(root, '');
+  return lines.join('\n');
+};
@@ -0,0 +1,89 @@
+import { AxiosInstance } from 'axios';
+
+// Taxonomy interfaces
+export interface TaxonomyClassification {
+  name: string;
+  id: number;
+}
+
+export interface TaxonomyNode {
+  tax_id: number;
+  organism_name: string;
+  common_name?: string;
+  rank?: string;
+  // Tax IDs from the root down to the parent
+  lineage: number[];
+  // Taxa at the standard ranks (superkingdom, kingdom, phylum, class, order, family, genus, species)
+  classification: Record<string, TaxonomyClassification>;
+}
+
+export interface TaxonomyLookup {
+  // Nodes by the query (tax ID or name) that found them
+  nodes: Map<string, TaxonomyNode>;
+  unresolved: string[];
+}
+
+// Ranks of a node's classification, from the broadest down
+export const STANDARD_RANKS = ['superkingdom', 'kingdom', 'phylum', 'class', 'order', 'family', 'genus', 'species'];
+
+// Taxa per /taxonomy/taxon request, keeping URLs well under server limits
+const MAX_TAXA_PER_REQUEST = 100;
+
+const normalizeQuery = (query: string | number): string => String(query).trim();
+
+// Does the node match a query, when the response does not echo it back?
+const matchesQuery = (node: TaxonomyNode, query: string): boolean =>
+  String(node.tax_id) === query ||
+  [node.organism_name, node.common_name].some((name) => name?.toLowerCase() === query.toLowerCase());
+
+const toNode = (taxonomy: any): TaxonomyNode => ({
+  tax_id: Number(taxonomy.tax_id),
+  organism_name: taxonomy.organism_name,
+  ...(taxonomy.common_name && { common_name: taxonomy.common_name }),
+  ...(taxonomy.rank && { rank: taxonomy.rank }),
+  lineage: (taxonomy.lineage || []).map(Number),
+  classification: taxonomy.classification || {},
+});
+
+// Taxonomy nodes for tax IDs or names, through batched /taxonomy/taxon requests; queries NCBI does not know
+// are returned as unresolved rather than failing the lookup
+export const fetchTaxonomyNodes = async (apiClient: AxiosInstance, queries: Array<string | number>): Promise<TaxonomyLookup> => {
+  const pending = [...new Set(queries.map(normalizeQuery).filter(Boolean))];
+  const nodes = new Map<string, TaxonomyNode>();
+
+  for (let offset = 0; offset < pending.length; offset += MAX_TAXA_PER_REQUEST) {
+    const batch = pending.slice(offset, offset + MAX_TAXA_PER_REQUEST);
+    const response = await apiClient.get(`/taxonomy/taxon/${batch.map(encodeURIComponent).join(',')}`);
+    for (const entry of response.data.taxonomy_nodes || []) {
+      if (!entry.taxonomy) continue;
+      const node = toNode(entry.taxonomy);
+      const echoed: string[] = (entry.query || []).map(normalizeQuery);
+      for (const query of batch) {
+        if (echoed.includes(query) || (!echoed.length && matchesQuery(node, query))) nodes.set(query, node);
+      }
+    }
+  }
+
+  return { nodes, unresolved: pending.filter((query) => !nodes.has(query)) };
+};
+
+// Is the taxon the ancestor taxon itself or one of its descendants?
+export const isWithinTaxon = (node: TaxonomyNode, ancestorTaxId: number): boolean =>
+  node.tax_id === ancestorTaxId || node.lineage.includes(ancestorTaxId);
+
+// Tax IDs from the root down to the node itself
+const pathOf = (node: TaxonomyNode): number[] => [...node.lineage, node.tax_id];
+
+// The deepest taxon on the paths of all nodes; one of them when it is the ancestor of the others
+export const lowestCommonAncestor = (nodes: TaxonomyNode[]): number => {
+  const paths = nodes.map(pathOf);
+  let depth = 0;
+  while (paths.every((path) => depth < path.length && path[depth] === paths[0][depth])) depth++;
+  return paths[0][depth - 1];
+};
+
+// Edges between two taxa in the taxonomy tree, up to their lowest common ancestor and down again
+export const pathDistance = (first: TaxonomyNode, second: TaxonomyNode): number => {
+  const ancestorDepth = pathOf(first).indexOf(lowestCommonAncestor([first, second]));
+  return first.lineage.length - ancestorDepth + second.lineage.length - ancestorDepth;
+};
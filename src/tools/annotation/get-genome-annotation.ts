@@ -0,0 +1,133 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { AnnotationFeature, AnnotationFormat, AnnotationIndex, loadAnnotationIndex } from '../../annotation.js';
+import { toMcpError } from '../../errors.js';
+import { jobSchemaProperties } from '../../jobs.js';
+import { assemblyFiles } from '../../packages.js';
+import { defineTool } from '../../registry.js';
+
+// Nesting depth of include_children; gene > mRNA > exon is three levels
+const MAX_CHILD_DEPTH = 5;
+
+const featureRecord = (feature: AnnotationFeature) => ({
+  id: feature.id,
+  type: feature.type,
+  seqid: feature.seqid,
+  start: feature.start,
+  end: feature.end,
+  length: feature.end - feature.start + 1,
+  strand: feature.strand,
+  ...(feature.phase !== undefined && { phase: feature.phase }),
+  ...(feature.score !== undefined && { score: feature.score }),
+  source: feature.source,
+  ...(feature.parent_ids.length && { parent_ids: feature.parent_ids }),
+  ...(feature.location && { location: feature.location, segments: feature.segments }),
+  attributes: feature.attributes,
+});
+
+type FeatureRecord = ReturnType<typeof featureRecord> & { children?: FeatureRecord[] };
+
+const withChildren = (index: AnnotationIndex, feature: AnnotationFeature, depth = 1): FeatureRecord => {
+  const children = depth <= MAX_CHILD_DEPTH ? index.childrenOf(feature.id) : [];
+  return {
+    ...featureRecord(feature),
+    ...(children.length && { children: children.map((child) => withChildren(index, child, depth + 1)) }),
+  };
+};
+
+export const getGenomeAnnotation = defineTool({
+  name: 'get_genome_annotation',
+  category: 'annotation',
+  description: 'Query the GFF3, GTF or GenBank annotation of a genome assembly, locally from the workspace or downloaded into it: features overlapping a region, by type, gene or ID, with parent/child traversal from genes to transcripts, exons and CDSs',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      accession: { type: 'string', description: 'Genome assembly accession' },
+      file_format: { type: 'string', enum: ['gff3', 'gtf', 'genbank'], description: 'Annotation file to read; GenBank features come with their qualifiers, such as product, protein_id and translation (default: gff3)' },
+      feature_type: { type: 'string', description: 'Feature types to return, comma-separated, e.g. gene or CDS,exon (default: all)' },
+      chromosome: { type: 'string', description: 'Sequence ID (first GFF column, or GenBank VERSION) of the chromosome or contig, e.g. NC_000913.3' },
+      start_position: { type: 'integer', description: 'Return features overlapping the region from this position, 1-based', minimum: 1 },
+      end_position: { type: 'integer', description: 'Return features overlapping the region up to this position, inclusive', minimum: 1 },
+      gene: { type: 'string', description: 'Gene symbol, locus tag or gene ID of the features to return' },
+      feature_id: { type: 'string', description: 'ID of one feature, returned with its ancestors, e.g. gene-b0001 or cds-NP_414542.1' },
+      include_children: { type: 'boolean', description: 'Nest child features under each feature, e.g. mRNAs, exons and CDSs under genes; without feature_type only top-level features are listed (default: false)' },
+      max_results: { type: 'integer', description: 'Maximum number of features per page (1-1000, default: 100)', minimum: 1, maximum: 1000 },
+      page_token: { type: 'string', description: 'Page token from a previous call, for the next page of features' },
+      ...jobSchemaProperties,
+    },
+    required: ['accession'],
+  },
+  handler: async (args, { apiClient, workspace, signal }) => {
+    try {
+      const format: AnnotationFormat = args.file_format || 'gff3';
+      if ((args.start_position || args.end_position) && !args.chromosome) {
+        throw new McpError(ErrorCode.InvalidParams, 'start_position and end_position need a chromosome');
+      }
+      if (args.start_position && args.end_position && args.end_position < args.start_position) {
+        throw new McpError(ErrorCode.InvalidParams, `end_position ${args.end_position} is before start_position ${args.start_position}`);
+      }
+      const offset = args.page_token ? Number(args.page_token) : 0;
+      if (!Number.isInteger(offset) || offset < 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid page_token ${args.page_token}`);
+      }
+
+      const annotation = await assemblyFiles(apiClient, workspace, args.accession, format, signal);
+      const index = await loadAnnotationIndex(annotation.files, format);
+      const types: string[] = args.feature_type ? args.feature_type.split(',').map((type: string) => type.trim()).filter(Boolean) : [];
+
+      let ancestors: AnnotationFeature[] | undefined;
+      let features: AnnotationFeature[];
+      if (args.feature_id) {
+        features = index.feature(args.feature_id);
+        if (!features.length) {
+          throw new McpError(ErrorCode.InvalidParams, `No feature with ID ${args.feature_id} in the ${format} annotation of ${args.accession}`);
+        }
+        ancestors = index.ancestorsOf(features[0]);
+      } else {
+        features = index.query({
+          seqid: args.chromosome,
+          start: args.start_position,
+          end: args.end_position,
+          types,
+          name: args.gene,
+          topLevel: args.include_children && !types.length,
+        });
+      }
+
+      const limit = args.max_results || 100;
+      const page = features.slice(offset, offset + limit);
+      const nextOffset = offset + page.length;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              accession: args.accession,
+              file_format: format,
+              source: {
+                files: annotation.files,
+                downloaded: annotation.downloaded,
+              },
+              query: {
+                ...(args.feature_id && { feature_id: args.feature_id }),
+                ...(types.length && { feature_types: types }),
+                ...(args.chromosome && { chromosome: args.chromosome }),
+                ...(args.start_position && { start: args.start_position }),
+                ...(args.end_position && { end: args.end_position }),
+                ...(args.gene && { gene: args.gene }),
+              },
+              total_count: features.length,
+              returned_count: page.length,
+              page_token: nextOffset < features.length ? String(nextOffset) : undefined,
+              feature_type_counts: index.typeCounts(features),
+              ...(ancestors && { ancestors: ancestors.map(featureRecord) }),
+              features: page.map((feature) => args.include_children ? withChildren(index, feature) : featureRecord(feature)),
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to get genome annotation');
+    }
+  },
+});
@@ -0,0 +1,54 @@
+import { toMcpError } from '../../errors.js';
+import { resolveOrganism } from '../../organisms.js';
+import { defineTool } from '../../registry.js';
+
+export const searchGenomeFeatures = defineTool({
+  name: 'search_genome_features',
+  category: 'annotation',
+  description: 'Search for specific genomic features across assemblies',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      feature_name: { type: 'string', description: 'Feature name or gene symbol' },
+      feature_type: { type: 'string', enum: ['CDS', 'gene', 'rRNA', 'tRNA', 'ncRNA'], description: 'Type of genomic feature' },
+      organism: { type: 'string', description: 'Organism name to filter results, resolved through NCBI Taxonomy (tax_id takes precedence)' },
+      tax_id: { type: 'number', description: 'NCBI taxonomy ID' },
+      chromosome: { type: 'string', description: 'Chromosome name' },
+      max_results: { type: 'number', description: 'Maximum number of results (1-1000, default: 50)', minimum: 1, maximum: 1000 },
+    },
+    required: [],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const params: any = {
+        limit: args.max_results || 50,
+      };
+
+      if (args.feature_name) params.q = args.feature_name;
+      if (args.feature_type) params.feature_type = args.feature_type;
+      if (args.organism && !args.tax_id) {
+        params.taxon = String((await resolveOrganism(apiClient, args.organism)).tax_id);
+      }
+      if (args.tax_id) params.taxon = args.tax_id.toString();
+      if (args.chromosome) params.chromosome = args.chromosome;
+
+      const response = await apiClient.get('/genome/features/search', { params });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              search_parameters: args,
+              total_count: response.data.total_count || 0,
+              returned_count: response.data.features?.length || 0,
+              features: response.data.features || [],
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to search genome features');
+    }
+  },
+});
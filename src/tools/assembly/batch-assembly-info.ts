@@ -0,0 +1,48 @@
+import { toMcpError } from '../../errors.js';
+import { defineTool } from '../../registry.js';
+
+export const batchAssemblyInfo = defineTool({
+  name: 'batch_assembly_info',
+  category: 'assembly',
+  summaryKind: 'assembly',
+  description: 'Get information for multiple assemblies in a single request',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      accessions: { type: 'array', items: { type: 'string' }, description: 'List of assembly accessions (max 100)', minItems: 1, maxItems: 100 },
+      include_annotation: { type: 'boolean', description: 'Include annotation information (default: false)' },
+    },
+    required: ['accessions'],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const params: any = {
+        accessions: args.accessions.join(','),
+      };
+
+      if (args.include_annotation) {
+        params.include_annotation_type = 'GENOME_GFF,GENOME_GBFF';
+      }
+
+      const response = await apiClient.post('/assembly/accession', {
+        accessions: args.accessions,
+        ...params
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              requested_accessions: args.accessions,
+              returned_count: response.data.assemblies?.length || 0,
+              assemblies: response.data.assemblies || [],
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to get batch assembly info');
+    }
+  },
+});
@@ -0,0 +1,70 @@
+import { toMcpError } from '../../errors.js';
+import { jobSchemaProperties } from '../../jobs.js';
+import { fetchPackageFiles, PACKAGE_FORMATS, PackageFileFormat, workspacePath } from '../../packages.js';
+import { defineTool } from '../../registry.js';
+
+const FILE_FORMATS: Record<string, PackageFileFormat> = {
+  fasta: 'fasta',
+  genbank: 'genbank',
+  gff3: 'gff3',
+  gtf: 'gtf',
+};
+
+export const downloadGenomeData = defineTool({
+  name: 'download_genome_data',
+  category: 'assembly',
+  description: 'Download a genome data package into the local workspace, verify it against md5sum.txt and extract the requested files; returns a manifest of local paths, sizes and checksums',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      accession: { type: 'string', description: 'Genome assembly accession' },
+      include_annotation: { type: 'boolean', description: 'Include annotation files when file_format is all (default: true)' },
+      file_format: { type: 'string', enum: ['fasta', 'genbank', 'gff3', 'gtf', 'all'], description: 'File format to extract (default: all)' },
+      keep_zip: { type: 'boolean', description: 'Keep the downloaded package zip next to the extracted files (default: false)' },
+      ...jobSchemaProperties,
+    },
+    required: ['accession'],
+  },
+  handler: async (args, { apiClient, workspace, signal }) => {
+    try {
+      const format = FILE_FORMATS[args.file_format];
+      const formats: PackageFileFormat[] = format
+        ? [format]
+        : args.include_annotation !== false ? ['fasta', 'gff3', 'genbank', 'gtf'] : ['fasta'];
+
+      const params = {
+        include_annotation_type: formats.map((candidate) => PACKAGE_FORMATS[candidate].annotationType).join(','),
+      };
+
+      const directory = workspacePath(workspace, args.accession);
+      const { zipPath, package: download, checksums, files } = await fetchPackageFiles(
+        apiClient, workspace, `/genome/accession/${args.accession}/download`, params, directory,
+        { formats: format ? [format] : undefined, keepZip: args.keep_zip, signal }
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              accession: args.accession,
+              file_format: args.file_format || 'all',
+              workspace_directory: directory,
+              package: {
+                ...(args.keep_zip && { path: zipPath }),
+                size_bytes: download.size_bytes,
+                md5: download.md5,
+                checksums_listed: checksums.size,
+              },
+              file_count: files.length,
+              total_size_bytes: files.reduce((total, file) => total + file.size_bytes, 0),
+              files,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to download genome data');
+    }
+  },
+});
@@ -0,0 +1,120 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { toMcpError } from '../../errors.js';
+import { jobSchemaProperties } from '../../jobs.js';
+import { resolveOrganism } from '../../organisms.js';
+import {
+  downloadPackage,
+  extractPackageFiles,
+  PACKAGE_FORMATS,
+  PackageFileFormat,
+  PACKAGES_DIRECTORY,
+  readPackageChecksums,
+  workspacePath,
+} from '../../packages.js';
+import { fetchAllPages, MAX_PAGINATED_RECORDS } from '../../pagination.js';
+import { defineTool } from '../../registry.js';
+import { FETCH_FILE, parseFetchFile } from '../../rehydration.js';
+import { readZipEntries } from '../../zip.js';
+
+const defaultPackageName = (args: any): string =>
+  args.taxon !== undefined
+    ? `taxon_${args.taxon}`
+    : `genomes_${createHash('md5').update([...args.accessions].sort().join(',')).digest('hex').slice(0, 12)}`;
+
+export const downloadGenomePackage = defineTool({
+  name: 'download_genome_package',
+  category: 'assembly',
+  description: 'Download a dehydrated genome data package for a list of accessions or every assembly of a taxon; the package holds data reports and a fetch.txt, and rehydrate_package fetches the sequence and annotation files',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      accessions: { type: 'array', items: { type: 'string' }, description: 'Genome assembly accessions (max 5000)', minItems: 1, maxItems: MAX_PAGINATED_RECORDS },
+      taxon: { type: 'string', description: 'NCBI taxonomy ID or name, resolved through NCBI Taxonomy; every assembly of the taxon is included, unless accessions are given' },
+      assembly_level: { type: 'string', enum: ['complete', 'chromosome', 'scaffold', 'contig'], description: 'Assembly level filter for taxon packages' },
+      assembly_source: { type: 'string', enum: ['refseq', 'genbank', 'all'], description: 'Assembly source filter for taxon packages (default: all)' },
+      max_assemblies: { type: 'number', description: `Maximum assemblies in a taxon package (1-${MAX_PAGINATED_RECORDS}, default: 1000)`, minimum: 1, maximum: MAX_PAGINATED_RECORDS },
+      file_formats: { type: 'array', items: { type: 'string', enum: ['fasta', 'genbank', 'gff3', 'gtf'] }, description: 'Files listed for rehydration (default: ["fasta"])', minItems: 1 },
+      package_name: { type: 'string', description: 'Name of the package directory in the workspace (default: derived from the taxon or accessions)' },
+      ...jobSchemaProperties,
+    },
+    required: [],
+  },
+  handler: async (args, { apiClient, workspace, signal }) => {
+    try {
+      if (!args.accessions?.length && args.taxon === undefined) {
+        throw new McpError(ErrorCode.InvalidParams, 'Either accessions or taxon is required');
+      }
+
+      // Taxon packages list the taxon's assemblies first, following page tokens
+      let accessions: string[] = args.accessions;
+      let truncated = false;
+      if (!accessions?.length) {
+        const params: any = {};
+        if (args.assembly_level) params.assembly_level = args.assembly_level;
+        if (args.assembly_source && args.assembly_source !== 'all') params.assembly_source = args.assembly_source;
+        const { tax_id: taxId } = await resolveOrganism(apiClient, String(args.taxon));
+        const result = await fetchAllPages({ max_total: args.max_assemblies || 1000 }, async (pageToken) => {
+          const response = await apiClient.get(`/genome/taxon/${taxId}/dataset_report`, {
+            params: { ...params, limit: 1000, page_token: pageToken },
+          });
+          return {
+            records: response.data.reports || [],
+            totalCount: response.data.total_count,
+            nextPageToken: response.data.next_page_token,
+          };
+        }, (report: any) => report.accession);
+        accessions = result.records.map((report: any) => report.accession).filter(Boolean);
+        truncated = result.truncated;
+        if (!accessions.length) {
+          throw new McpError(ErrorCode.InvalidParams, `No assemblies found for taxon ${args.taxon}`);
+        }
+      }
+
+      const formats: PackageFileFormat[] = args.file_formats || ['fasta'];
+      const annotationTypes = formats.map((format) => PACKAGE_FORMATS[format].annotationType);
+      const packageName = args.package_name || defaultPackageName(args);
+      const directory = workspacePath(workspace, PACKAGES_DIRECTORY, packageName);
+      const zipPath = `${directory}.zip`;
+
+      const download = await downloadPackage(apiClient, '/genome/download', {}, zipPath, workspace, {
+        body: { accessions, include_annotation_type: annotationTypes, hydrated: 'DATA_REPORT_ONLY' },
+        signal,
+      });
+
+      try {
+        const entries = (await readZipEntries(zipPath)).filter((entry) => !entry.name.endsWith('/'));
+        const checksums = await readPackageChecksums(zipPath, entries);
+        const files = await extractPackageFiles(zipPath, entries, checksums, directory, false);
+        const fetchEntries = parseFetchFile(await fs.readFile(`${directory}/${FETCH_FILE}`, 'utf8').catch(() => ''));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                package_name: packageName,
+                directory,
+                assembly_count: accessions.length,
+                assemblies_truncated: truncated,
+                include_annotation_type: annotationTypes,
+                package: { size_bytes: download.size_bytes, md5: download.md5 },
+                fetch: {
+                  file_count: fetchEntries.length,
+                  listed_size_bytes: fetchEntries.reduce((total, entry) => total + (entry.size_bytes || 0), 0),
+                },
+                files,
+                next_step: `Call rehydrate_package with package_name "${packageName}" to fetch the listed files`,
+              }, null, 2),
+            },
+          ],
+        };
+      } finally {
+        await fs.rm(zipPath, { force: true });
+      }
+    } catch (error) {
+      throw toMcpError(error, 'Failed to download genome package');
+    }
+  },
+});
@@ -0,0 +1,36 @@
+import { toMcpError } from '../../errors.js';
+import { defineTool } from '../../registry.js';
+
+export const getAssemblyInfo = defineTool({
+  name: 'get_assembly_info',
+  category: 'assembly',
+  summaryKind: 'assembly',
+  description: 'Get detailed metadata and statistics for a genome assembly',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      assembly_accession: { type: 'string', description: 'Assembly accession (e.g., GCF_000001405.40)' },
+      include_annotation: { type: 'boolean', description: 'Include annotation statistics (default: true)' },
+    },
+    required: ['assembly_accession'],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const params: any = {};
+      if (args.include_annotation !== false) params.include_annotation_type = 'GENOME_GFF,GENOME_GBFF';
+
+      const response = await apiClient.get(`/assembly/accession/${args.assembly_accession}`, { params });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(response.data, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to get assembly info');
+    }
+  },
+});
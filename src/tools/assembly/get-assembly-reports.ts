@@ -0,0 +1,53 @@
+import { toMcpError } from '../../errors.js';
+import { defineTool } from '../../registry.js';
+
+export const getAssemblyReports = defineTool({
+  name: 'get_assembly_reports',
+  category: 'assembly',
+  summaryKind: 'assembly',
+  description: 'Get assembly quality reports and validation information',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      assembly_accession: { type: 'string', description: 'Assembly accession (e.g., GCF_000001405.40)' },
+      report_type: { type: 'string', enum: ['sequence_report', 'assembly_stats', 'annotation_report'], description: 'Type of report to retrieve' },
+    },
+    required: ['assembly_accession'],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      let endpoint = `/assembly/accession/${args.assembly_accession}`;
+
+      switch (args.report_type) {
+        case 'sequence_report':
+          endpoint += '/sequence_reports';
+          break;
+        case 'assembly_stats':
+          endpoint += '/dataset_report';
+          break;
+        case 'annotation_report':
+          endpoint += '/annotation_report';
+          break;
+        default:
+          endpoint += '/dataset_report';
+      }
+
+      const response = await apiClient.get(endpoint);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              assembly_accession: args.assembly_accession,
+              report_type: args.report_type || 'assembly_stats',
+              report: response.data,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to get assembly reports');
+    }
+  },
+});
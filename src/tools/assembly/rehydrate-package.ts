@@ -0,0 +1,55 @@
+import { toMcpError } from '../../errors.js';
+import { jobSchemaProperties } from '../../jobs.js';
+import { PACKAGES_DIRECTORY, workspacePath } from '../../packages.js';
+import { defineTool } from '../../registry.js';
+import { rehydratePackage as rehydrate, RehydrationStatus } from '../../rehydration.js';
+
+export const rehydratePackage = defineTool({
+  name: 'rehydrate_package',
+  category: 'assembly',
+  description: 'Fetch the files listed in a dehydrated package\'s fetch.txt into the workspace, several at a time within NCBI rate limits; files already present are skipped and interrupted downloads resume, so it can be re-run after failures',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      package_name: { type: 'string', description: 'Package name returned by download_genome_package' },
+      concurrency: { type: 'number', description: 'Files downloaded in parallel (1-10, default: 4)', minimum: 1, maximum: 10 },
+      match: { type: 'string', description: 'Only fetch files whose package path contains this string, e.g. an accession or ".gff"' },
+      ...jobSchemaProperties,
+    },
+    required: ['package_name'],
+  },
+  handler: async (args, { apiClient, workspace, reportProgress, signal }) => {
+    try {
+      const directory = workspacePath(workspace, PACKAGES_DIRECTORY, args.package_name);
+      const files = await rehydrate(apiClient, directory, {
+        concurrency: args.concurrency || 4,
+        match: args.match,
+        timeoutMs: workspace.downloadTimeoutMs,
+        onProgress: reportProgress,
+        signal,
+      });
+
+      const counts: Record<RehydrationStatus, number> = { downloaded: 0, resumed: 0, skipped: 0, failed: 0 };
+      files.forEach((file) => counts[file.status]++);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              package_name: args.package_name,
+              directory,
+              file_count: files.length,
+              ...counts,
+              complete: counts.failed === 0,
+              total_size_bytes: files.reduce((total, file) => total + (file.size_bytes || 0), 0),
+              files,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to rehydrate package');
+    }
+  },
+});
@@ -0,0 +1,77 @@
+import { toMcpError } from '../../errors.js';
+import {
+  autoPageSize,
+  fetchAllPages,
+  paginatedToolResult,
+  paginationSchemaProperties,
+  wantsAutoPagination,
+} from '../../pagination.js';
+import { defineTool } from '../../registry.js';
+
+export const searchAssemblies = defineTool({
+  name: 'search_assemblies',
+  category: 'assembly',
+  summaryKind: 'assembly',
+  description: 'Search genome assemblies with detailed filtering options',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Search query (organism name, assembly name, or keywords)' },
+      assembly_level: { type: 'string', enum: ['complete', 'chromosome', 'scaffold', 'contig'], description: 'Assembly level filter' },
+      assembly_source: { type: 'string', enum: ['refseq', 'genbank', 'all'], description: 'Assembly source filter (default: all)' },
+      tax_id: { type: 'number', description: 'NCBI taxonomy ID to filter results' },
+      exclude_atypical: { type: 'boolean', description: 'Exclude atypical assemblies (default: false)' },
+      max_results: { type: 'number', description: 'Maximum number of results (1-1000, default: 50)', minimum: 1, maximum: 1000 },
+      page_token: { type: 'string', description: 'Page token for pagination' },
+      ...paginationSchemaProperties,
+    },
+    required: [],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const params: any = {
+        limit: args.max_results || 50,
+      };
+
+      if (args.query) params.q = args.query;
+      if (args.assembly_level) params.assembly_level = args.assembly_level;
+      if (args.assembly_source && args.assembly_source !== 'all') params.assembly_source = args.assembly_source;
+      if (args.tax_id) params.taxon = args.tax_id.toString();
+      if (args.exclude_atypical) params.exclude_atypical = true;
+      if (args.page_token) params.page_token = args.page_token;
+
+      if (wantsAutoPagination(args)) {
+        const result = await fetchAllPages(args, async (pageToken) => {
+          const response = await apiClient.get('/assembly/search', {
+            params: { ...params, limit: autoPageSize(args), page_token: pageToken },
+          });
+          return {
+            records: response.data.assemblies || [],
+            totalCount: response.data.total_count,
+            nextPageToken: response.data.next_page_token,
+          };
+        }, (assembly: any) => assembly.assembly_accession ?? assembly.accession);
+        return paginatedToolResult(args, 'assemblies', result);
+      }
+
+      const response = await apiClient.get('/assembly/search', { params });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              search_parameters: args,
+              total_count: response.data.total_count || 0,
+              returned_count: response.data.assemblies?.length || 0,
+              page_token: response.data.next_page_token,
+              assemblies: response.data.assemblies || [],
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to search assemblies');
+    }
+  },
+});
@@ -0,0 +1,121 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { AxiosInstance } from 'axios';
+import { COMPARED_METRICS, compareGeneContent, genomeMetrics, metricDifferences } from '../../comparison.js';
+import { NOT_FOUND_ERROR_CODE, toMcpError } from '../../errors.js';
+import { jobSchemaProperties } from '../../jobs.js';
+import { AUTO_PAGINATION_PAGE_SIZE, MAX_PAGINATED_PAGES, MAX_PAGINATED_RECORDS } from '../../pagination.js';
+import { defineTool } from '../../registry.js';
+
+const DEFAULT_MAX_SYMBOLS = 100;
+
+// Gene symbols of an assembly from its annotation report; only the symbols are kept. Pages are collected past the
+// automatic pagination record cap, since shared and unique genes are only right for complete gene sets, but paging
+// stops at a repeated page token, and after MAX_PAGINATED_PAGES pages with the assembly reported as truncated.
+const geneSymbols = async (
+  apiClient: AxiosInstance,
+  accession: string,
+  signal?: AbortSignal
+): Promise<{ symbols: string[]; truncated: boolean }> => {
+  const symbolsByGene = new Map<string, string>();
+  const seenTokens = new Set<string>();
+  let pageToken: string | undefined;
+  let pages = 0;
+  do {
+    const page = await apiClient.get(`/genome/accession/${accession}/annotation_report`, {
+      params: { page_size: AUTO_PAGINATION_PAGE_SIZE, ...(pageToken && { page_token: pageToken }) },
+      signal,
+    });
+    pages++;
+    for (const report of page.data.reports || []) {
+      const symbol: string | undefined = report.annotation?.symbol;
+      if (symbol) symbolsByGene.set(String(report.annotation.gene_id ?? symbol), symbol);
+    }
+    if (pageToken) seenTokens.add(pageToken);
+    pageToken = page.data.next_page_token || undefined;
+  } while (pageToken && !seenTokens.has(pageToken) && pages < MAX_PAGINATED_PAGES);
+  return { symbols: [...symbolsByGene.values()], truncated: pageToken !== undefined && !seenTokens.has(pageToken) };
+};
+
+export const compareGenomes = defineTool({
+  name: 'compare_genomes',
+  category: 'comparative',
+  description: 'Compare two or more genome assemblies side by side from their dataset reports: size, GC%, contig and scaffold N50, gene counts, assembly level and CheckM, with percent differences from a reference; gene_content adds the gene symbols shared by all genomes and unique to each',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      accessions: { type: 'array', items: { type: 'string', minLength: 1 }, description: 'List of assembly accessions to compare (2-10)', minItems: 2, maxItems: 10 },
+      reference_accession: { type: 'string', description: 'Accession the percent differences are computed against (default: the first accession)' },
+      comparison_type: { type: 'string', enum: ['basic_stats', 'gene_content', 'synteny'], description: 'basic_stats compares assembly statistics; gene_content also compares gene symbols from the annotation reports; synteny is not supported (default: basic_stats)' },
+      include_orthologs: { type: 'boolean', description: 'Not supported; use find_orthologs for the orthologs of a gene (default: false)' },
+      max_symbols: { type: 'integer', description: `Maximum gene symbols listed as shared and per genome as unique (1-${MAX_PAGINATED_RECORDS}, default: ${DEFAULT_MAX_SYMBOLS})`, minimum: 1, maximum: MAX_PAGINATED_RECORDS },
+      ...jobSchemaProperties,
+    },
+    required: ['accessions'],
+  },
+  handler: async (args, { apiClient, signal }) => {
+    try {
+      if (args.comparison_type === 'synteny') {
+        throw new McpError(ErrorCode.InvalidParams, 'comparison_type synteny is not supported; use basic_stats or gene_content');
+      }
+      if (args.include_orthologs) {
+        throw new McpError(ErrorCode.InvalidParams, 'include_orthologs is not supported; use find_orthologs for the orthologs of a gene');
+      }
+      const accessions: string[] = args.accessions.map((accession: string) => accession.trim());
+      if (new Set(accessions).size !== accessions.length) {
+        throw new McpError(ErrorCode.InvalidParams, 'accessions must not repeat');
+      }
+      const referenceAccession = args.reference_accession?.trim() || accessions[0];
+      if (!accessions.includes(referenceAccession)) {
+        throw new McpError(ErrorCode.InvalidParams, `reference_accession ${referenceAccession} is not one of the compared accessions`);
+      }
+
+      const response = await apiClient.get(`/genome/accession/${accessions.join(',')}/dataset_report`, { signal });
+      const reports: any[] = response.data.reports || [];
+      const metrics = accessions.map((accession) => {
+        const report = reports.find((candidate) => (candidate.accession ?? candidate.current_accession) === accession);
+        if (!report) {
+          throw new McpError(NOT_FOUND_ERROR_CODE, `No dataset report for assembly ${accession}`);
+        }
+        return { ...genomeMetrics(report), accession };
+      });
+      const reference = metrics.find((genome) => genome.accession === referenceAccession)!;
+
+      let geneContent;
+      if (args.comparison_type === 'gene_content') {
+        const symbolsByAccession = new Map<string, string[]>();
+        const truncated: string[] = [];
+        for (const accession of accessions) {
+          const genes = await geneSymbols(apiClient, accession, signal);
+          if (genes.truncated) truncated.push(accession);
+          symbolsByAccession.set(accession, genes.symbols);
+        }
+        geneContent = {
+          ...compareGeneContent(symbolsByAccession, args.max_symbols || DEFAULT_MAX_SYMBOLS),
+          // Genomes with more annotation pages than MAX_PAGINATED_PAGES are compared on their first genes only
+          ...(truncated.length && { truncated_accessions: truncated }),
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              compared_accessions: accessions,
+              comparison_type: args.comparison_type || 'basic_stats',
+              reference_accession: referenceAccession,
+              compared_metrics: COMPARED_METRICS,
+              genomes: metrics,
+              differences: metrics
+                .filter((genome) => genome !== reference)
+                .map((genome) => metricDifferences(genome, reference)),
+              ...(geneContent && { gene_content: geneContent }),
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to compare genomes');
+    }
+  },
+});
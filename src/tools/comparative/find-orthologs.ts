@@ -0,0 +1,159 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { AxiosInstance } from 'axios';
+import { NOT_FOUND_ERROR_CODE, toMcpError } from '../../errors.js';
+import { OrganismMatchType, resolveOrganism, resolveOrganisms } from '../../organisms.js';
+import { AUTO_PAGINATION_PAGE_SIZE, fetchAllPages } from '../../pagination.js';
+import { defineTool } from '../../registry.js';
+import { fetchTaxonomyNodes, isWithinTaxon, TaxonomyNode } from '../../taxonomy.js';
+
+// Ortholog interfaces
+interface OrthologGene {
+  gene_id: string;
+  symbol: string;
+  organism: string;
+  tax_id: number;
+}
+
+interface TargetTaxon {
+  query: string;
+  tax_id: number;
+  name: string;
+  rank?: string;
+  match_type: OrganismMatchType;
+  confidence: number;
+}
+
+const DEFAULT_MAX_RESULTS = 10;
+const MAX_RESULTS = 1000;
+
+const toOrthologGene = (gene: any): OrthologGene => ({
+  gene_id: String(gene.gene_id),
+  symbol: gene.symbol,
+  organism: gene.taxname,
+  tax_id: Number(gene.tax_id),
+});
+
+// Gene ID of a symbol in an organism, found the way get_gene_info does
+const searchGeneId = async (apiClient: AxiosInstance, symbol: string, organism: string): Promise<number> => {
+  const { tax_id: taxId } = await resolveOrganism(apiClient, organism);
+  const response = await apiClient.get('/gene/search', { params: { symbol, taxon: String(taxId), limit: 1 } });
+  const gene = response.data.genes?.[0];
+  if (!gene) {
+    throw new McpError(NOT_FOUND_ERROR_CODE, `Gene ${symbol} not found in ${organism}`);
+  }
+  return Number(gene.gene_id);
+};
+
+export const findOrthologs = defineTool({
+  name: 'find_orthologs',
+  category: 'comparative',
+  description: 'Find the NCBI orthologs of a gene, optionally limited to target organisms or higher taxa such as Mammalia, as a table of gene ID, symbol, organism and tax ID',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      gene_id: { type: 'number', description: 'NCBI Gene ID (alternative to gene_symbol with source_organism)' },
+      gene_symbol: { type: 'string', description: 'Gene symbol to find orthologs for' },
+      source_organism: { type: 'string', description: 'Organism of gene_symbol (tax ID, scientific or common name, resolved through NCBI Taxonomy)' },
+      target_organisms: { type: 'array', items: { type: 'string', minLength: 1 }, description: 'Organisms or higher taxa to return orthologs from, by name or tax ID (default: all)', minItems: 1 },
+      max_results: { type: 'number', description: `Maximum number of orthologs per target taxon, or in total without target_organisms (1-${MAX_RESULTS}, default: ${DEFAULT_MAX_RESULTS})`, minimum: 1, maximum: MAX_RESULTS },
+    },
+    required: [],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      let geneId = args.gene_id;
+      if (!geneId) {
+        if (!args.gene_symbol || !args.source_organism) {
+          throw new McpError(ErrorCode.InvalidParams, 'Either gene_id or gene_symbol with source_organism must be provided');
+        }
+        geneId = await searchGeneId(apiClient, args.gene_symbol, args.source_organism);
+      }
+
+      // Resolve the targets first, so that a misspelt organism fails before the orthologs are fetched
+      const targetQueries: string[] = args.target_organisms || [];
+      const resolutions = await resolveOrganisms(apiClient, targetQueries);
+      const targetLookup = resolutions.length ? await fetchTaxonomyNodes(apiClient, resolutions.map((resolution) => resolution.tax_id)) : undefined;
+      if (targetLookup?.unresolved.length) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown target organisms: ${targetLookup.unresolved.join(', ')}`);
+      }
+      const targets: TargetTaxon[] = targetQueries.map((query, index) => {
+        const { tax_id: taxId, match_type: matchType, confidence } = resolutions[index];
+        const node = targetLookup!.nodes.get(String(taxId))!;
+        return { query, tax_id: node.tax_id, name: node.organism_name, ...(node.rank && { rank: node.rank }), match_type: matchType, confidence };
+      });
+
+      const orthologs = await fetchAllPages<OrthologGene>(
+        { fetch_all: true },
+        async (pageToken) => {
+          const response = await apiClient.get(`/gene/id/${geneId}/orthologs`, {
+            params: { page_size: AUTO_PAGINATION_PAGE_SIZE, ...(pageToken && { page_token: pageToken }) },
+          });
+          return {
+            records: (response.data.reports || []).map((report: any) => toOrthologGene(report.gene)),
+            totalCount: response.data.total_count,
+            nextPageToken: response.data.next_page_token,
+          };
+        },
+        (gene) => gene.gene_id
+      );
+
+      if (!orthologs.records.length) {
+        throw new McpError(NOT_FOUND_ERROR_CODE, `Gene ${geneId} has no orthologs in NCBI Gene`);
+      }
+      const query = orthologs.records.find((gene) => gene.gene_id === String(geneId));
+      const candidates = orthologs.records.filter((gene) => gene.gene_id !== String(geneId));
+      const maxResults = args.max_results || DEFAULT_MAX_RESULTS;
+
+      let rows: Array<OrthologGene & { target?: string }>;
+      let truncated = false;
+      if (!targets.length) {
+        rows = candidates.slice(0, maxResults);
+        truncated = candidates.length > maxResults;
+      } else {
+        // Species targets match on tax ID; higher taxa need the lineage of each ortholog's organism
+        const lineages = new Map<number, TaxonomyNode>();
+        if (targets.some((target) => target.rank !== 'SPECIES')) {
+          const lookup = await fetchTaxonomyNodes(apiClient, [...new Set(candidates.map((gene) => gene.tax_id))]);
+          for (const node of lookup.nodes.values()) lineages.set(node.tax_id, node);
+        }
+        const inTarget = (gene: OrthologGene, target: TargetTaxon) => {
+          const node = lineages.get(gene.tax_id);
+          return gene.tax_id === target.tax_id || (node !== undefined && isWithinTaxon(node, target.tax_id));
+        };
+
+        // Each ortholog is listed once, under the first target that contains it
+        rows = [];
+        const listed = new Set<string>();
+        for (const target of targets) {
+          const matches = candidates.filter((gene) => !listed.has(gene.gene_id) && inTarget(gene, target));
+          truncated ||= matches.length > maxResults;
+          for (const gene of matches.slice(0, maxResults)) {
+            listed.add(gene.gene_id);
+            rows.push({ ...gene, target: target.query });
+          }
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              gene: query ?? { gene_id: String(geneId) },
+              ...(targets.length && { target_taxa: targets }),
+              total_orthologs: candidates.length,
+              returned_count: rows.length,
+              truncated,
+              ...(targets.length && {
+                targets_without_orthologs: targets.filter((target) => !rows.some((row) => row.target === target.query)).map((target) => target.query),
+              }),
+              orthologs: rows,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to find orthologs');
+    }
+  },
+});
@@ -0,0 +1,63 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { NOT_FOUND_ERROR_CODE, toMcpError } from '../../errors.js';
+import { resolveOrganism } from '../../organisms.js';
+import { defineTool } from '../../registry.js';
+
+export const getGeneInfo = defineTool({
+  name: 'get_gene_info',
+  category: 'gene',
+  description: 'Get detailed information for a specific gene',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      gene_id: { type: 'number', description: 'NCBI Gene ID' },
+      gene_symbol: { type: 'string', description: 'Gene symbol (alternative to gene_id)' },
+      organism: { type: 'string', description: 'Organism name or taxonomy ID (required when using gene_symbol); ambiguous names are refused' },
+      include_sequences: { type: 'boolean', description: 'Include gene sequences (default: false)' },
+    },
+    required: [],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      let response;
+
+      if (args.gene_id) {
+        const params: any = {};
+        if (args.include_sequences) params.returned_content = 'COMPLETE';
+
+        response = await apiClient.get(`/gene/id/${args.gene_id}`, { params });
+      } else if (args.gene_symbol && args.organism) {
+        const { tax_id: taxId } = await resolveOrganism(apiClient, args.organism);
+        const params: any = {
+          symbol: args.gene_symbol,
+          taxon: String(taxId),
+          limit: 1,
+        };
+        if (args.include_sequences) params.returned_content = 'COMPLETE';
+
+        const searchResponse = await apiClient.get('/gene/search', { params });
+        if (searchResponse.data.genes && searchResponse.data.genes.length > 0) {
+          const geneId = searchResponse.data.genes[0].gene_id;
+          response = await apiClient.get(`/gene/id/${geneId}`, {
+            params: args.include_sequences ? { returned_content: 'COMPLETE' } : {}
+          });
+        } else {
+          throw new McpError(NOT_FOUND_ERROR_CODE, `Gene ${args.gene_symbol} not found in ${args.organism}`);
+        }
+      } else {
+        throw new McpError(ErrorCode.InvalidParams, 'Either gene_id or gene_symbol with organism must be provided');
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(response.data, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to get gene info');
+    }
+  },
+});
@@ -0,0 +1,71 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { toMcpError } from '../../errors.js';
+import { GeneFastaFile, GeneSequence, GeneSequenceType, geneSequenceFiles, readGeneSequences } from '../../gene-sequences.js';
+import { jobSchemaProperties } from '../../jobs.js';
+import { defineTool } from '../../registry.js';
+
+// Datasets adds 1,000 bases on each side of the gene in gene_flank.fna
+const MAX_FLANK_LENGTH = 1000;
+
+export const getGeneSequences = defineTool({
+  name: 'get_gene_sequences',
+  category: 'gene',
+  description: 'Download the gene data package of a gene and return its genomic, transcript and protein sequences, optionally with CDS, 5\' and 3\' UTR sequences and genomic flanks, as records linked to their RefSeq accessions',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      gene_id: { type: 'number', description: 'NCBI Gene ID' },
+      sequence_type: { type: 'string', enum: ['genomic', 'transcript', 'protein'], description: 'Type of sequence to retrieve (default: all)' },
+      include_cds: { type: 'boolean', description: 'Also return the coding sequence of each transcript (default: false)' },
+      include_utrs: { type: 'boolean', description: 'Also return the 5\' and 3\' UTRs of each transcript (default: false)' },
+      flank_length: { type: 'number', description: `Bases of flanking sequence on each side of genomic sequences (0-${MAX_FLANK_LENGTH}, default: 0)`, minimum: 0, maximum: MAX_FLANK_LENGTH },
+      ...jobSchemaProperties,
+    },
+    required: ['gene_id'],
+  },
+  handler: async (args, { apiClient, workspace, signal }) => {
+    try {
+      const flankLength = args.flank_length || 0;
+      if (flankLength && args.sequence_type && args.sequence_type !== 'genomic') {
+        throw new McpError(ErrorCode.InvalidParams, 'flank_length applies to genomic sequences');
+      }
+
+      const types: GeneSequenceType[] = args.sequence_type ? [args.sequence_type] : ['genomic', 'transcript', 'protein'];
+      if (args.include_cds) types.push('cds');
+      if (args.include_utrs) types.push('5p_utr', '3p_utr');
+      const files: GeneFastaFile[] = types.map((type) => (type === 'genomic' && flankLength ? 'gene_flank' : type));
+
+      const { directory, downloaded, reports } = await geneSequenceFiles(apiClient, workspace, args.gene_id, files, signal);
+      const report = reports.find((candidate) => candidate.geneId === String(args.gene_id)) ?? reports[0];
+      if (!report) {
+        throw new McpError(ErrorCode.InvalidParams, `Gene ${args.gene_id} was not found`);
+      }
+
+      const sequences: GeneSequence[] = [];
+      for (const type of types) sequences.push(...await readGeneSequences(directory, type, reports, flankLength));
+      const counts = Object.fromEntries(types.map((type) => [type, sequences.filter((sequence) => sequence.type === type).length]));
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              gene_id: args.gene_id,
+              symbol: report.symbol,
+              description: report.description,
+              organism: report.taxname,
+              tax_id: report.taxId,
+              sequence_type: args.sequence_type || 'all',
+              ...(flankLength && { flank_length: flankLength }),
+              source: { type: downloaded ? 'download' : 'workspace', directory },
+              counts,
+              sequences,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to get gene sequences');
+    }
+  },
+});
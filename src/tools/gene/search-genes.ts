@@ -0,0 +1,79 @@
+import { toMcpError } from '../../errors.js';
+import {
+  autoPageSize,
+  fetchAllPages,
+  paginatedToolResult,
+  paginationSchemaProperties,
+  wantsAutoPagination,
+} from '../../pagination.js';
+import { resolveOrganism } from '../../organisms.js';
+import { defineTool } from '../../registry.js';
+
+export const searchGenes = defineTool({
+  name: 'search_genes',
+  category: 'gene',
+  description: 'Search genes by symbol, name, organism, or genomic location',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      gene_symbol: { type: 'string', description: 'Gene symbol (e.g., BRCA1, TP53)' },
+      gene_id: { type: 'number', description: 'NCBI Gene ID' },
+      organism: { type: 'string', description: 'Organism name to filter results, resolved through NCBI Taxonomy (tax_id takes precedence)' },
+      tax_id: { type: 'number', description: 'NCBI taxonomy ID to filter results' },
+      chromosome: { type: 'string', description: 'Chromosome name to filter results' },
+      max_results: { type: 'number', description: 'Maximum number of results (1-1000, default: 50)', minimum: 1, maximum: 1000 },
+      page_token: { type: 'string', description: 'Page token for pagination' },
+      ...paginationSchemaProperties,
+    },
+    required: [],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const params: any = {
+        limit: args.max_results || 50,
+      };
+
+      if (args.gene_symbol) params.symbol = args.gene_symbol;
+      if (args.gene_id) params.gene_id = args.gene_id.toString();
+      if (args.organism && !args.tax_id) {
+        params.taxon = String((await resolveOrganism(apiClient, args.organism)).tax_id);
+      }
+      if (args.tax_id) params.taxon = args.tax_id.toString();
+      if (args.chromosome) params.chromosome = args.chromosome;
+      if (args.page_token) params.page_token = args.page_token;
+
+      if (wantsAutoPagination(args)) {
+        const result = await fetchAllPages(args, async (pageToken) => {
+          const response = await apiClient.get('/gene/search', {
+            params: { ...params, limit: autoPageSize(args), page_token: pageToken },
+          });
+          return {
+            records: response.data.genes || [],
+            totalCount: response.data.total_count,
+            nextPageToken: response.data.next_page_token,
+          };
+        }, (gene: any) => gene.gene_id ?? gene.gene?.gene_id);
+        return paginatedToolResult(args, 'genes', result);
+      }
+
+      const response = await apiClient.get('/gene/search', { params });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              search_parameters: args,
+              total_count: response.data.total_count || 0,
+              returned_count: response.data.genes?.length || 0,
+              page_token: response.data.next_page_token,
+              genes: response.data.genes || [],
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to search genes');
+    }
+  },
+});
@@ -0,0 +1,36 @@
+import { toMcpError } from '../../errors.js';
+import { defineTool } from '../../registry.js';
+
+export const getGenomeInfo = defineTool({
+  name: 'get_genome_info',
+  category: 'genome',
+  summaryKind: 'genome',
+  description: 'Get detailed information for a specific genome assembly',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      accession: { type: 'string', description: 'Genome assembly accession (e.g., GCF_000001405.40)' },
+      include_annotation: { type: 'boolean', description: 'Include annotation information (default: true)' },
+    },
+    required: ['accession'],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const params: any = {};
+      if (args.include_annotation !== false) params.include_annotation_type = 'GENOME_GFF,GENOME_GBFF';
+
+      const response = await apiClient.get(`/genome/accession/${args.accession}/dataset_report`, { params });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(response.data, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to get genome info');
+    }
+  },
+});
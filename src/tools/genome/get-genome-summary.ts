@@ -0,0 +1,35 @@
+import { toMcpError } from '../../errors.js';
+import { defineTool } from '../../registry.js';
+
+export const getGenomeSummary = defineTool({
+  name: 'get_genome_summary',
+  category: 'genome',
+  summaryKind: 'genome',
+  description: 'Get summary statistics for a genome assembly',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      accession: { type: 'string', description: 'Genome assembly accession (e.g., GCF_000001405.40)' },
+    },
+    required: ['accession'],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const response = await apiClient.get(`/genome/accession/${args.accession}/dataset_report`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              accession: args.accession,
+              summary: response.data,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to get genome summary');
+    }
+  },
+});
@@ -0,0 +1,82 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { toMcpError } from '../../errors.js';
+import { jobSchemaProperties } from '../../jobs.js';
+import {
+  autoPageSize,
+  fetchAllPages,
+  paginatedToolResult,
+  paginationSchemaProperties,
+  wantsAutoPagination,
+} from '../../pagination.js';
+import { resolveOrganism } from '../../organisms.js';
+import { defineTool } from '../../registry.js';
+
+export const searchGenomes = defineTool({
+  name: 'search_genomes',
+  category: 'genome',
+  summaryKind: 'genome',
+  description: 'Search genome assemblies by organism, keywords, or assembly criteria',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Search query (organism name, keywords, or assembly name)' },
+      organism: { type: 'string', description: 'Organism name, resolved through NCBI Taxonomy (alternative to tax_id)' },
+      tax_id: { type: 'number', description: 'NCBI taxonomy ID to filter results' },
+      assembly_level: { type: 'string', enum: ['complete', 'chromosome', 'scaffold', 'contig'], description: 'Assembly level filter' },
+      assembly_source: { type: 'string', enum: ['refseq', 'genbank', 'all'], description: 'Assembly source filter (default: all)' },
+      max_results: { type: 'number', description: 'Maximum number of results (1-1000, default: 50)', minimum: 1, maximum: 1000 },
+      page_token: { type: 'string', description: 'Page token for pagination' },
+      ...paginationSchemaProperties,
+      ...jobSchemaProperties,
+    },
+    required: [],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      if (!args.tax_id && !args.organism) {
+        throw new McpError(ErrorCode.InvalidParams, 'Either tax_id or organism must be provided');
+      }
+      const taxId = args.tax_id ?? (await resolveOrganism(apiClient, args.organism)).tax_id;
+      const params: any = {
+        limit: args.max_results || 50,
+      };
+
+      if (args.assembly_level) params.assembly_level = args.assembly_level;
+      if (args.assembly_source && args.assembly_source !== 'all') params.assembly_source = args.assembly_source;
+      if (args.page_token) params.page_token = args.page_token;
+
+      if (wantsAutoPagination(args)) {
+        const result = await fetchAllPages(args, async (pageToken) => {
+          const response = await apiClient.get(`/genome/taxon/${taxId}/dataset_report`, {
+            params: { ...params, limit: autoPageSize(args), page_token: pageToken },
+          });
+          return {
+            records: response.data.reports || [],
+            totalCount: response.data.total_count,
+            nextPageToken: response.data.next_page_token,
+          };
+        }, (report: any) => report.accession);
+        return paginatedToolResult(args, 'genomes', result);
+      }
+
+      const response = await apiClient.get(`/genome/taxon/${taxId}/dataset_report`, { params });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              search_parameters: args,
+              total_count: response.data.total_count || 0,
+              returned_count: response.data.reports?.length || 0,
+              page_token: response.data.next_page_token,
+              genomes: response.data.reports || [],
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to search genomes');
+    }
+  },
+});
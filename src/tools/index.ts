@@ -0,0 +1,83 @@
+import { searchGenomes } from './genome/search-genomes.js';
+import { getGenomeInfo } from './genome/get-genome-info.js';
+import { getGenomeSummary } from './genome/get-genome-summary.js';
+import { searchGenes } from './gene/search-genes.js';
+import { getGeneInfo } from './gene/get-gene-info.js';
+import { getGeneSequences } from './gene/get-gene-sequences.js';
+import { searchTaxonomy } from './taxonomy/search-taxonomy.js';
+import { getTaxonomyInfo } from './taxonomy/get-taxonomy-info.js';
+import { getOrganismInfo } from './taxonomy/get-organism-info.js';
+import { taxonomyRelationship } from './taxonomy/taxonomy-relationship.js';
+import { searchAssemblies } from './assembly/search-assemblies.js';
+import { getAssemblyInfo } from './assembly/get-assembly-info.js';
+import { getAssemblyReports } from './assembly/get-assembly-reports.js';
+import { downloadGenomeData } from './assembly/download-genome-data.js';
+import { downloadGenomePackage } from './assembly/download-genome-package.js';
+import { rehydratePackage } from './assembly/rehydrate-package.js';
+import { batchAssemblyInfo } from './assembly/batch-assembly-info.js';
+import { searchVirusGenomes } from './virus/search-virus-genomes.js';
+import { getVirusInfo } from './virus/get-virus-info.js';
+import { searchProteins } from './protein/search-proteins.js';
+import { getProteinInfo } from './protein/get-protein-info.js';
+import { getGenomeAnnotation } from './annotation/get-genome-annotation.js';
+import { searchGenomeFeatures } from './annotation/search-genome-features.js';
+import { compareGenomes } from './comparative/compare-genomes.js';
+import { findOrthologs } from './comparative/find-orthologs.js';
+import { getSequenceData } from './sequence/get-sequence-data.js';
+import { blastSearch } from './sequence/blast-search.js';
+import { getPhylogeneticTree } from './phylogenetic/get-phylogenetic-tree.js';
+import { getTaxonomicLineage } from './phylogenetic/get-taxonomic-lineage.js';
+import { getDatabaseStats } from './statistics/get-database-stats.js';
+import { searchByBioproject } from './statistics/search-by-bioproject.js';
+import { searchByBiosample } from './statistics/search-by-biosample.js';
+import { getAssemblyQuality } from './quality/get-assembly-quality.js';
+import { validateSequences } from './quality/validate-sequences.js';
+import { cacheStatus } from './server/cache-status.js';
+import { rateLimitStatus } from './server/rate-limit-status.js';
+import { getJobStatus } from './server/get-job-status.js';
+import { getJobResult } from './server/get-job-result.js';
+import { cancelJob } from './server/cancel-job.js';
+import { ToolModule } from '../registry.js';
+
+// Built-in tools in the order they are advertised to clients
+export const BUILTIN_TOOLS: ToolModule[] = [
+  searchGenomes,
+  getGenomeInfo,
+  getGenomeSummary,
+  searchGenes,
+  getGeneInfo,
+  getGeneSequences,
+  searchTaxonomy,
+  getTaxonomyInfo,
+  getOrganismInfo,
+  taxonomyRelationship,
+  searchAssemblies,
+  getAssemblyInfo,
+  getAssemblyReports,
+  downloadGenomeData,
+  downloadGenomePackage,
+  rehydratePackage,
+  batchAssemblyInfo,
+  searchVirusGenomes,
+  getVirusInfo,
+  searchProteins,
+  getProteinInfo,
+  getGenomeAnnotation,
+  searchGenomeFeatures,
+  compareGenomes,
+  findOrthologs,
+  getSequenceData,
+  blastSearch,
+  getPhylogeneticTree,
+  getTaxonomicLineage,
+  getDatabaseStats,
+  searchByBioproject,
+  searchByBiosample,
+  getAssemblyQuality,
+  validateSequences,
+  cacheStatus,
+  rateLimitStatus,
+  getJobStatus,
+  getJobResult,
+  cancelJob,
+];
@@ -0,0 +1,61 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { toMcpError } from '../../errors.js';
+import { defineTool } from '../../registry.js';
+import { fetchTaxonomyNodes } from '../../taxonomy.js';
+import { branchTaxIds, buildTaxonomyTree, toAscii, toNewick, TREE_RANKS, TreeRank, TreeTaxon, treeLeaves } from '../../taxonomy-tree.js';
+
+export const getPhylogeneticTree = defineTool({
+  name: 'get_phylogenetic_tree',
+  category: 'phylogenetic',
+  description: 'Build the taxonomic tree of a set of organisms from their NCBI Taxonomy lineages, collapsed to a rank, as Newick, nested JSON or an ASCII cladogram with the lowest common ancestor and ranks of internal nodes',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tax_ids: { type: 'array', items: { type: 'number' }, description: 'List of taxonomy IDs (2-50)', minItems: 2, maxItems: 50 },
+      tree_type: { type: 'string', enum: TREE_RANKS, description: 'Rank the leaves are collapsed to; taxa below it are replaced by their ancestor at that rank, and strain keeps them as given (default: species)' },
+      format: { type: 'string', enum: ['newick', 'json', 'ascii'], description: 'Output format (default: newick)' },
+      include_distances: { type: 'boolean', description: 'Include branch lengths, counted in taxonomic levels (default: true)' },
+    },
+    required: ['tax_ids'],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const treeType: TreeRank = args.tree_type || 'species';
+      const format = args.format || 'newick';
+      const distances = args.include_distances !== false;
+
+      const taxIds: number[] = [...new Set<number>(args.tax_ids)];
+      const lookup = await fetchTaxonomyNodes(apiClient, taxIds);
+      if (lookup.unresolved.length) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown taxonomy IDs: ${lookup.unresolved.join(', ')}`);
+      }
+      const leaves = treeLeaves(taxIds.map((taxId) => lookup.nodes.get(String(taxId))!), treeType);
+
+      // Names and ranks of the internal nodes come from their own taxonomy records
+      const taxa = new Map<number, TreeTaxon>();
+      const branches = await fetchTaxonomyNodes(apiClient, branchTaxIds(leaves));
+      for (const node of branches.nodes.values()) taxa.set(node.tax_id, { tax_id: node.tax_id, name: node.organism_name, rank: node.rank });
+
+      const root = buildTaxonomyTree(leaves, taxa);
+      const tree = format === 'json' ? root : format === 'ascii' ? toAscii(root, distances) : toNewick(root, distances);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              tax_ids: args.tax_ids,
+              tree_type: treeType,
+              format,
+              lowest_common_ancestor: { tax_id: root.tax_id, name: root.name, rank: root.rank },
+              leaf_count: leaves.length,
+              tree,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to get phylogenetic tree');
+    }
+  },
+});
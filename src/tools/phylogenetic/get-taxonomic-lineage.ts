@@ -0,0 +1,44 @@
+import { toMcpError } from '../../errors.js';
+import { defineTool } from '../../registry.js';
+
+export const getTaxonomicLineage = defineTool({
+  name: 'get_taxonomic_lineage',
+  category: 'phylogenetic',
+  description: 'Get complete taxonomic lineage for an organism',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tax_id: { type: 'number', description: 'NCBI taxonomy ID' },
+      include_ranks: { type: 'boolean', description: 'Include taxonomic ranks (default: true)' },
+      include_synonyms: { type: 'boolean', description: 'Include synonyms (default: false)' },
+      format: { type: 'string', enum: ['json', 'text'], description: 'Output format (default: json)' },
+    },
+    required: ['tax_id'],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const params: any = {
+        include_ranks: args.include_ranks !== false,
+        include_synonyms: args.include_synonyms || false,
+        format: args.format || 'json',
+      };
+
+      const response = await apiClient.get(`/taxonomy/taxon/${args.tax_id}/lineage`, { params });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              tax_id: args.tax_id,
+              format: args.format || 'json',
+              taxonomic_lineage: response.data,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to get taxonomic lineage');
+    }
+  },
+});
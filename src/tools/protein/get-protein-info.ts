@@ -0,0 +1,39 @@
+import { toMcpError } from '../../errors.js';
+import { defineTool } from '../../registry.js';
+
+export const getProteinInfo = defineTool({
+  name: 'get_protein_info',
+  category: 'protein',
+  description: 'Get detailed information for a specific protein',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      protein_accession: { type: 'string', description: 'Protein accession number' },
+      include_sequence: { type: 'boolean', description: 'Include protein sequence (default: true)' },
+      include_domains: { type: 'boolean', description: 'Include domain information (default: true)' },
+      include_structure: { type: 'boolean', description: 'Include structure information (default: false)' },
+    },
+    required: ['protein_accession'],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const params: any = {};
+      if (args.include_sequence !== false) params.include_sequence = true;
+      if (args.include_domains !== false) params.include_domains = true;
+      if (args.include_structure) params.include_structure = true;
+
+      const response = await apiClient.get(`/protein/accession/${args.protein_accession}`, { params });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(response.data, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to get protein info');
+    }
+  },
+});
@@ -0,0 +1,79 @@
+import { toMcpError } from '../../errors.js';
+import {
+  autoPageSize,
+  fetchAllPages,
+  paginatedToolResult,
+  paginationSchemaProperties,
+  wantsAutoPagination,
+} from '../../pagination.js';
+import { resolveOrganism } from '../../organisms.js';
+import { defineTool } from '../../registry.js';
+
+export const searchProteins = defineTool({
+  name: 'search_proteins',
+  category: 'protein',
+  description: 'Search protein sequences by name, organism, or function',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      protein_name: { type: 'string', description: 'Protein name or description' },
+      organism: { type: 'string', description: 'Organism name to filter results, resolved through NCBI Taxonomy (tax_id takes precedence)' },
+      tax_id: { type: 'number', description: 'NCBI taxonomy ID' },
+      gene_symbol: { type: 'string', description: 'Associated gene symbol' },
+      function_keywords: { type: 'string', description: 'Functional keywords' },
+      max_results: { type: 'number', description: 'Maximum number of results (1-1000, default: 50)', minimum: 1, maximum: 1000 },
+      page_token: { type: 'string', description: 'Page token for pagination' },
+      ...paginationSchemaProperties,
+    },
+    required: [],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const params: any = {
+        limit: args.max_results || 50,
+      };
+
+      if (args.protein_name) params.q = args.protein_name;
+      if (args.organism && !args.tax_id) {
+        params.taxon = String((await resolveOrganism(apiClient, args.organism)).tax_id);
+      }
+      if (args.tax_id) params.taxon = args.tax_id.toString();
+      if (args.gene_symbol) params.gene_symbol = args.gene_symbol;
+      if (args.function_keywords) params.function = args.function_keywords;
+      if (args.page_token) params.page_token = args.page_token;
+
+      if (wantsAutoPagination(args)) {
+        const result = await fetchAllPages(args, async (pageToken) => {
+          const response = await apiClient.get('/protein/search', {
+            params: { ...params, limit: autoPageSize(args), page_token: pageToken },
+          });
+          return {
+            records: response.data.proteins || [],
+            totalCount: response.data.total_count,
+            nextPageToken: response.data.next_page_token,
+          };
+        }, (protein: any) => protein.accession);
+        return paginatedToolResult(args, 'proteins', result);
+      }
+
+      const response = await apiClient.get('/protein/search', { params });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              search_parameters: args,
+              total_count: response.data.total_count || 0,
+              returned_count: response.data.proteins?.length || 0,
+              page_token: response.data.next_page_token,
+              proteins: response.data.proteins || [],
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to search proteins');
+    }
+  },
+});
@@ -0,0 +1,44 @@
+import { toMcpError } from '../../errors.js';
+import { defineTool } from '../../registry.js';
+
+export const getAssemblyQuality = defineTool({
+  name: 'get_assembly_quality',
+  category: 'quality',
+  summaryKind: 'assembly',
+  description: 'Get quality metrics and validation results for genome assemblies',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      accession: { type: 'string', description: 'Assembly accession' },
+      include_checkm: { type: 'boolean', description: 'Include CheckM quality scores (default: true)' },
+      include_busco: { type: 'boolean', description: 'Include BUSCO completeness scores (default: true)' },
+      include_contamination: { type: 'boolean', description: 'Include contamination analysis (default: true)' },
+    },
+    required: ['accession'],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const params: any = {
+        include_checkm: args.include_checkm !== false,
+        include_busco: args.include_busco !== false,
+        include_contamination: args.include_contamination !== false,
+      };
+
+      const response = await apiClient.get(`/assembly/accession/${args.accession}/quality`, { params });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              accession: args.accession,
+              quality_metrics: response.data,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to get assembly quality');
+    }
+  },
+});
@@ -0,0 +1,51 @@
+import { toMcpError } from '../../errors.js';
+import { defineTool } from '../../registry.js';
+import { checkSequence, duplicateIds, FastaRecord, parseFasta } from '../../sequences.js';
+
+export const validateSequences = defineTool({
+  name: 'validate_sequences',
+  category: 'quality',
+  description: 'Validate DNA, RNA or protein sequences locally: parse (multi-record) FASTA, check the IUPAC alphabet and report length, GC content, N-runs, internal stop codons and duplicate IDs per record',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sequences: { type: 'array', items: { type: 'string' }, description: 'Sequences to validate; each entry is a raw sequence or FASTA text with one or more records (max 1000)', minItems: 1, maxItems: 1000 },
+      sequence_type: { type: 'string', enum: ['dna', 'rna', 'protein'], description: 'Type of sequences' },
+      min_n_run: { type: 'integer', description: 'Shortest run of N (X for proteins) to report (default: 10)', minimum: 1 },
+      frame: { type: 'integer', description: 'Reading frame for internal stop codons in DNA/RNA (1-3, default: 1)', minimum: 1, maximum: 3 },
+    },
+    required: ['sequences', 'sequence_type'],
+  },
+  handler: async (args) => {
+    try {
+      const records: FastaRecord[] = args.sequences.flatMap((text: string, index: number) => parseFasta(text, `sequence_${index + 1}`));
+      const options = { minNRun: args.min_n_run || 10, frame: args.frame || 1 };
+      const reports = records.map((record, index) => checkSequence(record, index, args.sequence_type, options));
+
+      const duplicates = duplicateIds(records);
+      for (const duplicate of duplicates) {
+        for (const index of duplicate.indexes) {
+          reports[index].issues.push(`Duplicate ID ${duplicate.id} (records ${duplicate.indexes.join(', ')})`);
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              sequence_type: args.sequence_type,
+              record_count: reports.length,
+              valid_count: reports.filter((report) => report.valid).length,
+              records_with_issues: reports.filter((report) => report.issues.length).length,
+              duplicate_ids: duplicates,
+              records: reports,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to validate sequences');
+    }
+  },
+});
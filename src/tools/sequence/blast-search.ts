@@ -0,0 +1,157 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { BLAST_DATABASES, BLAST_PROGRAMS, BlastProgram, blastProgramFor, organismEntrezQuery, queryTypeOf, runBlastSearch } from '../../blast.js';
+import { ensureDatabase, fastaTypeOf, runLocalBlast, workspaceFile } from '../../blast-plus.js';
+import { toMcpError } from '../../errors.js';
+import { jobSchemaProperties } from '../../jobs.js';
+import { resolveOrganism } from '../../organisms.js';
+import { assemblyFiles } from '../../packages.js';
+import { defineTool, ToolContext } from '../../registry.js';
+
+// Search NCBI's databases through the BLAST URL API
+const searchAtNcbi = async (args: any, { apiClient, blast, reportProgress, signal }: ToolContext, queryType: 'nucleotide' | 'protein') => {
+  const databaseKey: string = args.database || (
+    args.program ? (BLAST_PROGRAMS[args.program as BlastProgram].database === 'protein' ? 'nr' : 'nt') : queryType === 'protein' ? 'nr' : 'nt'
+  );
+  const database = BLAST_DATABASES[databaseKey];
+  const program = blastProgramFor(queryType, database.type, databaseKey, args.program);
+  const organism = args.organism_filter ? await resolveOrganism(apiClient, args.organism_filter) : undefined;
+
+  const search = {
+    program,
+    database: database.name,
+    query: args.query_sequence,
+    expect: args.evalue_threshold ?? 0.001,
+    hitlistSize: args.max_hits || 50,
+    entrezQuery: organism ? organismEntrezQuery(organism.tax_id) : undefined,
+    megablast: program === 'blastn' && args.megablast !== false,
+  };
+  const result = await runBlastSearch(apiClient, blast, search, { onProgress: reportProgress, signal });
+
+  return {
+    backend: 'ncbi',
+    rid: result.rid,
+    program,
+    database: databaseKey,
+    blast_database: database.name,
+    query_type: queryType,
+    search_parameters: {
+      expect: search.expect,
+      hitlist_size: search.hitlistSize,
+      ...(search.entrezQuery && { entrez_query: search.entrezQuery }),
+      ...(search.megablast && { megablast: true }),
+    },
+    hits: result.hits,
+  };
+};
+
+// Search assemblies and FASTA files from the workspace with local BLAST+ binaries
+const searchLocally = async (args: any, { apiClient, blast, workspace, signal }: ToolContext, queryType: 'nucleotide' | 'protein') => {
+  if (args.database || args.organism_filter) {
+    throw new McpError(ErrorCode.InvalidParams, 'database and organism_filter apply to NCBI searches; local searches run against subject_assemblies and subject_files');
+  }
+  const assemblies: string[] = args.subject_assemblies || [];
+  const subjectFiles: string[] = args.subject_files || [];
+  if (!assemblies.length && !subjectFiles.length) {
+    throw new McpError(ErrorCode.InvalidParams, 'Local BLAST needs subject_assemblies or subject_files to search');
+  }
+
+  const files: string[] = [];
+  const downloaded: string[] = [];
+  for (const accession of assemblies) {
+    const fasta = await assemblyFiles(apiClient, workspace, accession, 'fasta', signal);
+    files.push(...fasta.files);
+    if (fasta.downloaded) downloaded.push(accession);
+  }
+  const types = new Set<'nucleotide' | 'protein'>(assemblies.length ? ['nucleotide'] : []);
+  for (const file of subjectFiles) {
+    const resolved = await workspaceFile(workspace, file);
+    files.push(resolved);
+    types.add(await fastaTypeOf(resolved));
+  }
+  if (types.size > 1) {
+    throw new McpError(ErrorCode.InvalidParams, 'Subjects mix nucleotide and protein sequences; search them separately');
+  }
+
+  const [databaseType] = [...types];
+  const program = blastProgramFor(queryType, databaseType, 'the local subjects', args.program);
+  const database = await ensureDatabase(blast, workspace, files, databaseType, signal);
+  const search = {
+    program,
+    query: args.query_sequence,
+    expect: args.evalue_threshold ?? 0.001,
+    maxTargetSeqs: args.max_hits || 50,
+    megablast: program === 'blastn' && args.megablast !== false,
+  };
+  const hits = await runLocalBlast(blast, database, search, signal);
+
+  return {
+    backend: 'local',
+    program,
+    database: {
+      path: database.path,
+      built: database.built,
+      sources: database.sources,
+      ...(downloaded.length && { downloaded_assemblies: downloaded }),
+    },
+    query_type: queryType,
+    search_parameters: {
+      expect: search.expect,
+      max_target_seqs: search.maxTargetSeqs,
+      ...(search.megablast && { megablast: true }),
+    },
+    hits,
+  };
+};
+
+export const blastSearch = defineTool({
+  name: 'blast_search',
+  category: 'sequence',
+  description: 'Run a BLAST search, at NCBI through the BLAST URL API or locally with BLAST+ against assemblies and FASTA files in the workspace, and return typed hits with identity, e-value, bit score and alignment coordinates',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query_sequence: { type: 'string', description: 'Query sequence, raw or in FASTA format' },
+      backend: { type: 'string', enum: ['ncbi', 'local'], description: 'Search at NCBI or with local BLAST+ binaries (default: local when subjects are given, otherwise ncbi)' },
+      database: { type: 'string', enum: Object.keys(BLAST_DATABASES), description: 'NCBI database (default: nt for nucleotide queries, nr for proteins)' },
+      subject_assemblies: { type: 'array', items: { type: 'string' }, description: 'Local backend: genome assemblies to search; their FASTA is taken from the workspace, or downloaded into it', maxItems: 100 },
+      subject_files: { type: 'array', items: { type: 'string' }, description: 'Local backend: FASTA files to search, relative to the workspace directory', maxItems: 100 },
+      program: { type: 'string', enum: Object.keys(BLAST_PROGRAMS), description: 'BLAST program (default: from the query and database types)' },
+      megablast: { type: 'boolean', description: 'Run blastn as megablast, which is faster for closely related sequences (default: true)' },
+      max_hits: { type: 'number', description: 'Maximum number of subject sequences (1-500, default: 50)', minimum: 1, maximum: 500 },
+      evalue_threshold: { type: 'number', description: 'E-value threshold (default: 0.001)', minimum: 0 },
+      organism_filter: { type: 'string', description: 'NCBI backend: restrict subjects to an organism and its descendants, by taxonomy ID or name resolved through NCBI Taxonomy' },
+      ...jobSchemaProperties,
+    },
+    required: ['query_sequence'],
+  },
+  handler: async (args, context) => {
+    try {
+      const queryType = queryTypeOf(args.query_sequence);
+      const hasSubjects = Boolean(args.subject_assemblies?.length || args.subject_files?.length);
+      const backend = args.backend || (hasSubjects ? 'local' : 'ncbi');
+      if (backend === 'ncbi' && hasSubjects) {
+        throw new McpError(ErrorCode.InvalidParams, 'subject_assemblies and subject_files are searched with backend "local"');
+      }
+
+      const { hits, ...search } = backend === 'local'
+        ? await searchLocally(args, context, queryType)
+        : await searchAtNcbi(args, context, queryType);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              ...search,
+              subject_count: new Set(hits.map((hit) => hit.accession)).size,
+              hit_count: hits.length,
+              hits,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to perform BLAST search');
+    }
+  },
+});
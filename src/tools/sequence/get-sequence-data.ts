@@ -0,0 +1,120 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { toMcpError } from '../../errors.js';
+import { GENETIC_CODES } from '../../genetic-codes.js';
+import { jobSchemaProperties } from '../../jobs.js';
+import { defineTool } from '../../registry.js';
+import { assemblyForSequence, locateGenbankRecord, locateSequence, SequenceKind, sequenceKindOf } from '../../sequence-sources.js';
+import { formatFasta, reverseComplement, translate } from '../../sequences.js';
+
+// Longest region returned in one call; larger regions belong in download_genome_data
+const MAX_REGION_LENGTH = 1_000_000;
+
+export const getSequenceData = defineTool({
+  name: 'get_sequence_data',
+  category: 'sequence',
+  description: 'Cut a region out of a genomic, transcript or protein sequence, locally from the workspace or from the genome or gene package downloaded for it, with optional reverse complement, translation with an NCBI genetic code, wrapped FASTA output or the GenBank record and features of the region',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      accession: { type: 'string', description: 'Sequence accession, e.g. NC_000913.3, NM_007294.4 or NP_414542.1' },
+      sequence_type: { type: 'string', enum: ['genomic', 'transcript', 'protein'], description: 'Type of sequence (default: from the accession prefix)' },
+      assembly_accession: { type: 'string', description: 'Genome assembly containing a genomic sequence (default: looked up from NCBI)' },
+      package_name: { type: 'string', description: 'download_genome_package package to read the sequence from' },
+      start_position: { type: 'integer', description: 'First position of the region, 1-based (default: 1)', minimum: 1 },
+      end_position: { type: 'integer', description: 'Last position of the region, inclusive (default: end of the sequence)', minimum: 1 },
+      strand: { type: 'string', enum: ['plus', 'minus', 'both'], description: 'Strand of nucleotide regions; minus is reverse complemented (default: plus)' },
+      translate: { type: 'boolean', description: 'Translate nucleotide regions to protein (default: false)' },
+      genetic_code: { type: 'integer', description: 'NCBI genetic code for translation, e.g. 11 for bacteria or 2 for vertebrate mitochondria (default: 1)', minimum: 1, maximum: 33 },
+      cds: { type: 'boolean', description: 'Translate as a complete CDS: alternative start codons read as M and the terminal stop is dropped (default: false)' },
+      line_width: { type: 'integer', description: 'FASTA line width, 0 for one line per sequence (default: 80)', minimum: 0, maximum: 10000 },
+      format: { type: 'string', enum: ['fasta', 'json', 'genbank'], description: 'Return sequences as FASTA text, as JSON records, or as JSON records with the parsed GenBank header and the features overlapping the region, for genomic sequences (default: fasta)' },
+      ...jobSchemaProperties,
+    },
+    required: ['accession'],
+  },
+  handler: async (args, { apiClient, workspace, signal }) => {
+    try {
+      const kind: SequenceKind = args.sequence_type || sequenceKindOf(args.accession);
+      const strand = args.strand || 'plus';
+      if (kind === 'protein' && (strand !== 'plus' || args.translate)) {
+        throw new McpError(ErrorCode.InvalidParams, 'Protein sequences have no minus strand and cannot be translated');
+      }
+      if (args.format === 'genbank' && kind !== 'genomic') {
+        throw new McpError(ErrorCode.InvalidParams, 'GenBank records are read from assembly GBFF files, so format "genbank" applies to genomic sequences only');
+      }
+      const geneticCode = args.genetic_code || 1;
+      if (args.translate && !GENETIC_CODES[geneticCode]) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown genetic code ${geneticCode}; NCBI codes are ${Object.keys(GENETIC_CODES).join(', ')}`);
+      }
+
+      const start = args.start_position || 1;
+      if (args.end_position && args.end_position < start) {
+        throw new McpError(ErrorCode.InvalidParams, `end_position ${args.end_position} is before start_position ${start}`);
+      }
+      // Read one residue past the limit, so an oversized region is detected without reading all of it
+      const readEnd = Math.min(args.end_position || Infinity, start + MAX_REGION_LENGTH);
+      const { record, source } = await locateSequence(apiClient, workspace, {
+        accession: args.accession,
+        kind,
+        assemblyAccession: args.assembly_accession,
+        packageName: args.package_name,
+        start,
+        end: readEnd,
+        signal,
+      });
+
+      if (start > record.record_length) {
+        throw new McpError(ErrorCode.InvalidParams, `start_position ${start} is beyond the end of ${record.id} (${record.record_length} residues)`);
+      }
+      if (record.sequence.length > MAX_REGION_LENGTH) {
+        throw new McpError(ErrorCode.InvalidParams,
+          `Region of ${record.id} is longer than ${MAX_REGION_LENGTH} residues; narrow start_position/end_position or use download_genome_data for whole sequences`);
+      }
+      const end = start + record.sequence.length - 1;
+      const whole = start === 1 && end === record.record_length;
+
+      const strands: Array<'plus' | 'minus'> = strand === 'both' ? ['plus', 'minus'] : [strand];
+      const sequences = strands.map((current) => {
+        const bases = current === 'minus' ? reverseComplement(record.sequence) : record.sequence;
+        const sequence = args.translate ? translate(bases, geneticCode, { cds: args.cds }) : bases;
+        // NCBI-style region identifiers: NC_000913.3:190-255, or NC_000913.3:c255-190 on the minus strand
+        const id = current === 'minus' ? `${record.id}:c${end}-${start}` : whole ? record.id : `${record.id}:${start}-${end}`;
+        const notes = args.translate ? ` [translated, genetic_code=${geneticCode}]` : '';
+        return { id, strand: current, header: `${id}${record.description ? ` ${record.description}` : ''}${notes}`, length: sequence.length, sequence };
+      });
+
+      let genbank: Record<string, unknown> | undefined;
+      if (args.format === 'genbank') {
+        const assemblyAccession = source.assembly_accession || await assemblyForSequence(apiClient, record.id);
+        const found = await locateGenbankRecord(apiClient, workspace, assemblyAccession, record.id, signal);
+        const { features, ...header } = found.record;
+        genbank = { ...header, path: found.path, features: features.filter((feature) => feature.end >= start && feature.start <= end) };
+      }
+
+      const lineWidth = args.line_width ?? 80;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              accession: args.accession,
+              sequence_type: kind,
+              source,
+              sequence_length: record.record_length,
+              region: { start, end, strand, length: end - start + 1 },
+              ...(args.translate && {
+                translation: { genetic_code: geneticCode, genetic_code_name: GENETIC_CODES[geneticCode].name, cds: Boolean(args.cds) },
+              }),
+              ...(genbank && { genbank }),
+              ...(args.format === 'json' || genbank
+                ? { sequences }
+                : { fasta: sequences.map((entry) => formatFasta(entry.header, entry.sequence, lineWidth)).join('') }),
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to get sequence data');
+    }
+  },
+});
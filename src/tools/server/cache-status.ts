@@ -0,0 +1,34 @@
+import { defineTool } from '../../registry.js';
+
+export const cacheStatus = defineTool({
+  name: 'cache_status',
+  category: 'server',
+  shaped: false,
+  description: 'Inspect response cache hit/miss statistics and optionally clear cached entries',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      clear: { type: 'boolean', description: 'Clear cached entries before reporting (default: false)' },
+      endpoint_prefix: { type: 'string', description: 'Only clear entries whose endpoint starts with this prefix (e.g., /taxonomy)' },
+    },
+    required: [],
+  },
+  handler: async (args, { cache }) => {
+    let cleared: number | undefined;
+    if (args?.clear) {
+      cleared = await cache.clear(args.endpoint_prefix);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            ...(cleared !== undefined && { cleared_entries: cleared }),
+            cache: await cache.stats(),
+          }, null, 2),
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,25 @@
+import { defineTool } from '../../registry.js';
+
+export const cancelJob = defineTool({
+  name: 'cancel_job',
+  category: 'server',
+  shaped: false,
+  description: 'Cancel a running background job; its partial output is discarded',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      job_id: { type: 'string', description: 'Job id returned by a tool called with background: true' },
+    },
+    required: ['job_id'],
+  },
+  handler: async (args, { jobs }) => {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(jobs.cancel(args.job_id), null, 2),
+        },
+      ],
+    };
+  },
+});
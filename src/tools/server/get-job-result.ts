@@ -0,0 +1,22 @@
+import { defineTool } from '../../registry.js';
+
+// Stay below the default MCP client request timeout of 60 seconds
+const MAX_WAIT_MS = 50000;
+
+export const getJobResult = defineTool({
+  name: 'get_job_result',
+  category: 'server',
+  shaped: false,
+  description: 'Get the output of a finished background job, exactly as the tool would have returned it; optionally wait for a running job, with progress notifications meanwhile',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      job_id: { type: 'string', description: 'Job id returned by a tool called with background: true' },
+      wait_ms: { type: 'number', description: `Wait up to this long for a running job to finish (0-${MAX_WAIT_MS}, default: 0)`, minimum: 0, maximum: MAX_WAIT_MS },
+    },
+    required: ['job_id'],
+  },
+  handler: async (args, { jobs, reportProgress }) => {
+    return jobs.result(args.job_id, args.wait_ms || 0, reportProgress);
+  },
+});
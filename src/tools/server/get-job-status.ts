@@ -0,0 +1,25 @@
+import { defineTool } from '../../registry.js';
+
+export const getJobStatus = defineTool({
+  name: 'get_job_status',
+  category: 'server',
+  shaped: false,
+  description: 'Get the state and progress of a background job, or list every job when no job_id is given',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      job_id: { type: 'string', description: 'Job id returned by a tool called with background: true' },
+    },
+    required: [],
+  },
+  handler: async (args, { jobs }) => {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(args?.job_id ? jobs.status(args.job_id) : { jobs: jobs.list() }, null, 2),
+        },
+      ],
+    };
+  },
+});
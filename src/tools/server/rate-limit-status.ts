@@ -0,0 +1,26 @@
+import { defineTool } from '../../registry.js';
+
+export const rateLimitStatus = defineTool({
+  name: 'rate_limit_status',
+  category: 'server',
+  shaped: false,
+  description: 'Get the configured NCBI request rate limit, current queue depth and throttling statistics',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+  handler: async (_args, { rateLimiter, apiKey }) => {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            api_key_configured: Boolean(apiKey),
+            rate_limit: rateLimiter.status(),
+          }, null, 2),
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,43 @@
+import { toMcpError } from '../../errors.js';
+import { defineTool } from '../../registry.js';
+
+export const getDatabaseStats = defineTool({
+  name: 'get_database_stats',
+  category: 'statistics',
+  description: 'Get statistics about NCBI Datasets database content',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      data_type: { type: 'string', enum: ['genomes', 'genes', 'proteins', 'assemblies', 'all'], description: 'Type of data to get stats for (default: all)' },
+      organism_group: { type: 'string', enum: ['bacteria', 'archaea', 'eukaryotes', 'viruses', 'all'], description: 'Organism group filter (default: all)' },
+      include_trends: { type: 'boolean', description: 'Include historical trends (default: false)' },
+    },
+    required: [],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const params: any = {
+        data_type: args.data_type || 'all',
+        organism_group: args.organism_group || 'all',
+        include_trends: args.include_trends || false,
+      };
+
+      const response = await apiClient.get('/stats/database', { params });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              data_type: args.data_type || 'all',
+              organism_group: args.organism_group || 'all',
+              database_statistics: response.data,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to get database stats');
+    }
+  },
+});
@@ -0,0 +1,46 @@
+import { toMcpError } from '../../errors.js';
+import { defineTool } from '../../registry.js';
+
+export const searchByBioproject = defineTool({
+  name: 'search_by_bioproject',
+  category: 'statistics',
+  summaryKind: 'genome',
+  description: 'Search datasets by BioProject accession',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      bioproject_accession: { type: 'string', description: 'BioProject accession (e.g., PRJNA12345)' },
+      data_type: { type: 'string', enum: ['genomes', 'assemblies', 'genes', 'all'], description: 'Type of data to retrieve (default: all)' },
+      max_results: { type: 'number', description: 'Maximum number of results (1-1000, default: 100)', minimum: 1, maximum: 1000 },
+    },
+    required: ['bioproject_accession'],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const params: any = {
+        bioproject: args.bioproject_accession,
+        data_type: args.data_type || 'all',
+        limit: args.max_results || 100,
+      };
+
+      const response = await apiClient.get('/bioproject/search', { params });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              bioproject_accession: args.bioproject_accession,
+              data_type: args.data_type || 'all',
+              total_count: response.data.total_count || 0,
+              returned_count: response.data.datasets?.length || 0,
+              datasets: response.data.datasets || [],
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to search by BioProject');
+    }
+  },
+});
@@ -0,0 +1,42 @@
+import { toMcpError } from '../../errors.js';
+import { defineTool } from '../../registry.js';
+
+export const searchByBiosample = defineTool({
+  name: 'search_by_biosample',
+  category: 'statistics',
+  description: 'Search datasets by BioSample accession',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      biosample_accession: { type: 'string', description: 'BioSample accession (e.g., SAMN12345678)' },
+      include_metadata: { type: 'boolean', description: 'Include sample metadata (default: true)' },
+      related_data: { type: 'boolean', description: 'Include related datasets (default: false)' },
+    },
+    required: ['biosample_accession'],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const params: any = {
+        biosample: args.biosample_accession,
+        include_metadata: args.include_metadata !== false,
+        related_data: args.related_data || false,
+      };
+
+      const response = await apiClient.get('/biosample/search', { params });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              biosample_accession: args.biosample_accession,
+              biosample_data: response.data,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to search by BioSample');
+    }
+  },
+});
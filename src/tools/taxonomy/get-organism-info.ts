@@ -0,0 +1,56 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { toMcpError } from '../../errors.js';
+import { OrganismResolution, resolveOrganism } from '../../organisms.js';
+import { defineTool } from '../../registry.js';
+
+export const getOrganismInfo = defineTool({
+  name: 'get_organism_info',
+  category: 'taxonomy',
+  description: 'Get organism-specific information including available datasets',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      organism: { type: 'string', description: 'Organism scientific name, abbreviation (E. coli), synonym or common name; ambiguous names are refused with their candidates' },
+      tax_id: { type: 'number', description: 'NCBI taxonomy ID (alternative to organism name)' },
+    },
+    required: [],
+  },
+  handler: async (args, { apiClient }) => {
+    if (!args.organism && !args.tax_id) {
+      throw new McpError(ErrorCode.InvalidParams, 'Either organism name or taxonomy ID is required');
+    }
+
+    try {
+      let taxId = args.tax_id;
+      let resolution: OrganismResolution | undefined;
+
+      // If organism name provided, first resolve it to a taxonomy ID
+      if (args.organism && !taxId) {
+        resolution = await resolveOrganism(apiClient, args.organism);
+        taxId = resolution.tax_id;
+      }
+
+      // Get organism information and available datasets
+      const [taxonomyResponse, genomesResponse] = await Promise.all([
+        apiClient.get(`/taxonomy/taxon/${taxId}`),
+        apiClient.get('/genome/search', { params: { taxon: taxId.toString(), limit: 10 } })
+      ]);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              ...(resolution && { organism_resolution: resolution }),
+              organism_info: taxonomyResponse.data,
+              available_genomes: genomesResponse.data.assemblies || [],
+              genome_count: genomesResponse.data.total_count || 0,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to get organism info');
+    }
+  },
+});
@@ -0,0 +1,35 @@
+import { toMcpError } from '../../errors.js';
+import { defineTool } from '../../registry.js';
+
+export const getTaxonomyInfo = defineTool({
+  name: 'get_taxonomy_info',
+  category: 'taxonomy',
+  description: 'Get detailed taxonomic information for a specific taxon',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tax_id: { type: 'number', description: 'NCBI taxonomy ID' },
+      include_lineage: { type: 'boolean', description: 'Include full taxonomic lineage (default: true)' },
+    },
+    required: ['tax_id'],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const params: any = {};
+      if (args.include_lineage !== false) params.include_lineage = true;
+
+      const response = await apiClient.get(`/taxonomy/taxon/${args.tax_id}`, { params });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(response.data, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to get taxonomy info');
+    }
+  },
+});
@@ -0,0 +1,45 @@
+import { toMcpError } from '../../errors.js';
+import { defineTool } from '../../registry.js';
+
+export const searchTaxonomy = defineTool({
+  name: 'search_taxonomy',
+  category: 'taxonomy',
+  description: 'Search taxonomic information by organism name or keywords',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Search query (organism name or taxonomic keywords)' },
+      rank: { type: 'string', description: 'Taxonomic rank filter (e.g., species, genus, family)' },
+      max_results: { type: 'number', description: 'Maximum number of results (1-1000, default: 50)', minimum: 1, maximum: 1000 },
+    },
+    required: ['query'],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const params: any = {
+        q: args.query,
+        limit: args.max_results || 50,
+      };
+
+      if (args.rank) params.rank = args.rank;
+
+      const response = await apiClient.get('/taxonomy/search', { params });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              search_parameters: args,
+              total_count: response.data.total_count || 0,
+              returned_count: response.data.taxonomy?.length || 0,
+              taxonomy: response.data.taxonomy || [],
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to search taxonomy');
+    }
+  },
+});
@@ -0,0 +1,89 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { toMcpError } from '../../errors.js';
+import { resolveOrganisms } from '../../organisms.js';
+import { defineTool } from '../../registry.js';
+import { fetchTaxonomyNodes, lowestCommonAncestor, pathDistance, STANDARD_RANKS, TaxonomyNode } from '../../taxonomy.js';
+
+// Taxonomy relationship interfaces
+interface RelatedTaxon {
+  tax_id: number;
+  name?: string;
+  rank?: string;
+}
+
+const MAX_TAXA = 20;
+
+export const taxonomyRelationship = defineTool({
+  name: 'taxonomy_relationship',
+  category: 'taxonomy',
+  description: 'Relate two or more organisms through NCBI Taxonomy: their lowest common ancestor and its rank, which standard ranks they share, and the path distance between each pair',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      taxa: { type: 'array', items: { type: 'string', minLength: 1 }, description: `Taxonomy IDs or scientific or common names (2-${MAX_TAXA})`, minItems: 2, maxItems: MAX_TAXA },
+    },
+    required: ['taxa'],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const queries: string[] = args.taxa.map((query: string) => query.trim());
+      const resolutions = await resolveOrganisms(apiClient, queries);
+      const lookup = await fetchTaxonomyNodes(apiClient, resolutions.map((resolution) => resolution.tax_id));
+      if (lookup.unresolved.length) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown taxa: ${lookup.unresolved.join(', ')}`);
+      }
+      const nodes = resolutions.map((resolution) => lookup.nodes.get(String(resolution.tax_id))!);
+
+      const pairs: Array<{ first: number; second: number; ancestor: number }> = [];
+      nodes.forEach((first, i) => nodes.slice(i + 1).forEach((second, offset) =>
+        pairs.push({ first: i, second: i + 1 + offset, ancestor: lowestCommonAncestor([first, second]) })));
+      const ancestor = lowestCommonAncestor(nodes);
+
+      // Ancestors are named from the requested taxa and their classifications where possible, and fetched otherwise
+      const known = new Map<number, RelatedTaxon>();
+      for (const node of nodes) {
+        for (const [rank, taxon] of Object.entries(node.classification)) known.set(taxon.id, { tax_id: taxon.id, name: taxon.name, rank });
+        known.set(node.tax_id, { tax_id: node.tax_id, name: node.organism_name, rank: node.rank?.toLowerCase() });
+      }
+      const unnamed = [ancestor, ...pairs.map((pair) => pair.ancestor)].filter((taxId) => !known.has(taxId));
+      for (const node of (await fetchTaxonomyNodes(apiClient, unnamed)).nodes.values()) {
+        known.set(node.tax_id, { tax_id: node.tax_id, name: node.organism_name, rank: node.rank?.toLowerCase() });
+      }
+      const describe = (taxId: number): RelatedTaxon => known.get(taxId) ?? { tax_id: taxId };
+
+      const taxonAt = (node: TaxonomyNode, rank: string) => node.classification[rank];
+      const agreement = STANDARD_RANKS.map((rank) => {
+        const taxa = nodes.map((node) => taxonAt(node, rank)?.name ?? null);
+        const ids = nodes.map((node) => taxonAt(node, rank)?.id);
+        return { rank, taxa, agree: ids[0] !== undefined && ids.every((id) => id === ids[0]) };
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              taxa: queries.map((query, index) => ({
+                query, ...describe(nodes[index].tax_id), match_type: resolutions[index].match_type, confidence: resolutions[index].confidence,
+              })),
+              lowest_common_ancestor: describe(ancestor),
+              // The taxon of each requested taxon at every standard rank, in request order
+              rank_agreement: agreement,
+              pairs: pairs.map((pair) => ({
+                taxa: [queries[pair.first], queries[pair.second]],
+                lowest_common_ancestor: describe(pair.ancestor),
+                shared_ranks: STANDARD_RANKS.filter((rank) => {
+                  const [first, second] = [taxonAt(nodes[pair.first], rank), taxonAt(nodes[pair.second], rank)];
+                  return first !== undefined && first.id === second?.id;
+                }),
+                path_distance: pathDistance(nodes[pair.first], nodes[pair.second]),
+              })),
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to relate taxa');
+    }
+  },
+});
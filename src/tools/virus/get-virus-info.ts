@@ -0,0 +1,37 @@
+import { toMcpError } from '../../errors.js';
+import { defineTool } from '../../registry.js';
+
+export const getVirusInfo = defineTool({
+  name: 'get_virus_info',
+  category: 'virus',
+  description: 'Get detailed information for a specific viral genome',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      accession: { type: 'string', description: 'Viral genome accession' },
+      include_proteins: { type: 'boolean', description: 'Include protein information (default: true)' },
+      include_metadata: { type: 'boolean', description: 'Include collection metadata (default: true)' },
+    },
+    required: ['accession'],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const params: any = {};
+      if (args.include_proteins !== false) params.include_proteins = true;
+      if (args.include_metadata !== false) params.include_metadata = true;
+
+      const response = await apiClient.get(`/virus/accession/${args.accession}`, { params });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(response.data, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to get virus info');
+    }
+  },
+});
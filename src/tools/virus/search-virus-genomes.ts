@@ -0,0 +1,79 @@
+import { toMcpError } from '../../errors.js';
+import { resolveOrganism } from '../../organisms.js';
+import {
+  autoPageSize,
+  fetchAllPages,
+  paginatedToolResult,
+  paginationSchemaProperties,
+  wantsAutoPagination,
+} from '../../pagination.js';
+import { defineTool } from '../../registry.js';
+
+export const searchVirusGenomes = defineTool({
+  name: 'search_virus_genomes',
+  category: 'virus',
+  description: 'Search viral genome assemblies by virus name or taxonomy',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      virus_name: { type: 'string', description: 'Virus name or species (e.g., SARS-CoV-2, Influenza A)' },
+      tax_id: { type: 'number', description: 'NCBI taxonomy ID for virus' },
+      host: { type: 'string', description: 'Host organism filter, by taxonomy ID or name resolved through NCBI Taxonomy' },
+      collection_date_start: { type: 'string', description: 'Start date for collection (YYYY-MM-DD)', pattern: '^\\d{4}-\\d{2}-\\d{2}$' },
+      collection_date_end: { type: 'string', description: 'End date for collection (YYYY-MM-DD)', pattern: '^\\d{4}-\\d{2}-\\d{2}$' },
+      geo_location: { type: 'string', description: 'Geographic location filter' },
+      max_results: { type: 'number', description: 'Maximum number of results (1-1000, default: 50)', minimum: 1, maximum: 1000 },
+      page_token: { type: 'string', description: 'Page token for pagination' },
+      ...paginationSchemaProperties,
+    },
+    required: [],
+  },
+  handler: async (args, { apiClient }) => {
+    try {
+      const params: any = {
+        limit: args.max_results || 50,
+      };
+
+      if (args.virus_name) params.q = args.virus_name;
+      if (args.tax_id) params.taxon = args.tax_id.toString();
+      if (args.host) params.host = String((await resolveOrganism(apiClient, args.host)).tax_id);
+      if (args.collection_date_start) params.collection_date_start = args.collection_date_start;
+      if (args.collection_date_end) params.collection_date_end = args.collection_date_end;
+      if (args.geo_location) params.geo_location = args.geo_location;
+      if (args.page_token) params.page_token = args.page_token;
+
+      if (wantsAutoPagination(args)) {
+        const result = await fetchAllPages(args, async (pageToken) => {
+          const response = await apiClient.get('/virus/search', {
+            params: { ...params, limit: autoPageSize(args), page_token: pageToken },
+          });
+          return {
+            records: response.data.virus_genomes || [],
+            totalCount: response.data.total_count,
+            nextPageToken: response.data.next_page_token,
+          };
+        }, (genome: any) => genome.accession);
+        return paginatedToolResult(args, 'virus_genomes', result);
+      }
+
+      const response = await apiClient.get('/virus/search', { params });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              search_parameters: args,
+              total_count: response.data.total_count || 0,
+              returned_count: response.data.virus_genomes?.length || 0,
+              page_token: response.data.next_page_token,
+              virus_genomes: response.data.virus_genomes || [],
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error, 'Failed to search virus genomes');
+    }
+  },
+});
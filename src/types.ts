@@ -0,0 +1,108 @@
+// NCBI Datasets API interfaces
+export interface NCBIGenomeInfo {
+  accession: string;
+  organism: {
+    tax_id: number;
+    organism_name: string;
+    common_name?: string;
+  };
+  assembly_info: {
+    assembly_name: string;
+    assembly_level: string;
+    assembly_type: string;
+    submission_date: string;
+    submitter: string;
+  };
+  assembly_stats: {
+    total_sequence_length: number;
+    total_ungapped_length: number;
+    number_of_contigs: number;
+    number_of_scaffolds: number;
+    scaffold_n50: number;
+    contig_n50: number;
+  };
+  annotation_info?: {
+    name: string;
+    source: string;
+    release_date: string;
+    stats: {
+      gene_counts: {
+        total: number;
+        protein_coding: number;
+        non_coding: number;
+      };
+    };
+  };
+}
+
+export interface NCBIGeneInfo {
+  gene_id: number;
+  symbol: string;
+  description: string;
+  gene_type: string;
+  organism: {
+    tax_id: number;
+    organism_name: string;
+  };
+  genomic_locations: Array<{
+    accession_version: string;
+    assembly_name: string;
+    chromosome: string;
+    start: number;
+    end: number;
+    strand: string;
+  }>;
+  nomenclature_authority?: {
+    authority: string;
+    identifier: string;
+  };
+  synonyms?: string[];
+}
+
+export interface NCBITaxonomyInfo {
+  tax_id: number;
+  organism_name: string;
+  common_name?: string;
+  rank: string;
+  division: string;
+  lineage: string[];
+  parent_tax_id?: number;
+  children_tax_ids?: number[];
+}
+
+export interface NCBIAssemblyInfo {
+  assembly_accession: string;
+  assembly_name: string;
+  organism: {
+    tax_id: number;
+    organism_name: string;
+    common_name?: string;
+  };
+  assembly_level: string;
+  assembly_type: string;
+  submission_date: string;
+  submitter: string;
+  assembly_stats: {
+    total_sequence_length: number;
+    total_ungapped_length: number;
+    number_of_contigs: number;
+    number_of_scaffolds: number;
+    scaffold_n50: number;
+    contig_n50: number;
+    gc_percent: number;
+  };
+  checkm_info?: {
+    completeness: number;
+    contamination: number;
+    strain_heterogeneity: number;
+  };
+}
+
+export interface NCBISearchResult {
+  total_count: number;
+  page_token?: string;
+  assemblies?: NCBIAssemblyInfo[];
+  genes?: NCBIGeneInfo[];
+  genomes?: NCBIGenomeInfo[];
+  taxonomy?: NCBITaxonomyInfo[];
+}
@@ -0,0 +1,135 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+// Tool schema interfaces (the JSON Schema subset used by tool inputSchemas)
+export interface JSONSchemaProperty {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  enum?: readonly string[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  pattern?: string;
+  items?: JSONSchemaProperty;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JSONSchemaProperty>;
+  required?: string[];
+}
+
+export interface ToolInputSchema {
+  type: 'object';
+  properties: Record<string, JSONSchemaProperty>;
+  required: string[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+const typeMatches = (schema: JSONSchemaProperty, value: unknown): boolean => {
+  switch (schema.type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+};
+
+const validateValue = (schema: JSONSchemaProperty, value: unknown, field: string, errors: FieldError[]) => {
+  if (!typeMatches(schema, value)) {
+    errors.push({ field, message: `must be ${/^[aeiou]/.test(schema.type) ? 'an' : 'a'} ${schema.type}` });
+    return;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.enum && !schema.enum.includes(value)) {
+      errors.push({ field, message: `must be one of: ${schema.enum.join(', ')}` });
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ field, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ field, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ field, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ field, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ field, message: `must contain at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ field, message: `must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateValue(schema.items!, item, `${field}[${index}]`, errors));
+    }
+  }
+
+  if (schema.type === 'object' && schema.properties) {
+    validateObject(schema.properties, schema.required || [], value as Record<string, unknown>, `${field}.`, errors);
+  }
+};
+
+const validateObject = (
+  properties: Record<string, JSONSchemaProperty>,
+  required: string[],
+  value: Record<string, unknown>,
+  prefix: string,
+  errors: FieldError[]
+) => {
+  // An empty string never satisfies a required field
+  for (const name of required) {
+    if (value[name] === undefined || value[name] === null || value[name] === '') {
+      errors.push({ field: `${prefix}${name}`, message: 'is required' });
+    }
+  }
+
+  for (const [name, propertySchema] of Object.entries(properties)) {
+    const propertyValue = value[name];
+    if (propertyValue === undefined || (propertyValue === '' && required.includes(name))) continue;
+    validateValue(propertySchema, propertyValue, `${prefix}${name}`, errors);
+  }
+};
+
+export const validateArguments = (schema: ToolInputSchema, args: unknown): FieldError[] => {
+  const errors: FieldError[] = [];
+  if (args === undefined || args === null) args = {};
+  if (typeof args !== 'object' || Array.isArray(args)) {
+    return [{ field: '(arguments)', message: 'must be an object' }];
+  }
+  validateObject(schema.properties, schema.required, args as Record<string, unknown>, '', errors);
+  return errors;
+};
+
+// Throw InvalidParams listing every offending field
+export const assertValidArguments = (tool: ToolDefinition, args: unknown) => {
+  const errors = validateArguments(tool.inputSchema, args);
+  if (errors.length === 0) return;
+
+  const summary = errors.map((error) => `${error.field} ${error.message}`).join('; ');
+  throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${tool.name}: ${summary}`, { errors });
+};
@@ -0,0 +1,143 @@
+import { createReadStream, promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { createInflateRaw } from 'zlib';
+
+// Zip archive interfaces
+export interface ZipEntry {
+  name: string;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  crc32: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const STORED = 0;
+const DEFLATED = 8;
+// Fixed end record plus the longest possible archive comment
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const readAt = async (handle: fs.FileHandle, position: number, length: number): Promise<Buffer> => {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+};
+
+const readUInt64 = (buffer: Buffer, offset: number): number => Number(buffer.readBigUInt64LE(offset));
+
+const locateCentralDirectory = async (handle: fs.FileHandle, fileSize: number) => {
+  const tailStart = Math.max(0, fileSize - MAX_END_RECORD_SEARCH);
+  const tail = await readAt(handle, tailStart, fileSize - tailStart);
+
+  let position = -1;
+  for (let index = tail.length - 22; index >= 0; index--) {
+    if (tail.readUInt32LE(index) === END_OF_CENTRAL_DIRECTORY) {
+      position = index;
+      break;
+    }
+  }
+  if (position === -1) throw new Error('Not a zip archive: end of central directory not found');
+
+  let entryCount = tail.readUInt16LE(position + 10);
+  let size = tail.readUInt32LE(position + 12);
+  let offset = tail.readUInt32LE(position + 16);
+
+  // Archives over 4 GB or 65535 entries keep the real values in the zip64 end record
+  if (entryCount === 0xffff || size === 0xffffffff || offset === 0xffffffff) {
+    const locator = await readAt(handle, tailStart + position - 20, 20);
+    if (locator.readUInt32LE(0) !== ZIP64_LOCATOR) throw new Error('Zip64 end of central directory locator not found');
+    const record = await readAt(handle, readUInt64(locator, 8), 56);
+    if (record.readUInt32LE(0) !== ZIP64_END_OF_CENTRAL_DIRECTORY) throw new Error('Zip64 end of central directory not found');
+    entryCount = readUInt64(record, 32);
+    size = readUInt64(record, 40);
+    offset = readUInt64(record, 48);
+  }
+  return { entryCount, size, offset };
+};
+
+// List the entries of a zip file from its central directory, without reading the file contents
+export const readZipEntries = async (file: string): Promise<ZipEntry[]> => {
+  const handle = await fs.open(file, 'r');
+  try {
+    const { size: fileSize } = await handle.stat();
+    const directory = await locateCentralDirectory(handle, fileSize);
+    const buffer = await readAt(handle, directory.offset, directory.size);
+    const entries: ZipEntry[] = [];
+
+    let position = 0;
+    for (let index = 0; index < directory.entryCount; index++) {
+      if (buffer.readUInt32LE(position) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error(`Corrupt zip central directory at entry ${index}`);
+      }
+      const nameLength = buffer.readUInt16LE(position + 28);
+      const extraLength = buffer.readUInt16LE(position + 30);
+      const commentLength = buffer.readUInt16LE(position + 32);
+      const entry: ZipEntry = {
+        name: buffer.toString('utf8', position + 46, position + 46 + nameLength),
+        compressionMethod: buffer.readUInt16LE(position + 10),
+        crc32: buffer.readUInt32LE(position + 16),
+        compressedSize: buffer.readUInt32LE(position + 20),
+        uncompressedSize: buffer.readUInt32LE(position + 24),
+        localHeaderOffset: buffer.readUInt32LE(position + 42),
+      };
+
+      // The zip64 extra field holds, in order, whichever of these overflowed 32 bits
+      let extra = position + 46 + nameLength;
+      const extraEnd = extra + extraLength;
+      while (extra + 4 <= extraEnd) {
+        const id = buffer.readUInt16LE(extra);
+        const length = buffer.readUInt16LE(extra + 2);
+        if (id === ZIP64_EXTRA_FIELD) {
+          let field = extra + 4;
+          if (entry.uncompressedSize === 0xffffffff) { entry.uncompressedSize = readUInt64(buffer, field); field += 8; }
+          if (entry.compressedSize === 0xffffffff) { entry.compressedSize = readUInt64(buffer, field); field += 8; }
+          if (entry.localHeaderOffset === 0xffffffff) entry.localHeaderOffset = readUInt64(buffer, field);
+        }
+        extra += 4 + length;
+      }
+
+      entries.push(entry);
+      position = extraEnd + commentLength;
+    }
+    return entries;
+  } finally {
+    await handle.close();
+  }
+};
+
+// Stream the uncompressed contents of one entry
+export const openZipEntry = async (file: string, entry: ZipEntry): Promise<Readable> => {
+  if (entry.compressionMethod !== STORED && entry.compressionMethod !== DEFLATED) {
+    throw new Error(`Unsupported compression method ${entry.compressionMethod} for ${entry.name}`);
+  }
+
+  const handle = await fs.open(file, 'r');
+  let header: Buffer;
+  try {
+    header = await readAt(handle, entry.localHeaderOffset, 30);
+  } finally {
+    await handle.close();
+  }
+  if (header.readUInt32LE(0) !== LOCAL_FILE_HEADER) throw new Error(`Corrupt local header for ${entry.name}`);
+
+  const start = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  if (entry.compressedSize === 0) return Readable.from([]);
+  const raw = createReadStream(file, { start, end: start + entry.compressedSize - 1 });
+  if (entry.compressionMethod === STORED) return raw;
+
+  const inflate = createInflateRaw();
+  raw.on('error', (error) => inflate.destroy(error));
+  return raw.pipe(inflate);
+};
+
+export const readZipEntry = async (file: string, entry: ZipEntry): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await openZipEntry(file, entry)) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+};
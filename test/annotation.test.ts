@@ -0,0 +1,150 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { AnnotationIndex, parseAnnotation } from '../src/annotation.js';
+import { Harness, startHarness } from './harness.js';
+
+// A spliced eukaryotic gene in the NCBI style, with a second, overlapping gene on the minus strand
+const GFF3 = [
+  '##gff-version 3',
+  'NC_000001.11\tBestRefSeq\tgene\t1000\t9000\t.\t+\t.\tID=gene-ABC1;Name=ABC1;gene=ABC1;locus_tag=HS_0001',
+  'NC_000001.11\tBestRefSeq\tmRNA\t1000\t9000\t.\t+\t.\tID=rna-NM_1.1;Parent=gene-ABC1;gene=ABC1;product=ABC%2C transporter',
+  'NC_000001.11\tBestRefSeq\texon\t1000\t1200\t.\t+\t.\tID=exon-NM_1.1-1;Parent=rna-NM_1.1',
+  'NC_000001.11\tBestRefSeq\texon\t5000\t5300\t.\t+\t.\tID=exon-NM_1.1-2;Parent=rna-NM_1.1',
+  'NC_000001.11\tBestRefSeq\texon\t8800\t9000\t.\t+\t.\tID=exon-NM_1.1-3;Parent=rna-NM_1.1',
+  'NC_000001.11\tBestRefSeq\tCDS\t1100\t1200\t.\t+\t0\tID=cds-NP_1.1;Parent=rna-NM_1.1;protein_id=NP_1.1',
+  'NC_000001.11\tBestRefSeq\tCDS\t5000\t5300\t.\t+\t1\tID=cds-NP_1.1;Parent=rna-NM_1.1;protein_id=NP_1.1',
+  'NC_000001.11\tGnomon\tgene\t4000\t4500\t.\t-\t.\tID=gene-XYZ;Name=XYZ;Note=50% GC,GC%2Crich',
+  'NC_000002.12\tBestRefSeq\tgene\t100\t200\t.\t+\t.\tID=gene-DEF;Name=DEF',
+  '##FASTA',
+  '>NC_000001.11',
+  'ACGT',
+].join('\n');
+
+const GTF = [
+  '#gtf-version 2.2',
+  'NC_000001.11\tBestRefSeq\tgene\t1000\t9000\t.\t+\t.\tgene_id "ABC1"; transcript_id ""; gene "ABC1";',
+  'NC_000001.11\tBestRefSeq\ttranscript\t1000\t9000\t.\t+\t.\tgene_id "ABC1"; transcript_id "NM_1.1"; tag "RefSeq Select"; tag "MANE";',
+  'NC_000001.11\tBestRefSeq\texon\t1000\t1200\t.\t+\t.\tgene_id "ABC1"; transcript_id "NM_1.1"; exon_number "1";',
+  'NC_000001.11\tBestRefSeq\tCDS\t1100\t1200\t.\t+\t0\tgene_id "ABC1"; transcript_id "NM_1.1"; protein_id "NP_1.1";',
+  'NC_000001.11\tRefSeq\tgene\t20000\t20300\t.\t+\t.\tgene_id "b0001"; transcript_id "";',
+  'NC_000001.11\tRefSeq\tCDS\t20000\t20297\t.\t+\t0\tgene_id "b0001"; transcript_id "unassigned_transcript_1";',
+].join('\n');
+
+describe('annotation parsing', () => {
+  it('reads GFF3 columns, decodes attributes and stops at the FASTA section', () => {
+    const features = parseAnnotation(GFF3, 'gff3');
+    assert.equal(features.length, 9);
+    const mrna = features[1];
+    assert.deepEqual(
+      [mrna.id, mrna.type, mrna.start, mrna.end, mrna.strand, mrna.parent_ids, mrna.attributes.product],
+      ['rna-NM_1.1', 'mRNA', 1000, 9000, '+', ['gene-ABC1'], 'ABC, transporter']
+    );
+    // A % that does not start an escape is kept, without losing the values around it
+    assert.equal(features[7].attributes.Note, '50% GC,GC,rich');
+    assert.equal(features[6].phase, 1);
+    assert.equal(features[0].phase, undefined);
+  });
+
+  it('links GTF lines to their transcript, or to the gene when the transcript has no line of its own', () => {
+    const features = parseAnnotation(GTF, 'gtf');
+    assert.deepEqual(features.map((feature) => [feature.id, feature.parent_ids]), [
+      ['ABC1', []],
+      ['NM_1.1', ['ABC1']],
+      ['exon:NC_000001.11:1000-1200', ['NM_1.1']],
+      ['CDS:NC_000001.11:1100-1200', ['NM_1.1']],
+      ['b0001', []],
+      ['CDS:NC_000001.11:20000-20297', ['b0001']],
+    ]);
+    assert.equal(features[1].attributes.tag, 'RefSeq Select,MANE');
+  });
+});
+
+describe('annotation index', () => {
+  const index = new AnnotationIndex(parseAnnotation(GFF3, 'gff3'));
+  const ids = (features: { id: string }[]) => features.map((feature) => feature.id);
+
+  it('finds features overlapping a region, including long ones that start before it', () => {
+    assert.deepEqual(ids(index.overlapping('NC_000001.11', 4200, 4300)), ['gene-ABC1', 'rna-NM_1.1', 'gene-XYZ']);
+    assert.deepEqual(ids(index.overlapping('NC_000001.11', 1201, 3999)), ['gene-ABC1', 'rna-NM_1.1']);
+    assert.deepEqual(ids(index.overlapping('NC_000001.11', 9001, 10000)), []);
+    assert.deepEqual(ids(index.overlapping('NC_000002.12')), ['gene-DEF']);
+  });
+
+  it('filters by type, name and top level', () => {
+    assert.deepEqual(ids(index.query({ types: ['gene'] })), ['gene-ABC1', 'gene-XYZ', 'gene-DEF']);
+    assert.deepEqual(ids(index.query({ types: ['exon', 'cds'], seqid: 'NC_000001.11', start: 5100, end: 5100 })), ['exon-NM_1.1-2', 'cds-NP_1.1']);
+    assert.deepEqual(ids(index.query({ name: 'hs_0001' })), ['gene-ABC1']);
+    assert.deepEqual(ids(index.query({ seqid: 'NC_000001.11', topLevel: true })), ['gene-ABC1', 'gene-XYZ']);
+    assert.throws(() => index.query({ seqid: 'NC_000003.12' }), /No annotation on sequence NC_000003\.12/);
+  });
+
+  it('walks from genes to transcripts, exons and CDSs and back', () => {
+    assert.deepEqual(ids(index.childrenOf('gene-ABC1')), ['rna-NM_1.1']);
+    assert.deepEqual(ids(index.childrenOf('rna-NM_1.1')), [
+      'exon-NM_1.1-1', 'exon-NM_1.1-2', 'exon-NM_1.1-3', 'cds-NP_1.1', 'cds-NP_1.1',
+    ]);
+    const [cds] = index.feature('cds-NP_1.1');
+    assert.equal(index.feature('cds-NP_1.1').length, 2);
+    assert.deepEqual(ids(index.ancestorsOf(cds)), ['rna-NM_1.1', 'gene-ABC1']);
+  });
+});
+
+describe('get_genome_annotation', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('downloads the GFF3 once and answers later queries from the workspace', async () => {
+    const first = await harness.callTool('get_genome_annotation', { accession: 'GCF_000005845.2', chromosome: 'NC_000913.3', start_position: 300, end_position: 400 });
+    assert.equal(first.isError, false, first.text);
+    assert.equal(first.json.source.downloaded, true);
+    assert.deepEqual(first.json.features.map((feature: any) => feature.id), ['NC_000913.3:1..2799', 'gene-b0002', 'cds-NP_414543.1']);
+    assert.deepEqual(harness.mock.requests.map((request) => [request.path, request.query.include_annotation_type]), [
+      ['/genome/accession/GCF_000005845.2/download', 'GENOME_GFF'],
+    ]);
+
+    harness.mock.reset();
+    const second = await harness.callTool('get_genome_annotation', { accession: 'GCF_000005845.2', gene: 'thrL', feature_type: 'CDS' });
+    assert.equal(second.json.source.downloaded, false);
+    assert.deepEqual(harness.mock.requests, []);
+    assert.equal(second.json.features[0].attributes.protein_id, 'NP_414542.1');
+    assert.deepEqual(second.json.features[0].parent_ids, ['gene-b0001']);
+  });
+
+  it('nests children and pages through features', async () => {
+    const genes = await harness.callTool('get_genome_annotation', { accession: 'GCF_000005845.2', feature_type: 'gene', include_children: true, max_results: 1 });
+    assert.equal(genes.json.total_count, 2);
+    assert.equal(genes.json.page_token, '1');
+    assert.equal(genes.json.features[0].attributes.Name, 'thrL');
+    assert.deepEqual(genes.json.features[0].children.map((child: any) => child.id), ['cds-NP_414542.1']);
+
+    const next = await harness.callTool('get_genome_annotation', { accession: 'GCF_000005845.2', feature_type: 'gene', max_results: 1, page_token: genes.json.page_token });
+    assert.equal(next.json.features[0].attributes.Name, 'thrA');
+    assert.equal(next.json.page_token, undefined);
+  });
+
+  it('returns a feature with its ancestors', async () => {
+    const result = await harness.callTool('get_genome_annotation', { accession: 'GCF_000005845.2', feature_id: 'cds-NP_414543.1' });
+    assert.deepEqual(result.json.ancestors.map((feature: any) => feature.id), ['gene-b0002']);
+    assert.deepEqual([result.json.features[0].start, result.json.features[0].end], [337, 2799]);
+  });
+
+  it('rejects unknown features, sequences and regions without a chromosome', async () => {
+    const unknown = await harness.callTool('get_genome_annotation', { accession: 'GCF_000005845.2', feature_id: 'gene-b9999' });
+    assert.match(unknown.text, /No feature with ID gene-b9999/);
+    const sequence = await harness.callTool('get_genome_annotation', { accession: 'GCF_000005845.2', chromosome: 'NC_000914.1' });
+    assert.match(sequence.text, /No annotation on sequence NC_000914\.1/);
+    const region = await harness.callTool('get_genome_annotation', { accession: 'GCF_000005845.2', start_position: 100 });
+    assert.match(region.text, /start_position and end_position need a chromosome/);
+    const fractional = await harness.callTool('get_genome_annotation', { accession: 'GCF_000005845.2', chromosome: 'NC_000913.3', start_position: 100.5 });
+    assert.match(fractional.text, /start_position must be an integer/);
+  });
+});
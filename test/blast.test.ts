@@ -0,0 +1,232 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { organismEntrezQuery, parseBlastJson2, parseBlastTabular, queryTypeOf, runBlastSearch } from '../src/blast.js';
+import { reverseComplement } from '../src/sequences.js';
+import { Harness, startHarness } from './harness.js';
+import { loadFixture } from './mock-ncbi-server.js';
+
+const THRL = 'ATGAAACGCATTAGCACCACCATTACCACCACCATCACCATTACCACAGGTAACGGTGCGGGCTGA';
+
+// Shell wrappers around fake-blast-plus.js standing in for the BLAST+ binaries; each call is logged
+const installFakeBlastPlus = async (directory: string) => {
+  const script = fileURLToPath(new URL('./fake-blast-plus.js', import.meta.url));
+  const log = path.join(directory, 'calls.jsonl');
+  const binaries: Record<string, string> = {};
+  for (const name of ['makeblastdb', 'blastn', 'blastp']) {
+    binaries[name] = path.join(directory, name);
+    await fs.writeFile(binaries[name], `#!/bin/sh\nexec "${process.execPath}" "${script}" ${name} "${log}" "$@"\n`, { mode: 0o755 });
+  }
+  const calls = async (): Promise<Array<{ tool: string; args: string[] }>> =>
+    (await fs.readFile(log, 'utf8').catch(() => '')).split('\n').filter(Boolean).map((line) => JSON.parse(line));
+  return { binaries, calls };
+};
+
+describe('BLAST output parsing', () => {
+  it('reads one hit per HSP from JSON2', async () => {
+    const hits = parseBlastJson2(await loadFixture('blast-json2'));
+    assert.equal(hits.length, 2);
+    assert.equal(hits[1].accession, 'CP009072.1');
+    assert.equal(hits[1].percent_identity, 96.97);
+    assert.equal(hits[1].subject_strand, 'minus');
+    assert.deepEqual([hits[1].subject_start, hits[1].subject_end], [4912034, 4911969]);
+  });
+
+  it('reads tabular output with and without a fields line', () => {
+    const outfmt6 = 'thrL\tref|NC_000913.3|\t100.000\t66\t0\t0\t1\t66\t190\t255\t2.1e-24\t122\n';
+    assert.deepEqual(parseBlastTabular(outfmt6), [{
+      accession: 'NC_000913.3',
+      percent_identity: 100,
+      alignment_length: 66,
+      mismatches: 0,
+      gap_opens: 0,
+      evalue: 2.1e-24,
+      bit_score: 122,
+      query_start: 1,
+      query_end: 66,
+      subject_start: 190,
+      subject_end: 255,
+      subject_strand: 'plus',
+    }]);
+
+    const outfmt7 = [
+      '# BLASTN 2.16.0+',
+      '# Query: thrL',
+      '# Fields: query acc.ver, subject acc.ver, % identity, alignment length, mismatches, gap opens, q. start, q. end, s. start, s. end, evalue, bit score, subject tax id',
+      '# 1 hits found',
+      'thrL\tCP009072.1\t96.970\t66\t2\t0\t1\t66\t4912034\t4911969\t4.6e-21\t111\t1322345',
+    ].join('\n');
+    const [hit] = parseBlastTabular(outfmt7);
+    assert.equal(hit.accession, 'CP009072.1');
+    assert.equal(hit.taxid, 1322345);
+    assert.equal(hit.subject_strand, 'minus');
+  });
+
+  it('tells nucleotide from protein queries and builds organism filters', () => {
+    assert.equal(queryTypeOf(`>thrL\n${THRL}`), 'nucleotide');
+    assert.equal(queryTypeOf('MKRISTTITTTITITTGNGAG'), 'protein');
+    assert.equal(organismEntrezQuery(562), 'txid562[Organism:exp]');
+    assert.equal(organismEntrezQuery('Escherichia coli'), '"Escherichia coli"[Organism:exp]');
+  });
+});
+
+describe('blast_search', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('picks blastp against nr for protein queries', async () => {
+    const result = await harness.callTool('blast_search', { query_sequence: 'MKRISTTITTTITITTGNGAG', organism_filter: '562' });
+    assert.equal(result.isError, false, result.text);
+    assert.equal(result.json.program, 'blastp');
+    assert.equal(result.json.database, 'nr');
+    const [put] = harness.mock.requests;
+    assert.deepEqual([put.body.PROGRAM, put.body.DATABASE, put.body.ENTREZ_QUERY, put.body.MEGABLAST], ['blastp', 'nr', 'txid562[Organism:exp]', undefined]);
+  });
+
+  it('maps databases to BLAST names', async () => {
+    const result = await harness.callTool('blast_search', { query_sequence: THRL, database: 'refseq_genomic', megablast: false });
+    assert.equal(result.json.blast_database, 'refseq_genomes');
+    assert.equal(harness.mock.requests[0].body.MEGABLAST, undefined);
+  });
+
+  it('skips fetching results when there are no hits', async () => {
+    const result = await harness.callTool('blast_search', { query_sequence: `>NOHITS\n${THRL}` });
+    assert.equal(result.isError, false, result.text);
+    assert.equal(result.json.hit_count, 0);
+    assert.equal(harness.mock.requests.filter((request) => request.query.FORMAT_TYPE).length, 0);
+  });
+
+  it('reports failed searches and mismatched programs', async () => {
+    const failed = await harness.callTool('blast_search', { query_sequence: `>BLASTFAIL\n${THRL}` });
+    assert.equal(failed.isError, true);
+    assert.match(failed.text, /BLAST search MOCKRID\d+ failed at NCBI/);
+
+    const mismatched = await harness.callTool('blast_search', { query_sequence: THRL, program: 'blastp' });
+    assert.match(mismatched.text, /blastp needs a protein query and a protein database; got a nucleotide query and nr \(protein\)/);
+    assert.equal(harness.mock.requests.length, 3, 'a mismatched program is rejected before submitting');
+  });
+
+  it('needs BLAST+ binaries for local searches', async () => {
+    const result = await harness.callTool('blast_search', { query_sequence: THRL, backend: 'local', subject_files: ['genome.fna'] });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Subject file genome\.fna does not exist in the workspace/);
+
+    await fs.writeFile(path.join(harness.workspace, 'genome.fna'), `>s1\n${THRL}\n`);
+    const unconfigured = await harness.callTool('blast_search', { query_sequence: THRL, subject_files: ['genome.fna'] });
+    assert.match(unconfigured.text, /Local BLAST needs makeblastdb; set NCBI_MAKEBLASTDB_PATH/);
+  });
+
+  it('deletes the search at NCBI when cancelled', async () => {
+    const controller = new AbortController();
+    const options = { url: harness.mock.blastUrl, pollIntervalMs: 60000, timeoutMs: 120000, local: { programs: {} } };
+    const search = { program: 'blastn' as const, database: 'nt', query: THRL, expect: 10, hitlistSize: 5 };
+    const running = runBlastSearch(axios.create(), options, search, { signal: controller.signal });
+
+    // Cancel while waiting between status checks, once the RID has arrived
+    while (!harness.mock.requests.length) await new Promise((resolve) => setTimeout(resolve, 5));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    controller.abort();
+    await assert.rejects(running, /BLAST search MOCKRID\d+ cancelled/);
+
+    while (harness.mock.requests.length < 2) await new Promise((resolve) => setTimeout(resolve, 5));
+    assert.equal(harness.mock.requests[1].query.CMD, 'Delete');
+  });
+});
+
+describe('blast_search with local BLAST+', () => {
+  let harness: Harness;
+  let binDirectory: string;
+  let fake: Awaited<ReturnType<typeof installFakeBlastPlus>>;
+
+  before(async () => {
+    binDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'fake-blast-plus-'));
+    fake = await installFakeBlastPlus(binDirectory);
+    harness = await startHarness({
+      NCBI_MAKEBLASTDB_PATH: fake.binaries.makeblastdb,
+      NCBI_BLASTN_PATH: fake.binaries.blastn,
+      NCBI_BLASTP_PATH: fake.binaries.blastp,
+    });
+  });
+
+  after(async () => {
+    await harness.close();
+    await fs.rm(binDirectory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('builds a database from an assembly once and reuses it', async () => {
+    const first = await harness.callTool('blast_search', { query_sequence: `>thrL\n${THRL}`, subject_assemblies: ['GCF_000005845.2'] });
+    assert.equal(first.isError, false, first.text);
+    assert.equal(first.json.backend, 'local');
+    assert.equal(first.json.program, 'blastn');
+    assert.equal(first.json.database.built, true);
+    assert.deepEqual(first.json.database.downloaded_assemblies, ['GCF_000005845.2']);
+    assert.deepEqual(harness.mock.requests.map((request) => request.path), ['/genome/accession/GCF_000005845.2/download']);
+    assert.deepEqual(first.json.hits, [{
+      accession: 'NC_000913.3',
+      title: 'Escherichia coli str. K-12 substr. MG1655, complete genome (excerpt)',
+      subject_length: 2799,
+      percent_identity: 100,
+      alignment_length: 66,
+      mismatches: 0,
+      gap_opens: 0,
+      evalue: 1e-20,
+      bit_score: 122,
+      query_start: 1,
+      query_end: 66,
+      subject_start: 190,
+      subject_end: 255,
+      subject_strand: 'plus',
+    }]);
+
+    harness.mock.reset();
+    const reverse = await harness.callTool('blast_search', { query_sequence: reverseComplement(THRL), subject_assemblies: ['GCF_000005845.2'], megablast: false });
+    assert.equal(reverse.json.database.built, false);
+    assert.deepEqual(harness.mock.requests, []);
+    assert.deepEqual([reverse.json.hits[0].subject_start, reverse.json.hits[0].subject_end, reverse.json.hits[0].subject_strand], [255, 190, 'minus']);
+
+    const calls = await fake.calls();
+    assert.deepEqual(calls.map((call) => call.tool), ['makeblastdb', 'blastn', 'blastn']);
+    assert.deepEqual(calls[0].args.slice(calls[0].args.indexOf('-dbtype'), calls[0].args.indexOf('-dbtype') + 2), ['-dbtype', 'nucl']);
+    assert.deepEqual(calls.slice(1).map((call) => call.args[call.args.indexOf('-task') + 1]), ['megablast', 'blastn']);
+  });
+
+  it('searches protein FASTA files from the workspace with blastp', async () => {
+    await fs.writeFile(path.join(harness.workspace, 'thr.faa'), '>NP_414542.1 thr operon leader peptide\nMKRISTTITTTITITTGNGAG\n');
+    const result = await harness.callTool('blast_search', { query_sequence: 'TTITTTITIT', subject_files: ['thr.faa'], evalue_threshold: 10 });
+    assert.equal(result.isError, false, result.text);
+    assert.equal(result.json.program, 'blastp');
+    assert.deepEqual([result.json.hits[0].accession, result.json.hits[0].subject_start], ['NP_414542.1', 6]);
+  });
+
+  it('rejects unusable subjects and surfaces BLAST+ errors', async () => {
+    const outside = await harness.callTool('blast_search', { query_sequence: THRL, subject_files: ['../outside.fna'] });
+    assert.match(outside.text, /Subject file \.\.\/outside\.fna is outside the workspace directory/);
+
+    const unconfigured = await harness.callTool('blast_search', { query_sequence: 'MKRISTTITTTITITTGNGAG', subject_assemblies: ['GCF_000005845.2'] });
+    assert.match(unconfigured.text, /Local BLAST has no tblastn binary; set NCBI_TBLASTN_PATH/);
+
+    const remote = await harness.callTool('blast_search', { query_sequence: THRL, backend: 'ncbi', subject_assemblies: ['GCF_000005845.2'] });
+    assert.match(remote.text, /searched with backend "local"/);
+
+    await fs.writeFile(path.join(harness.workspace, 'duplicates.fna'), `>s1\n${THRL}\n>s1\n${THRL}\n`);
+    const duplicates = await harness.callTool('blast_search', { query_sequence: THRL, subject_files: ['duplicates.fna'] });
+    assert.match(duplicates.text, /makeblastdb exited with 1: BLAST Database creation error: Error: Duplicate seq_ids are found/);
+    // A failed build is not reused
+    assert.equal((await fs.readdir(path.join(harness.workspace, 'blastdb'))).length, 2);
+  });
+});
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { attachResponseCache, CacheOptions, DEFAULT_TTL_RULES, ResponseCache } from '../src/cache.js';
+import { MockNCBIServer } from './mock-ncbi-server.js';
+
+const cacheOptions = (overrides: Partial<CacheOptions> = {}): CacheOptions => ({
+  enabled: true,
+  defaultTtlMs: 60000,
+  maxEntries: 100,
+  maxDiskEntries: 100,
+  rules: DEFAULT_TTL_RULES,
+  ...overrides,
+});
+
+const response = (data: unknown) => ({ status: 200, headers: { 'content-type': 'application/json' }, data });
+
+describe('response cache', () => {
+  const mock = new MockNCBIServer();
+  let directory: string;
+
+  before(async () => {
+    await mock.start();
+  });
+
+  after(async () => {
+    await mock.stop();
+  });
+
+  beforeEach(async () => {
+    mock.reset();
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ncbi-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('serves repeated GETs from memory and keeps answering when the disk cannot be written', async () => {
+    // A regular file where the cache directory should be makes every write fail
+    const blocker = path.join(directory, 'blocker');
+    await fs.writeFile(blocker, '');
+    const client = axios.create({ baseURL: mock.baseUrl });
+    attachResponseCache(client, new ResponseCache(cacheOptions({ directory: path.join(blocker, 'cache') })));
+
+    const first = await client.get('/taxonomy/taxon/9606');
+    const second = await client.get('/taxonomy/taxon/9606');
+    assert.equal(first.data.taxonomy_nodes[0].taxonomy.tax_id, 9606);
+    assert.equal(second.headers['x-ncbi-cache'], 'HIT');
+    assert.equal(mock.requests.length, 1);
+  });
+
+  it('writes entries atomically and keeps the directory within maxDiskEntries', async () => {
+    const cache = new ResponseCache(cacheOptions({ directory, maxDiskEntries: 2 }));
+    await cache.set('/gene/id/1', '/gene/id/1', response({ gene: 1 }));
+    await cache.set('/gene/id/2', '/gene/id/2', response({ gene: 2 }));
+    // Make the write order unambiguous at coarse file timestamp resolution
+    for (const name of await fs.readdir(directory)) {
+      const written = JSON.parse(await fs.readFile(path.join(directory, name), 'utf8'));
+      const at = new Date(Date.now() - (written.data.gene === 1 ? 20000 : 10000));
+      await fs.utimes(path.join(directory, name), at, at);
+    }
+    await cache.set('/gene/id/3', '/gene/id/3', response({ gene: 3 }));
+
+    const remaining = await fs.readdir(directory);
+    assert.equal(remaining.length, 2);
+    assert.ok(remaining.every((name) => name.endsWith('.json')));
+
+    // A fresh cache reads the surviving entries back from disk
+    const restarted = new ResponseCache(cacheOptions({ directory }));
+    assert.equal(await restarted.get('/gene/id/1', '/gene/id/1'), undefined);
+    assert.deepEqual((await restarted.get('/gene/id/2', '/gene/id/2'))?.data, { gene: 2 });
+    assert.deepEqual((await restarted.get('/gene/id/3', '/gene/id/3'))?.data, { gene: 3 });
+    assert.equal((await restarted.stats()).disk_entries, 2);
+  });
+});
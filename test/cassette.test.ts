@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { startHarness } from './harness.js';
+
+const API_KEY = 'test-key-0123456789abcdef';
+
+describe('cassette record and replay', () => {
+  let directory: string;
+  let file: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ncbi-cassette-'));
+    file = path.join(directory, 'session.json');
+  });
+
+  after(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('records every request and response with the API key redacted', async () => {
+    const harness = await startHarness({ NCBI_CASSETTE_MODE: 'record', NCBI_CASSETTE_FILE: file, NCBI_API_KEY: API_KEY });
+    try {
+      assert.equal((await harness.callTool('get_genome_info', { accession: 'GCF_000005845.2' })).isError, false);
+      assert.equal((await harness.callTool('search_taxonomy', { query: `coli ${API_KEY}` })).isError, false);
+      assert.equal((await harness.callTool('get_genome_info', { accession: 'GCF_FLAKY.1' })).isError, false);
+      assert.equal((await harness.callTool('get_genome_info', { accession: 'GCF_NOTFOUND.1' })).isError, true);
+    } finally {
+      await harness.close();
+    }
+
+    const text = await fs.readFile(file, 'utf8');
+    assert.ok(!text.includes(API_KEY), 'cassette must not contain the API key');
+    const cassette = JSON.parse(text);
+    assert.equal(cassette.version, 1);
+    assert.deepEqual(
+      cassette.interactions.map((interaction: any) => `${interaction.request.url} ${interaction.response.status}`),
+      [
+        '/genome/accession/GCF_000005845.2/dataset_report 200',
+        '/taxonomy/search 200',
+        '/genome/accession/GCF_FLAKY.1/dataset_report 503',
+        '/genome/accession/GCF_FLAKY.1/dataset_report 200',
+        '/genome/accession/GCF_NOTFOUND.1/dataset_report 404',
+      ]
+    );
+    assert.equal(cassette.interactions[1].request.params.q, 'coli REDACTED');
+    assert.equal(cassette.interactions[0].response.data.reports[0].accession, 'GCF_000005845.2');
+  });
+
+  it('replays the session without touching the network', async () => {
+    const harness = await startHarness({ NCBI_CASSETTE_MODE: 'replay', NCBI_CASSETTE_FILE: file, NCBI_API_KEY: API_KEY });
+    try {
+      const genome = await harness.callTool('get_genome_info', { accession: 'GCF_000005845.2' });
+      assert.equal(genome.isError, false, genome.text);
+      assert.equal(genome.json.reports[0].assembly_info.assembly_name, 'ASM584v2');
+
+      const taxonomy = await harness.callTool('search_taxonomy', { query: `coli ${API_KEY}` });
+      assert.equal(taxonomy.json.taxonomy[0].tax_id, 562);
+
+      // The recorded 503 is replayed first, so the retry sees the same sequence as the original session
+      assert.equal((await harness.callTool('get_genome_info', { accession: 'GCF_FLAKY.1' })).isError, false);
+
+      const missing = await harness.callTool('get_genome_info', { accession: 'GCF_NOTFOUND.1' });
+      assert.equal(missing.error.kind, 'not_found');
+      assert.equal(missing.error.http_status, 404);
+
+      assert.equal(harness.mock.requests.length, 0);
+    } finally {
+      await harness.close();
+    }
+  });
+
+  it('fails with a diff when a request was not recorded', async () => {
+    const harness = await startHarness({ NCBI_CASSETTE_MODE: 'replay', NCBI_CASSETTE_FILE: file });
+    try {
+      const result = await harness.callTool('get_genome_info', { accession: 'GCF_000005845.2', include_annotation: false });
+      assert.equal(result.isError, true);
+      assert.match(result.text, /Cassette replay mismatch for GET \/genome\/accession\/GCF_000005845\.2\/dataset_report: no recorded request matches/);
+      assert.match(result.text, /params\.include_annotation_type:\n {4}- recorded: "GENOME_GFF,GENOME_GBFF"\n {4}\+ received: \(none\)/);
+
+      const again = await harness.callTool('get_genome_info', { accession: 'GCF_000005845.2' });
+      assert.equal(again.isError, false, again.text);
+      const repeated = await harness.callTool('get_genome_info', { accession: 'GCF_000005845.2' });
+      assert.match(repeated.text, /all 1 recorded response\(s\) for this request were already used/);
+
+      assert.equal(harness.mock.requests.length, 0);
+    } finally {
+      await harness.close();
+    }
+  });
+});
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { compareGeneContent, genomeMetrics, metricDifferences } from '../src/comparison.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('genome comparison', () => {
+  it('reads metrics from dataset reports, leaving absent values null', () => {
+    const draft = genomeMetrics({
+      accession: 'GCA_000001.1',
+      organism: { organism_name: 'Example' },
+      assembly_info: { assembly_name: 'draft', assembly_level: 'Contig' },
+      assembly_stats: { total_sequence_length: '2000000', gc_percent: 40, contig_n50: 0, number_of_contigs: 150 },
+    });
+    assert.deepEqual([draft.total_sequence_length, draft.contig_n50, draft.scaffold_n50, draft.total_genes, draft.checkm_completeness], [2000000, 0, null, null, null]);
+
+    const reference = { ...draft, accession: 'GCA_000002.1', total_sequence_length: 1000000, contig_n50: 0 };
+    const { percent_difference: difference } = metricDifferences(draft, reference);
+    assert.equal(difference.total_sequence_length, 100);
+    assert.equal(difference.gc_percent, 0);
+    // Differences from a zero or missing reference value are undefined
+    assert.equal(difference.contig_n50, null);
+    assert.equal(difference.total_genes, null);
+  });
+
+  it('matches gene symbols case-insensitively and lists them as first seen', () => {
+    const content = compareGeneContent(new Map([
+      ['A', ['BRCA1', 'TP53', 'XIST', 'TP53']],
+      ['B', ['Brca1', 'Trp53', 'Tp53']],
+      ['C', ['brca1', 'tp53']],
+    ]), 1);
+    assert.deepEqual(content.gene_counts, { A: 3, B: 3, C: 2 });
+    assert.equal(content.shared_count, 2);
+    assert.deepEqual(content.shared, ['BRCA1']);
+    assert.deepEqual(content.unique, { A: { count: 1, symbols: ['XIST'] }, B: { count: 1, symbols: ['Trp53'] }, C: { count: 0, symbols: [] } });
+  });
+});
+
+describe('compare_genomes', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('compares gene content across paged annotation reports against a chosen reference', async () => {
+    // The second annotation page hands back its own page token, which must end the paging rather than loop
+    const result = await harness.callTool('compare_genomes', {
+      accessions: ['GCF_000005845.2', 'GCF_000008865.2'], reference_accession: 'GCF_000008865.2', comparison_type: 'gene_content',
+    });
+    assert.equal(result.isError, false, result.text);
+    assert.deepEqual(harness.mock.requests.map((request) => [request.path, request.query.page_token]), [
+      ['/genome/accession/GCF_000005845.2,GCF_000008865.2/dataset_report', undefined],
+      ['/genome/accession/GCF_000005845.2/annotation_report', undefined],
+      ['/genome/accession/GCF_000005845.2/annotation_report', 'page-2'],
+      ['/genome/accession/GCF_000008865.2/annotation_report', undefined],
+    ]);
+    assert.deepEqual(result.json.differences.map((row: any) => [row.accession, row.percent_difference.checkm_contamination]), [['GCF_000005845.2', -76.47]]);
+
+    const content = result.json.gene_content;
+    assert.deepEqual(content.shared, ['thrL', 'thrA', 'thrB', 'thrC', 'lacZ']);
+    assert.deepEqual(content.unique['GCF_000005845.2'].symbols, ['yaaX', 'ompT']);
+    assert.deepEqual(content.unique['GCF_000008865.2'].symbols, ['stx2A', 'eae']);
+  });
+
+  it('rejects a reference outside the compared accessions and reports missing assemblies', async () => {
+    const outside = await harness.callTool('compare_genomes', { accessions: ['GCF_000005845.2', 'GCF_000008865.2'], reference_accession: 'GCF_000001405.40' });
+    assert.match(outside.text, /reference_accession GCF_000001405\.40 is not one of the compared accessions/);
+    assert.equal(harness.mock.requests.length, 0);
+
+    const missing = await harness.callTool('compare_genomes', { accessions: ['GCF_000005845.2', 'GCF_000001405.40'] });
+    assert.equal(missing.isError, true);
+    assert.match(missing.text, /No dataset report for assembly GCF_000001405\.40/);
+  });
+
+  it('rejects synteny comparisons and orthologs as unsupported', async () => {
+    const accessions = ['GCF_000005845.2', 'GCF_000008865.2'];
+    const synteny = await harness.callTool('compare_genomes', { accessions, comparison_type: 'synteny' });
+    assert.equal(synteny.error.code, ErrorCode.InvalidParams);
+    assert.match(synteny.text, /comparison_type synteny is not supported/);
+
+    const orthologs = await harness.callTool('compare_genomes', { accessions, include_orthologs: true });
+    assert.equal(orthologs.error.code, ErrorCode.InvalidParams);
+    assert.match(orthologs.text, /include_orthologs is not supported; use find_orthologs/);
+    assert.equal(harness.mock.requests.length, 0);
+  });
+});
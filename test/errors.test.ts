@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { NOT_FOUND_ERROR_CODE } from '../src/errors.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('error paths', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('rejects invalid arguments before calling NCBI', async () => {
+    const result = await harness.callTool('search_genomes', { tax_id: 'human', max_results: 5000 });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Invalid arguments for search_genomes: tax_id must be a number; max_results must be <= 1000/);
+    assert.equal(result.error.code, ErrorCode.InvalidParams);
+    assert.deepEqual(result.error.errors.map((error: any) => error.field), ['tax_id', 'max_results']);
+    assert.equal(harness.mock.requests.length, 0);
+  });
+
+  it('rejects fractional values for integer arguments', async () => {
+    const result = await harness.callTool('validate_sequences', { sequences: ['ATGTAA'], sequence_type: 'dna', frame: 1.5, min_n_run: 2.5 });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Invalid arguments for validate_sequences: min_n_run must be an integer; frame must be an integer/);
+
+    const region = await harness.callTool('get_sequence_data', { accession: 'NC_000913.3', start_position: 10.5, genetic_code: 11.2 });
+    assert.match(region.text, /Invalid arguments for get_sequence_data: start_position must be an integer; genetic_code must be an integer/);
+    const paged = await harness.callTool('search_genomes', { tax_id: 562, max_total: 2.5 });
+    assert.match(paged.text, /Invalid arguments for search_genomes: max_total must be an integer/);
+    assert.equal(harness.mock.requests.length, 0);
+  });
+
+  it('reports missing required arguments', async () => {
+    const result = await harness.callTool('get_genome_info', { accession: '' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /accession is required/);
+  });
+
+  it('reports unknown tools', async () => {
+    const result = await harness.callTool('no_such_tool');
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Unknown tool: no_such_tool/);
+    assert.equal(result.error.code, ErrorCode.MethodNotFound);
+  });
+
+  it('maps a 404 to a not_found error with the NCBI message', async () => {
+    const result = await harness.callTool('get_genome_info', { accession: 'GCF_NOTFOUND.1' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Failed to get genome info: NCBI returned HTTP 404 \(No assemblies found that match the selection\)/);
+    assert.equal(result.error.code, NOT_FOUND_ERROR_CODE);
+    assert.equal(result.error.kind, 'not_found');
+    assert.equal(result.error.http_status, 404);
+    assert.equal(result.error.request_id, 'mock-1');
+    assert.equal(harness.mock.requests.length, 1);
+  });
+
+  it('maps a 400 to invalid_request without retrying', async () => {
+    const result = await harness.callTool('get_assembly_info', { assembly_accession: 'BADREQUEST' });
+    assert.equal(result.isError, true);
+    assert.equal(result.error.code, ErrorCode.InvalidParams);
+    assert.equal(result.error.kind, 'invalid_request');
+    assert.equal(harness.mock.requests.length, 1);
+  });
+
+  it('retries a transient 503 and succeeds', async () => {
+    const result = await harness.callTool('get_genome_info', { accession: 'GCF_FLAKY.1' });
+    assert.equal(result.isError, false, result.text);
+    assert.equal(harness.mock.requests.length, 2);
+  });
+
+  it('gives up on a persistent 503 after the configured retries', async () => {
+    const result = await harness.callTool('get_virus_info', { accession: 'UNAVAILABLE' });
+    assert.equal(result.isError, true);
+    assert.equal(result.error.kind, 'upstream_unavailable');
+    assert.equal(result.error.attempts, 3);
+    assert.equal(harness.mock.requests.length, 3);
+  });
+});
@@ -0,0 +1,44 @@
+import { appendFileSync, readFileSync, writeFileSync } from 'fs';
+import { parseFasta, reverseComplement } from '../src/sequences.js';
+
+// Offline stand-in for BLAST+: node fake-blast-plus.js <makeblastdb|blastn|blastp> <log file> [arguments].
+// makeblastdb stores the parsed FASTA as JSON and the search programs report exact matches of each query,
+// on both strands for nucleotides, as -outfmt 6 rows with the requested columns.
+const [tool, log, ...args] = process.argv.slice(2);
+appendFileSync(log, `${JSON.stringify({ tool, args })}\n`);
+
+const option = (name: string) => args[args.indexOf(name) + 1];
+const readStdin = () => readFileSync(0, 'utf8');
+
+if (tool === 'makeblastdb') {
+  const records = parseFasta(readFileSync(option('-in'), 'utf8'));
+  const ids = records.map((record) => record.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    process.stderr.write(`BLAST Database creation error: Error: Duplicate seq_ids are found:\nLCL|${duplicate}\n`);
+    process.exit(1);
+  }
+  writeFileSync(`${option('-out')}.fake.json`, JSON.stringify({ dbtype: option('-dbtype'), records }));
+} else {
+  const { records } = JSON.parse(readFileSync(`${option('-db')}.fake.json`, 'utf8'));
+  const columns = option('-outfmt').split(' ').slice(1);
+  const rows: string[] = [];
+  for (const query of parseFasta(readStdin(), 'Query_1')) {
+    const sequence = query.sequence.toUpperCase();
+    for (const subject of records) {
+      const strands = tool === 'blastn' ? [['plus', sequence], ['minus', reverseComplement(sequence)]] : [['plus', sequence]];
+      for (const [strand, target] of strands) {
+        const index = subject.sequence.toUpperCase().indexOf(target);
+        if (index < 0) continue;
+        const [start, end] = strand === 'plus' ? [index + 1, index + target.length] : [index + target.length, index + 1];
+        const values: Record<string, string | number> = {
+          qaccver: query.id, saccver: subject.id, pident: '100.000', length: target.length, mismatch: 0, gapopen: 0,
+          qstart: 1, qend: target.length, sstart: start, send: end, evalue: '1.00e-20', bitscore: Math.round(target.length * 1.85),
+          slen: subject.sequence.length, stitle: subject.description,
+        };
+        rows.push(columns.map((column) => values[column]).join('\t'));
+      }
+    }
+  }
+  process.stdout.write(rows.slice(0, Number(option('-max_target_seqs'))).map((row) => `${row}\n`).join(''));
+}
@@ -0,0 +1,6 @@
+// Not a tool: the handler is missing
+export default {
+  name: 'lab_broken',
+  description: 'A tool without a handler',
+  inputSchema: { type: 'object', properties: {} },
+};
@@ -0,0 +1,16 @@
+// Plugin with a default export, requesting NCBI through the shared client
+export default {
+  name: 'lab_taxon_name',
+  category: 'taxonomy',
+  description: 'Scientific name of a taxon, as an internal tool would look it up',
+  inputSchema: {
+    type: 'object',
+    properties: { tax_id: { type: 'number', description: 'NCBI taxonomy ID' } },
+    required: ['tax_id'],
+  },
+  handler: async (args, { apiClient }) => {
+    const response = await apiClient.get(`/taxonomy/taxon/${args.tax_id}`);
+    const name = response.data.taxonomy_nodes[0].taxonomy.organism_name;
+    return { content: [{ type: 'text', text: JSON.stringify({ tax_id: args.tax_id, name }) }] };
+  },
+};
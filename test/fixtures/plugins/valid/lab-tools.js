@@ -0,0 +1,9 @@
+// Plugin exporting several tools as `tools`, without category or required arguments
+const echo = (name) => ({
+  name,
+  description: `Echo the message back (${name})`,
+  inputSchema: { type: 'object', properties: { message: { type: 'string', description: 'Text to echo' } } },
+  handler: async (args) => ({ content: [{ type: 'text', text: JSON.stringify({ tool: name, message: args.message }) }] }),
+});
+
+export const tools = [echo('lab_echo'), echo('lab_shout')];
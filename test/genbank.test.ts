@@ -0,0 +1,158 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { fileURLToPath } from 'url';
+import { genbankAnnotation } from '../src/annotation.js';
+import { parseGenbank, parseLocation, readGenbankRecords } from '../src/genbank.js';
+import { Harness, startHarness } from './harness.js';
+
+const GBFF_FIXTURE = fileURLToPath(new URL(
+  '../../test/fixtures/genome-package/ncbi_dataset/data/GCF_000005845.2/genomic.gbff', import.meta.url));
+
+// Two records: a spliced eukaryotic mRNA and a short protein-coding contig with a reference block
+const TEXT = `LOCUS       NM_000001               1500 bp    mRNA    linear   PRI 01-JAN-2024
+DEFINITION  Homo sapiens ABC transporter 1 (ABC1), transcript variant 1,
+            mRNA.
+ACCESSION   NM_000001 XM_000001
+VERSION     NM_000001.2
+KEYWORDS    RefSeq; MANE Select.
+SOURCE      Homo sapiens (human)
+  ORGANISM  Homo sapiens
+            Eukaryota; Metazoa; Chordata; Mammalia; Primates; Hominidae;
+            Homo.
+REFERENCE   1  (bases 1 to 1500)
+  AUTHORS   Doe,J.
+  TITLE     A transporter
+  JOURNAL   Unpublished
+FEATURES             Location/Qualifiers
+     source          1..1500
+                     /organism="Homo sapiens"
+                     /db_xref="taxon:9606"
+     gene            1..1500
+                     /gene="ABC1"
+                     /db_xref="GeneID:1"
+                     /db_xref="HGNC:HGNC:1"
+     CDS             join(<100..200,300..400,
+                     J00194.1:1..50,500..>600)
+                     /gene="ABC1"
+                     /note="a ""quoted"" word and a /slash
+                     /wrapped onto a qualifier-like line"
+                     /protein_id="NP_000001.1"
+                     /translation="MKRISTT
+                     ITTT"
+     misc_feature    complement(700^701)
+                     /pseudo
+ORIGIN
+        1 acgtacgtac gtacgtacgt
+       21 aaaa
+//
+LOCUS       NC_000002                 30 bp    DNA     linear   CON 01-JAN-2024
+ACCESSION   NC_000002
+VERSION     NC_000002.1
+FEATURES             Location/Qualifiers
+     misc_feature    J00194.1:1..10
+                     /note="remote only"
+//
+`;
+
+describe('GenBank parsing', () => {
+  const [mrna, contig] = parseGenbank(TEXT);
+
+  it('reads LOCUS, DEFINITION, ACCESSION and the organism', () => {
+    assert.deepEqual(mrna.locus, { name: 'NM_000001', length: 1500, molecule_type: 'mRNA', topology: 'linear', division: 'PRI', date: '01-JAN-2024' });
+    assert.equal(mrna.definition, 'Homo sapiens ABC transporter 1 (ABC1), transcript variant 1, mRNA');
+    assert.deepEqual([mrna.accession, mrna.version, mrna.keywords], ['NM_000001', 'NM_000001.2', 'RefSeq; MANE Select']);
+    assert.equal(mrna.organism, 'Homo sapiens');
+    assert.deepEqual(mrna.lineage, ['Eukaryota', 'Metazoa', 'Chordata', 'Mammalia', 'Primates', 'Hominidae', 'Homo']);
+    assert.equal(mrna.sequence, 'acgtacgtacgtacgtacgtaaaa');
+  });
+
+  it('reads features with wrapped locations and qualifiers', () => {
+    assert.deepEqual(mrna.features.map((feature) => feature.key), ['source', 'gene', 'CDS', 'misc_feature']);
+    const cds = mrna.features[2];
+    assert.equal(cds.location, 'join(<100..200,300..400,J00194.1:1..50,500..>600)');
+    assert.deepEqual([cds.start, cds.end, cds.strand, cds.partial_start, cds.partial_end], [100, 600, '+', true, true]);
+    assert.deepEqual(cds.segments, [{ start: 100, end: 200 }, { start: 300, end: 400 }, { start: 500, end: 600 }]);
+    assert.equal(cds.qualifiers.note, 'a "quoted" word and a /slash /wrapped onto a qualifier-like line');
+    assert.equal(cds.qualifiers.translation, 'MKRISTTITTT');
+    assert.equal(mrna.features[1].qualifiers.db_xref, 'GeneID:1,HGNC:HGNC:1');
+    assert.deepEqual(mrna.features[3].qualifiers, { pseudo: 'true' });
+    assert.equal(mrna.features[3].strand, '-');
+  });
+
+  it('keeps records without ORIGIN and drops features that lie only on other sequences', () => {
+    assert.equal(contig.version, 'NC_000002.1');
+    assert.equal(contig.sequence, undefined);
+    assert.deepEqual(contig.features, []);
+  });
+
+  it('parses single bases, sites and complements', () => {
+    assert.deepEqual(parseLocation('complement(join(10..20,30..40))'), {
+      start: 10, end: 40, strand: '-', segments: [{ start: 10, end: 20 }, { start: 30, end: 40 }],
+    });
+    assert.deepEqual(parseLocation('7'), { start: 7, end: 7, strand: '+', segments: [{ start: 7, end: 7 }] });
+  });
+
+  it('streams records from a file, leaving out the sequence unless asked', async () => {
+    const records = [];
+    for await (const record of readGenbankRecords(GBFF_FIXTURE)) records.push(record);
+    assert.equal(records.length, 1);
+    assert.equal(records[0].sequence, undefined);
+    assert.equal(records[0].features.find((feature) => feature.qualifiers.protein_id === 'NP_414543.1')?.qualifiers.translation.length, 820);
+
+    for await (const record of readGenbankRecords(GBFF_FIXTURE, { sequence: true })) {
+      assert.equal(record.sequence?.length, record.locus.length);
+    }
+  });
+
+  it('gives features GFF3-style IDs and links them to their genes', async () => {
+    const [record] = parseGenbank(await fs.readFile(GBFF_FIXTURE, 'utf8'));
+    const features = genbankAnnotation(record);
+    assert.deepEqual(features.map((feature) => [feature.id, feature.parent_ids]), [
+      ['source:NC_000913.3:1-2799', []],
+      ['gene-b0001', []],
+      ['cds-NP_414542.1', ['gene-b0001']],
+      ['gene-b0002', []],
+      ['cds-NP_414543.1', ['gene-b0002']],
+    ]);
+    assert.equal(features[2].phase, 0);
+  });
+});
+
+describe('GenBank output in tools', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('queries GenBank features with get_genome_annotation', async () => {
+    const result = await harness.callTool('get_genome_annotation', { accession: 'GCF_000005845.2', file_format: 'genbank', gene: 'thrA', include_children: true });
+    assert.equal(result.isError, false, result.text);
+    assert.deepEqual(harness.mock.requests.map((request) => request.query.include_annotation_type), ['GENOME_GBFF']);
+    const [gene] = result.json.features;
+    assert.deepEqual([gene.id, gene.location], ['gene-b0002', '337..2799']);
+    assert.equal(gene.children[0].attributes.product, 'fused aspartate kinase/homoserine dehydrogenase 1');
+  });
+
+  it('returns the GenBank header and the features of a region with get_sequence_data', async () => {
+    const result = await harness.callTool('get_sequence_data', {
+      accession: 'NC_000913.3', assembly_accession: 'GCF_000005845.2', start_position: 190, end_position: 260, format: 'genbank',
+    });
+    assert.equal(result.isError, false, result.text);
+    assert.equal(result.json.genbank.definition, 'Escherichia coli str. K-12 substr. MG1655, complete genome');
+    assert.equal(result.json.genbank.locus.topology, 'circular');
+    assert.deepEqual(result.json.genbank.features.map((feature: any) => feature.key), ['source', 'gene', 'CDS']);
+    assert.equal(result.json.genbank.features[2].qualifiers.translation, 'MKRISTTITTTITITTGNGAG');
+    assert.equal(result.json.sequences[0].length, 71);
+
+    const protein = await harness.callTool('get_sequence_data', { accession: 'NP_414542.1', format: 'genbank' });
+    assert.match(protein.text, /format "genbank" applies to genomic sequences only/);
+  });
+});
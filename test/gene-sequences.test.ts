@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { GeneReport, geneSequencesFromFasta, parseRegionId, trimFlanks } from '../src/gene-sequences.js';
+import { Harness, startHarness } from './harness.js';
+
+// BRCA1-style records: one transcript with its protein, as in a human gene package
+const REPORTS: GeneReport[] = [{
+  geneId: '672',
+  symbol: 'BRCA1',
+  genomicRanges: [{ accessionVersion: 'NC_000017.11', range: [{ begin: '1000', end: '1100', orientation: 'minus' }] }],
+  transcripts: [{ accessionVersion: 'NM_007294.4', protein: { accessionVersion: 'NP_009225.1' } }],
+}];
+
+describe('gene package sequences', () => {
+  it('parses region IDs on both strands', () => {
+    assert.deepEqual(parseRegionId('NC_000913.3:190-255'), { accession: 'NC_000913.3', start: 190, end: 255, strand: 'plus' });
+    assert.deepEqual(parseRegionId('NC_000017.11:c43125364-43044295'), { accession: 'NC_000017.11', start: 43044295, end: 43125364, strand: 'minus' });
+    assert.equal(parseRegionId('NM_007294.4'), undefined);
+  });
+
+  it('links transcripts, proteins, CDSs and UTRs to their RefSeq accessions', () => {
+    const [transcript] = geneSequencesFromFasta('transcript', '>NM_007294.4 BRCA1 DNA repair associated, mRNA [organism=Homo sapiens] [GeneID=672]\nACGU\n', REPORTS);
+    assert.deepEqual(transcript, {
+      type: 'transcript', id: 'NM_007294.4', accession: 'NM_007294.4', description: 'BRCA1 DNA repair associated, mRNA',
+      gene_id: '672', protein_accession: 'NP_009225.1', length: 4, sequence: 'ACGU',
+    });
+
+    const [protein] = geneSequencesFromFasta('protein', '>NP_009225.1 breast cancer type 1 susceptibility protein [organism=Homo sapiens] [GeneID=672]\nMDLS\n', REPORTS);
+    assert.equal(protein.transcript_accession, 'NM_007294.4');
+    assert.equal(protein.protein_accession, undefined);
+
+    const [cds] = geneSequencesFromFasta('cds', '>NM_007294.4:114-5705 BRCA1 [GeneID=672] [protein_id=NP_009225.1]\nATG\n', REPORTS);
+    assert.deepEqual([cds.accession, cds.transcript_accession, cds.protein_accession], ['NM_007294.4', 'NM_007294.4', 'NP_009225.1']);
+    assert.deepEqual(cds.location, { accession: 'NM_007294.4', start: 114, end: 5705, strand: 'plus' });
+
+    const [utr] = geneSequencesFromFasta('5p_utr', '>NM_007294.4:1-113 BRCA1 [GeneID=672]\nACG\n', REPORTS);
+    assert.deepEqual([utr.transcript_accession, utr.protein_accession], ['NM_007294.4', 'NP_009225.1']);
+  });
+
+  it('trims flanks upstream and downstream of a minus-strand gene', () => {
+    const [flanked] = geneSequencesFromFasta('genomic', `>NC_000017.11:c2000-100 BRCA1\n${'A'.repeat(900)}${'G'.repeat(101)}${'T'.repeat(900)}\n`);
+    const trimmed = trimFlanks(flanked, REPORTS, 50);
+    assert.equal(trimmed.id, 'NC_000017.11:c1150-950');
+    assert.deepEqual(trimmed.flank, { upstream: 50, downstream: 50 });
+    assert.equal(trimmed.sequence, `${'A'.repeat(50)}${'G'.repeat(101)}${'T'.repeat(50)}`);
+  });
+});
+
+describe('get_gene_sequences', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('downloads the gene package and returns linked records with flanks and CDSs', async () => {
+    const result = await harness.callTool('get_gene_sequences', { gene_id: 944742, include_cds: true, flank_length: 100 });
+    assert.equal(result.isError, false, result.text);
+    assert.deepEqual(harness.mock.requests.map((request) => [request.path, request.query.include_annotation_type]), [
+      ['/gene/id/944742/download', 'FASTA_GENE_FLANK,FASTA_RNA,FASTA_PROTEIN,FASTA_CDS'],
+    ]);
+    assert.equal(result.json.symbol, 'thrL');
+    // The fixture holds thrA too; bacterial genes have no transcripts
+    assert.deepEqual(result.json.counts, { genomic: 2, transcript: 0, protein: 2, cds: 2 });
+
+    const [thrL, thrA] = result.json.sequences;
+    assert.deepEqual([thrL.id, thrL.flank, thrL.length], ['NC_000913.3:90-355', { upstream: 100, downstream: 100 }, 266]);
+    assert.equal(thrL.sequence.slice(100, 166), 'ATGAAACGCATTAGCACCACCATTACCACCACCATCACCATTACCACAGGTAACGGTGCGGGCTGA');
+    // Only 336 bases precede thrA, and the genome fixture ends with it
+    assert.deepEqual(thrA.flank, { upstream: 100, downstream: 0 });
+
+    const cds = result.json.sequences.find((sequence: any) => sequence.type === 'cds');
+    assert.deepEqual([cds.accession, cds.protein_accession], ['NC_000913.3', 'NP_414542.1']);
+  });
+
+  it('reuses the package and fetches only annotation types not downloaded before', async () => {
+    const again = await harness.callTool('get_gene_sequences', { gene_id: 944742, sequence_type: 'protein' });
+    assert.equal(again.json.source.type, 'workspace');
+    assert.equal(harness.mock.requests.length, 0);
+    assert.deepEqual(again.json.sequences.map((sequence: any) => sequence.accession), ['NP_414542.1', 'NP_414543.1']);
+
+    const genomic = await harness.callTool('get_gene_sequences', { gene_id: 944742, sequence_type: 'genomic' });
+    assert.equal(genomic.json.sequences[0].id, 'NC_000913.3:190-255');
+    assert.deepEqual(harness.mock.requests.map((request) => request.query.include_annotation_type), ['FASTA_GENE']);
+  });
+
+  it('rejects flanks on transcripts and proteins', async () => {
+    const result = await harness.callTool('get_gene_sequences', { gene_id: 944742, sequence_type: 'protein', flank_length: 10 });
+    assert.match(result.text, /flank_length applies to genomic sequences/);
+  });
+});
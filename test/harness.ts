@@ -0,0 +1,88 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { NCBIDatasetsServer } from '../src/server.js';
+import { MockNCBIServer } from './mock-ncbi-server.js';
+
+// Harness interfaces
+export interface ToolCall {
+  isError: boolean;
+  text: string;
+  // Parsed first text block; undefined when it is not JSON
+  json?: any;
+  // Structured error details from the second text block of an isError result
+  error?: any;
+}
+
+export interface Harness {
+  mock: MockNCBIServer;
+  client: Client;
+  // Temporary NCBI_WORKSPACE_DIR, removed on close
+  workspace: string;
+  server: NCBIDatasetsServer;
+  callTool: (name: string, args?: Record<string, unknown>) => Promise<ToolCall>;
+  close: () => Promise<void>;
+}
+
+const parseJson = (text: string | undefined): any => {
+  if (text === undefined) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// Offline defaults: no cache, no throttling, near-instant retries and quick BLAST status checks
+const TEST_ENV: Record<string, string> = {
+  NCBI_CACHE_ENABLED: 'false',
+  NCBI_RATE_LIMIT: '1000',
+  NCBI_RATE_LIMIT_BURST: '1000',
+  NCBI_MAX_RETRIES: '2',
+  NCBI_RETRY_BASE_DELAY: '1',
+  NCBI_BLAST_POLL_INTERVAL: '10',
+};
+
+// Start the mock NCBI API and an MCP client connected in memory to a server pointed at it
+export const startHarness = async (env: Record<string, string> = {}): Promise<Harness> => {
+  const mock = new MockNCBIServer();
+  await mock.start();
+
+  const workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'ncbi-workspace-'));
+
+  const overrides: Record<string, string> = { ...TEST_ENV, NCBI_BASE_URL: mock.baseUrl, NCBI_BLAST_URL: mock.blastUrl, NCBI_WORKSPACE_DIR: workspace, ...env };
+  const previous = Object.fromEntries(Object.keys(overrides).map((key) => [key, process.env[key]]));
+  Object.assign(process.env, overrides);
+
+  const server = new NCBIDatasetsServer();
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client({ name: 'ncbi-contract-tests', version: '1.0.0' }, { capabilities: {} });
+  await client.connect(clientTransport);
+
+  const callTool = async (name: string, args: Record<string, unknown> = {}): Promise<ToolCall> => {
+    const result = await client.callTool({ name, arguments: args });
+    const blocks = (result.content as Array<{ type: string; text?: string }>) || [];
+    return {
+      isError: result.isError === true,
+      text: blocks[0]?.text ?? '',
+      json: parseJson(blocks[0]?.text),
+      error: result.isError ? parseJson(blocks[1]?.text)?.error : undefined,
+    };
+  };
+
+  const close = async () => {
+    await client.close();
+    await server.close();
+    await mock.stop();
+    await fs.rm(workspace, { recursive: true, force: true });
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  };
+
+  return { mock, client, workspace, server, callTool, close };
+};
@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict';
+import http from 'http';
+import { after, before, describe, it } from 'node:test';
+import { HttpServerHandle, startHttpServer, transportOptionsFromArgs } from '../src/http-server.js';
+import { Harness, startHarness } from './harness.js';
+
+interface SseStream {
+  response: http.IncomingMessage;
+  // Resolves with the data of the next event of the given type
+  next: (event: string) => Promise<string>;
+  ended: Promise<void>;
+}
+
+// Minimal SSE reader; Node has no EventSource
+const openSse = (url: string): Promise<SseStream> =>
+  new Promise((resolve, reject) => {
+    http.get(url, (response) => {
+      const events: Array<{ event: string; data: string }> = [];
+      const waiters: Array<() => void> = [];
+      let buffer = '';
+
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        buffer += chunk;
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+          const block = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          const event = block.match(/^event: (.*)$/m)?.[1] ?? 'message';
+          const data = block.match(/^data: (.*)$/m)?.[1] ?? '';
+          events.push({ event, data });
+          waiters.splice(0).forEach((wake) => wake());
+        }
+      });
+
+      const next = async (event: string): Promise<string> => {
+        for (;;) {
+          const index = events.findIndex((candidate) => candidate.event === event);
+          if (index !== -1) return events.splice(index, 1)[0].data;
+          await new Promise<void>((wake) => waiters.push(wake));
+        }
+      };
+      const ended = new Promise<void>((done) => response.on('close', () => done()));
+      resolve({ response, next, ended });
+    }).on('error', reject);
+  });
+
+const post = async (url: string, body: unknown) =>
+  fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+describe('HTTP transport options', () => {
+  it('defaults to stdio on localhost:3000', () => {
+    assert.deepEqual(transportOptionsFromArgs([], {}), { transport: 'stdio', port: 3000, host: '127.0.0.1', shutdownTimeoutMs: 10000 });
+  });
+
+  it('reads flags before environment variables', () => {
+    const env = { NCBI_TRANSPORT: 'stdio', NCBI_HTTP_PORT: '4000', NCBI_HTTP_HOST: '0.0.0.0' };
+    assert.deepEqual(transportOptionsFromArgs(['--transport', 'sse', '--port=8080'], env), { transport: 'sse', port: 8080, host: '0.0.0.0', shutdownTimeoutMs: 10000 });
+    assert.equal(transportOptionsFromArgs(['--http'], {}).transport, 'sse');
+    assert.equal(transportOptionsFromArgs([], { NCBI_TRANSPORT: 'http' }).transport, 'sse');
+  });
+
+  it('rejects unknown transports and bad ports', () => {
+    assert.throws(() => transportOptionsFromArgs(['--transport', 'websocket'], {}), /Unknown transport "websocket"/);
+    assert.throws(() => transportOptionsFromArgs(['--port', '70000'], {}), /Invalid HTTP port/);
+  });
+});
+
+describe('HTTP transport', () => {
+  let harness: Harness;
+  let httpServer: HttpServerHandle;
+
+  before(async () => {
+    harness = await startHarness();
+    httpServer = await startHttpServer(harness.server, { transport: 'sse', port: 0, host: '127.0.0.1', shutdownTimeoutMs: 1000 });
+  });
+
+  after(async () => {
+    await httpServer.close();
+    await harness.close();
+  });
+
+  it('reports health', async () => {
+    const response = await fetch(`${httpServer.url}/health`);
+    assert.equal(response.status, 200);
+    const body = await response.json();
+    assert.equal(body.status, 'ok');
+    assert.equal(body.sessions, 0);
+  });
+
+  it('serves MCP sessions over SSE that share the server', async () => {
+    const stream = await openSse(`${httpServer.url}/sse`);
+    const endpoint = new URL(await stream.next('endpoint'), httpServer.url).href;
+    assert.match(endpoint, /\/messages\?sessionId=/);
+
+    const initialize = await post(endpoint, {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'http-test', version: '1.0.0' } },
+    });
+    assert.equal(initialize.status, 202);
+    assert.equal(JSON.parse(await stream.next('message')).result.serverInfo.name, 'ncbi-datasets-server');
+    await post(endpoint, { jsonrpc: '2.0', method: 'notifications/initialized' });
+
+    await post(endpoint, { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'search_taxonomy', arguments: { query: 'Escherichia coli' } } });
+    const result = JSON.parse(await stream.next('message')).result;
+    assert.equal(JSON.parse(result.content[0].text).taxonomy[0].tax_id, 562);
+
+    const health = await (await fetch(`${httpServer.url}/health`)).json();
+    assert.equal(health.sessions, 1);
+    // The in-memory harness client plus this SSE session
+    assert.equal(health.connections, 2);
+
+    stream.response.destroy();
+    await stream.ended;
+  });
+
+  it('rejects messages for unknown sessions', async () => {
+    const response = await post(`${httpServer.url}/messages?sessionId=nope`, { jsonrpc: '2.0', id: 1, method: 'ping' });
+    assert.equal(response.status, 404);
+  });
+
+  it('ends open SSE streams on shutdown', async () => {
+    const stream = await openSse(`${httpServer.url}/sse`);
+    await stream.next('endpoint');
+    await httpServer.close();
+    await stream.ended;
+    await assert.rejects(fetch(`${httpServer.url}/health`));
+  });
+});
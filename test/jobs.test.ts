@@ -0,0 +1,156 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { JobManager } from '../src/jobs.js';
+import { Harness, startHarness } from './harness.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const textResult = (text: string) => ({ content: [{ type: 'text', text }] });
+
+// A job that runs until the test resolves it
+const controllableJob = () => {
+  let finish!: (text: string) => void;
+  let report!: (progress: number, total?: number) => void;
+  let signal!: AbortSignal;
+  const run = (jobSignal: AbortSignal, reportProgress: (progress: number, total?: number) => void) => {
+    signal = jobSignal;
+    report = reportProgress;
+    return new Promise<ReturnType<typeof textResult>>((resolve) => { finish = (text) => resolve(textResult(text)); });
+  };
+  return { run, finish: (text: string) => finish(text), report: (progress: number, total?: number) => report(progress, total), signal: () => signal };
+};
+
+describe('job manager', () => {
+  it('reports progress and keeps the result after completion', async () => {
+    const jobs = new JobManager({ resultTtlMs: 60000, maxRunning: 5 });
+    const job = controllableJob();
+    const { job_id, status } = jobs.start('slow_tool', job.run);
+    assert.equal(status, 'running');
+
+    job.report(3, 10);
+    assert.deepEqual(jobs.status(job_id).progress, { progress: 3, total: 10 });
+    await assert.rejects(jobs.result(job_id), /Job job_\w+ is still running \(progress 3\/10\)/);
+
+    // A waiting caller receives progress until the job finishes
+    const forwarded: number[] = [];
+    const waiting = jobs.result(job_id, 5000, (progress) => forwarded.push(progress));
+    job.report(7, 10);
+    job.finish('done');
+    assert.deepEqual(await waiting, textResult('done'));
+    assert.deepEqual(forwarded, [7]);
+
+    const finished = jobs.status(job_id);
+    assert.equal(finished.status, 'completed');
+    assert.ok(finished.finished_at && finished.expires_at);
+  });
+
+  it('records failures as error results', async () => {
+    const jobs = new JobManager({ resultTtlMs: 60000, maxRunning: 5 });
+    const { job_id } = jobs.start('broken_tool', async () => { throw new Error('boom'); });
+    await sleep(0);
+
+    assert.equal(jobs.status(job_id).status, 'failed');
+    assert.equal(jobs.status(job_id).error, 'Error executing tool broken_tool: boom');
+    assert.equal((await jobs.result(job_id)).isError, true);
+  });
+
+  it('aborts cancelled jobs and discards their output', async () => {
+    const jobs = new JobManager({ resultTtlMs: 60000, maxRunning: 5 });
+    const job = controllableJob();
+    const { job_id } = jobs.start('slow_tool', job.run);
+
+    const waiting = jobs.result(job_id, 5000);
+    assert.equal(jobs.cancel(job_id).status, 'cancelled');
+    assert.equal(job.signal().aborted, true);
+    await assert.rejects(waiting, /was cancelled/);
+
+    job.finish('too late');
+    assert.equal(jobs.status(job_id).status, 'cancelled');
+    assert.throws(() => jobs.cancel(job_id), /has already been cancelled/);
+  });
+
+  it('forgets finished jobs after the result TTL', async () => {
+    const jobs = new JobManager({ resultTtlMs: 20, maxRunning: 5 });
+    const job = controllableJob();
+    const { job_id } = jobs.start('slow_tool', job.run);
+    job.finish('done');
+    await sleep(40);
+
+    assert.throws(() => jobs.status(job_id), /Unknown job job_\w+; finished jobs are kept for 0s/);
+    assert.deepEqual(jobs.list(), []);
+  });
+
+  it('limits the number of running jobs', () => {
+    const jobs = new JobManager({ resultTtlMs: 60000, maxRunning: 1 });
+    jobs.start('slow_tool', controllableJob().run);
+    assert.throws(() => jobs.start('slow_tool', controllableJob().run), /Too many running jobs \(1\)/);
+  });
+});
+
+describe('background tool calls', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('returns a job id right away and the tool output later', async () => {
+    const started = await harness.callTool('get_genome_info', { accession: 'GCF_000005845.2', background: true });
+    assert.equal(started.isError, false, started.text);
+    assert.ok(started.json.genome || started.json.reports, 'tools without a background option run normally');
+
+    const job = await harness.callTool('download_genome_data', { accession: 'GCF_SLOW.1', file_format: 'fasta', background: true });
+    assert.equal(job.json.status, 'running');
+    assert.match(job.json.job_id, /^job_[0-9a-f]{12}$/);
+
+    const status = await harness.callTool('get_job_status', { job_id: job.json.job_id });
+    assert.equal(status.json.status, 'running');
+    assert.equal(status.json.tool, 'download_genome_data');
+
+    const result = await harness.callTool('get_job_result', { job_id: job.json.job_id, wait_ms: 5000 });
+    assert.equal(result.isError, false, result.text);
+    assert.equal(result.json.accession, 'GCF_SLOW.1');
+    assert.equal(result.json.files[0].checksum_verified, true);
+
+    const listed = await harness.callTool('get_job_status');
+    assert.ok(listed.json.jobs.some((entry: any) => entry.job_id === job.json.job_id && entry.status === 'completed'));
+  });
+
+  it('keeps the structured error of a failed job', async () => {
+    const job = await harness.callTool('download_genome_data', { accession: 'GCF_NOTFOUND.1', background: true });
+    const result = await harness.callTool('get_job_result', { job_id: job.json.job_id, wait_ms: 5000 });
+    assert.equal(result.isError, true);
+    assert.equal(result.error.kind, 'not_found');
+    assert.match(result.text, /^Error executing tool download_genome_data: /);
+  });
+
+  it('forwards job progress to a waiting get_job_result call', async () => {
+    const packaged = await harness.callTool('download_genome_package', { accessions: ['GCF_000005845.2'], file_formats: ['fasta', 'gff3'], package_name: 'jobs' });
+    assert.equal(packaged.isError, false, packaged.text);
+    const job = await harness.callTool('rehydrate_package', { package_name: 'jobs', concurrency: 1, background: true });
+
+    const progress: number[] = [];
+    const result = await harness.client.callTool(
+      { name: 'get_job_result', arguments: { job_id: job.json.job_id, wait_ms: 5000 } },
+      undefined,
+      { onprogress: (update) => progress.push(update.progress) }
+    );
+    const json = JSON.parse((result.content as Array<{ text: string }>)[0].text);
+    assert.equal(json.downloaded, 2);
+    // Progress made before the wait started is visible through get_job_status instead
+    assert.ok(progress.every((value, index) => index === 0 || value > progress[index - 1]));
+    assert.equal((await harness.callTool('get_job_status', { job_id: job.json.job_id })).json.progress.progress, 2);
+  });
+
+  it('rejects unknown job ids', async () => {
+    const result = await harness.callTool('cancel_job', { job_id: 'job_000000000000' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Unknown job job_000000000000/);
+  });
+});
@@ -0,0 +1,352 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { fileURLToPath } from 'url';
+import { createZip } from './zip-builder.js';
+
+// Mock server interfaces
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: http.IncomingHttpHeaders;
+  body?: any;
+}
+
+interface BinaryResponse {
+  contentType: string;
+  body: Buffer;
+}
+
+interface Route {
+  method: 'GET' | 'POST';
+  pattern: RegExp;
+  // Fixture name, or a function of the request for paged endpoints
+  fixture?: string | ((request: RecordedRequest) => string);
+  // Non-JSON responses such as data package zips
+  respond?: (request: RecordedRequest, origin: string) => Promise<BinaryResponse>;
+}
+
+// Compiled to build-test/test/, fixtures stay in the source tree
+const FIXTURES_DIR = fileURLToPath(new URL('../../test/fixtures/', import.meta.url));
+const BASE_PATH = '/datasets/v2alpha';
+
+// Package files included for each requested annotation type; reports and README are always present
+const GENOME_ANNOTATION_TYPE_FILES: Record<string, RegExp> = {
+  GENOME_FASTA: /\.fna$/,
+  GENOME_GFF: /\.gff$/,
+  GENOME_GBFF: /\.gbff$/,
+  GENOME_GTF: /\.gtf$/,
+};
+
+const GENE_ANNOTATION_TYPE_FILES: Record<string, RegExp> = {
+  FASTA_GENE: /\/gene\.fna$/,
+  FASTA_RNA: /\/rna\.fna$/,
+  FASTA_CDS: /\/cds\.fna$/,
+  FASTA_PROTEIN: /\/protein\.faa$/,
+  FASTA_GENE_FLANK: /\/gene_flank\.fna$/,
+  FASTA_5P_UTR: /\/5p_utr\.fna$/,
+  FASTA_3P_UTR: /\/3p_utr\.fna$/,
+};
+
+const listFiles = async (directory: string, prefix = ''): Promise<string[]> => {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+    if (entry.isDirectory()) files.push(...await listFiles(`${directory}/${entry.name}`, `${prefix}${entry.name}/`));
+    else files.push(`${prefix}${entry.name}`);
+  }
+  return files.sort();
+};
+
+const md5 = (content: Buffer) => createHash('md5').update(content).digest('hex');
+
+// Zip a package fixture like the Datasets download endpoints, with an md5sum.txt; accessions
+// containing CORRUPT get a wrong checksum for the FASTA file. Dehydrated packages (hydrated=DATA_REPORT_ONLY)
+// list the data files in fetch.txt instead, with URLs served by the fetch_h route.
+const dataPackage = (fixture: string, annotationTypeFiles: Record<string, RegExp>, defaultTypes: string) =>
+  async (request: RecordedRequest, origin: string): Promise<BinaryResponse> => {
+    const directory = `${FIXTURES_DIR}${fixture}`;
+    const annotationTypes = request.body?.include_annotation_type ?? (request.query.include_annotation_type || defaultTypes).split(',');
+    const patterns = (annotationTypes as string[]).map((type) => annotationTypeFiles[type]).filter(Boolean);
+    const isDataFile = (name: string) => Object.values(annotationTypeFiles).some((pattern) => pattern.test(name));
+    const names = (await listFiles(directory)).filter((name) => !isDataFile(name) || patterns.some((pattern) => pattern.test(name)));
+
+    const files = await Promise.all(names.map(async (name) => ({ name, content: await fs.readFile(`${directory}/${name}`) })));
+    const corrupt = request.path.includes('CORRUPT');
+    const md5sums = files
+      .map((file) => `${corrupt && file.name.endsWith('.fna') ? '0'.repeat(32) : md5(file.content)}  ${file.name}`)
+      .join('\n');
+
+    const dehydrated = (request.body?.hydrated ?? request.query.hydrated) === 'DATA_REPORT_ONLY';
+    const packaged = dehydrated ? files.filter((file) => !isDataFile(file.name)) : files;
+    const fetchFile = files.filter((file) => isDataFile(file.name)).map((file) =>
+      `${origin}/datasets/fetch_h/${Buffer.from(`${fixture}/${file.name}`).toString('base64url')}\t${file.content.length}\t${file.name.replace(/^ncbi_dataset\//, '')}`
+    );
+    return {
+      contentType: 'application/zip',
+      body: createZip([
+        ...packaged,
+        ...(dehydrated ? [{ name: 'ncbi_dataset/fetch.txt', content: `${fetchFile.join('\n')}\n` }] : []),
+        { name: 'md5sum.txt', content: `${md5sums}\n` },
+      ]),
+    };
+  };
+
+const genomePackage = dataPackage('genome-package', GENOME_ANNOTATION_TYPE_FILES, 'GENOME_FASTA');
+const genePackage = dataPackage('gene-package', GENE_ANNOTATION_TYPE_FILES, 'FASTA_GENE,FASTA_RNA,FASTA_PROTEIN');
+
+// Files listed in a dehydrated package's fetch.txt, identified by their base64url-encoded fixture path
+const fetchPackageFile = async (request: RecordedRequest): Promise<BinaryResponse> => ({
+  contentType: 'application/octet-stream',
+  body: await fs.readFile(`${FIXTURES_DIR}${Buffer.from(request.path.split('/').pop()!, 'base64url').toString('utf8')}`),
+});
+
+// BLAST URL API searches by RID; each reports WAITING on its first status check and READY on the next.
+// Queries containing NOHITS finish without hits and BLASTFAIL ones fail.
+const blastSearches = new Map<string, { query: string; checks: number }>();
+
+const qblastInfo = (lines: string[]): BinaryResponse => ({
+  contentType: 'text/html',
+  body: Buffer.from(`<html><body><!--QBlastInfoBegin\n${lines.map((line) => `    ${line}\n`).join('')}QBlastInfoEnd\n--></body></html>\n`),
+});
+
+const blastCgi = async (request: RecordedRequest): Promise<BinaryResponse> => {
+  const params = request.method === 'POST' ? request.body : request.query;
+  if (params.CMD === 'Put') {
+    if (!params.QUERY) return { contentType: 'text/html', body: Buffer.from('<p class="error">Error: Query contains no sequence data</p>') };
+    const rid = `MOCKRID${String(blastSearches.size + 1).padStart(4, '0')}`;
+    blastSearches.set(rid, { query: params.QUERY, checks: 0 });
+    return qblastInfo([`RID = ${rid}`, 'RTOE = 0']);
+  }
+
+  const search = blastSearches.get(params.RID);
+  if (!search) return qblastInfo(['Status=UNKNOWN']);
+  if (params.CMD === 'Delete') return qblastInfo([`Deleted RID ${params.RID}`]);
+  if (params.FORMAT_OBJECT === 'SearchInfo') {
+    if (search.checks++ === 0) return qblastInfo(['Status=WAITING']);
+    if (search.query.includes('BLASTFAIL')) return qblastInfo(['Status=FAILED']);
+    return qblastInfo(['Status=READY', `ThereAreHits=${search.query.includes('NOHITS') ? 'no' : 'yes'}`]);
+  }
+  return { contentType: 'application/json', body: await fs.readFile(`${FIXTURES_DIR}blast-json2.json`) };
+};
+
+// Dataset reports of the comma-separated accessions in the path; accessions without a report are left out
+const genomeDatasetReports = async (request: RecordedRequest): Promise<BinaryResponse> => {
+  const accessions = decodeURIComponent(request.path.split('/')[3]).split(',');
+  const { reports } = await loadFixture('genome-dataset-report');
+  const found = reports.filter((report: any) => accessions.includes(report.accession));
+  return { contentType: 'application/json', body: Buffer.from(JSON.stringify({ reports: found, total_count: found.length })) };
+};
+
+// Taxonomy nodes by comma-separated tax IDs or names, matched against the scientific and common names of the
+// taxonomy-taxon fixture; unknown taxa get an error entry, as the Datasets taxon endpoint returns
+const taxonomyNodes = async (request: RecordedRequest): Promise<BinaryResponse> => {
+  const { taxonomy_nodes: nodes } = await loadFixture('taxonomy-taxon');
+  const queries = decodeURIComponent(request.path.split('/').pop()!).split(',');
+  const matches = (taxonomy: any, query: string) => String(taxonomy.tax_id) === query ||
+    [taxonomy.organism_name, taxonomy.common_name, taxonomy.genbank_common_name].some((name) => name?.toLowerCase() === query.toLowerCase());
+  const found = queries.map((query) => {
+    const node = nodes.find((candidate: any) => matches(candidate.taxonomy, query));
+    return node
+      ? { query: [query], ...node }
+      : { query: [query], errors: [{ reason: 'TAXONOMY_NOT_FOUND', message: `The taxonomy ID or name '${query}' was not found` }] };
+  });
+  return { contentType: 'application/json', body: Buffer.from(JSON.stringify({ taxonomy_nodes: found })) };
+};
+
+// Name-suggest entries whose matched term, or a word of it, starts with the query; nothing matched gives {}
+const taxonSuggest = async (request: RecordedRequest): Promise<BinaryResponse> => {
+  const query = decodeURIComponent(request.path.split('/').pop()!).toLowerCase();
+  const { sci_name_and_ids: entries } = await loadFixture('taxonomy-taxon-suggest');
+  const found = entries.filter((entry: any) => {
+    const term = entry.matched_term.toLowerCase();
+    return term.startsWith(query) || term.split(' ').some((word: string) => word.startsWith(query));
+  });
+  return { contentType: 'application/json', body: Buffer.from(JSON.stringify(found.length ? { sci_name_and_ids: found } : {})) };
+};
+
+const ROUTES: Route[] = [
+  { method: 'GET', pattern: /^\/genome\/taxon\/[^/]+\/dataset_report$/, fixture: (request) => request.query.page_token ? `genome-taxon-dataset-report-${request.query.page_token}` : 'genome-taxon-dataset-report' },
+  { method: 'GET', pattern: /^\/genome\/accession\/[^/]+\/dataset_report$/, respond: genomeDatasetReports },
+  {
+    method: 'GET',
+    pattern: /^\/genome\/accession\/[^/]+\/annotation_report$/,
+    fixture: (request) => `genome-annotation-report-${request.path.split('/')[3]}${request.query.page_token ? `-${request.query.page_token}` : ''}`,
+  },
+  { method: 'GET', pattern: /^\/genome\/accession\/[^/]+\/download$/, respond: genomePackage },
+  { method: 'POST', pattern: /^\/genome\/download$/, respond: genomePackage },
+  { method: 'GET', pattern: /^\/datasets\/fetch_h\/[^/]+$/, respond: fetchPackageFile },
+  { method: 'GET', pattern: /^\/genome\/accession\/[^/]+$/, fixture: 'genome-dataset-report' },
+  { method: 'GET', pattern: /^\/genome\/search$/, fixture: 'genome-search' },
+  { method: 'GET', pattern: /^\/genome\/features\/search$/, fixture: 'genome-features-search' },
+  { method: 'GET', pattern: /^\/genome\/sequence_accession\/[^/]+\/sequence_assemblies$/, fixture: 'genome-sequence-assemblies' },
+  { method: 'GET', pattern: /^\/gene\/accession\/[^/]+\/download$/, respond: genePackage },
+  { method: 'GET', pattern: /^\/gene\/id\/[^/]+\/download$/, respond: genePackage },
+  { method: 'GET', pattern: /^\/gene\/search$/, fixture: 'gene-search' },
+  { method: 'GET', pattern: /^\/gene\/id\/[^/]+\/orthologs$/, fixture: 'gene-orthologs' },
+  { method: 'GET', pattern: /^\/gene\/id\/[^/]+$/, fixture: 'gene-id' },
+  { method: 'GET', pattern: /^\/taxonomy\/search$/, fixture: 'taxonomy-search' },
+  { method: 'GET', pattern: /^\/taxonomy\/taxon_suggest\/[^/]+$/, respond: taxonSuggest },
+  { method: 'GET', pattern: /^\/taxonomy\/taxon\/[^/]+\/lineage$/, fixture: 'taxonomy-lineage' },
+  { method: 'GET', pattern: /^\/taxonomy\/taxon\/[^/]+$/, respond: taxonomyNodes },
+  { method: 'GET', pattern: /^\/assembly\/search$/, fixture: 'assembly-search' },
+  { method: 'POST', pattern: /^\/assembly\/accession$/, fixture: 'assembly-batch' },
+  { method: 'GET', pattern: /^\/assembly\/accession\/[^/]+\/sequence_reports$/, fixture: 'assembly-sequence-reports' },
+  { method: 'GET', pattern: /^\/assembly\/accession\/[^/]+\/dataset_report$/, fixture: 'assembly-dataset-report' },
+  { method: 'GET', pattern: /^\/assembly\/accession\/[^/]+\/annotation_report$/, fixture: 'assembly-annotation-report' },
+  { method: 'GET', pattern: /^\/assembly\/accession\/[^/]+\/quality$/, fixture: 'assembly-quality' },
+  { method: 'GET', pattern: /^\/assembly\/accession\/[^/]+$/, fixture: 'assembly-accession' },
+  { method: 'GET', pattern: /^\/virus\/search$/, fixture: 'virus-search' },
+  { method: 'GET', pattern: /^\/virus\/accession\/[^/]+$/, fixture: 'virus-accession' },
+  { method: 'GET', pattern: /^\/protein\/search$/, fixture: 'protein-search' },
+  { method: 'GET', pattern: /^\/protein\/accession\/[^/]+$/, fixture: 'protein-accession' },
+  { method: 'POST', pattern: /^\/blast\/Blast\.cgi$/, respond: blastCgi },
+  { method: 'GET', pattern: /^\/blast\/Blast\.cgi$/, respond: blastCgi },
+  { method: 'GET', pattern: /^\/stats\/database$/, fixture: 'stats-database' },
+  { method: 'GET', pattern: /^\/bioproject\/search$/, fixture: 'bioproject-search' },
+  { method: 'GET', pattern: /^\/biosample\/search$/, fixture: 'biosample-search' },
+];
+
+// Identifiers containing these markers trigger NCBI-style failures, whatever the endpoint
+const ERROR_TRIGGERS: Array<{ marker: string; status: number; fixture: string }> = [
+  { marker: 'NOTFOUND', status: 404, fixture: 'error-not-found' },
+  { marker: 'UNAVAILABLE', status: 503, fixture: 'error-unavailable' },
+  { marker: 'BADREQUEST', status: 400, fixture: 'error-bad-request' },
+];
+
+// FLAKY identifiers fail with 503 on the first request for a path, then succeed
+const FLAKY_MARKER = 'FLAKY';
+
+// SLOW identifiers are answered after a delay, so calls can be observed while they are in flight
+const SLOW_MARKER = 'SLOW';
+const SLOW_DELAY_MS = 500;
+
+export const loadFixture = async (name: string): Promise<any> =>
+  JSON.parse(await fs.readFile(`${FIXTURES_DIR}${name}.json`, 'utf8'));
+
+const readBody = (request: http.IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('error', reject);
+    request.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (!text) return resolve(undefined);
+      if (request.headers['content-type']?.startsWith('application/x-www-form-urlencoded')) {
+        return resolve(Object.fromEntries(new URLSearchParams(text)));
+      }
+      try {
+        resolve(JSON.parse(text));
+      } catch {
+        resolve(text);
+      }
+    });
+  });
+
+// Offline stand-in for the NCBI Datasets v2 API, serving JSON fixtures and recording every request
+export class MockNCBIServer {
+  readonly requests: RecordedRequest[] = [];
+  private server?: http.Server;
+  private flakyPaths = new Set<string>();
+
+  get baseUrl(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) throw new Error('Mock NCBI server is not running');
+    return `http://127.0.0.1:${address.port}${BASE_PATH}`;
+  }
+
+  // Stand-in for the BLAST URL API, outside the Datasets base path like the real Blast.cgi
+  get blastUrl(): string {
+    return new URL('/blast/Blast.cgi', this.baseUrl).toString();
+  }
+
+  async start(port = 0): Promise<string> {
+    this.server = http.createServer((request, response) => {
+      this.handle(request, response).catch((error) => {
+        response.writeHead(500, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ error: 'Mock server error', message: String(error) }));
+      });
+    });
+    await new Promise<void>((resolve) => this.server!.listen(port, '127.0.0.1', resolve));
+    return this.baseUrl;
+  }
+
+  async stop() {
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = undefined;
+  }
+
+  reset() {
+    this.requests.length = 0;
+    this.flakyPaths.clear();
+  }
+
+  // Requests to paths matching the pattern, in arrival order
+  requestsTo(pattern: RegExp): RecordedRequest[] {
+    return this.requests.filter((request) => pattern.test(request.path));
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse) {
+    const url = new URL(request.url || '/', 'http://127.0.0.1');
+    const path = url.pathname.startsWith(BASE_PATH) ? url.pathname.slice(BASE_PATH.length) : url.pathname;
+    const recorded: RecordedRequest = {
+      method: request.method || 'GET',
+      path,
+      query: Object.fromEntries(url.searchParams),
+      headers: request.headers,
+      body: await readBody(request),
+    };
+    this.requests.push(recorded);
+
+    const send = async (status: number, fixture: string) => {
+      response.writeHead(status, { 'Content-Type': 'application/json', 'ncbi-phid': `mock-${this.requests.length}` });
+      response.end(JSON.stringify(await loadFixture(fixture)));
+    };
+
+    if (path.includes(SLOW_MARKER)) await new Promise((resolve) => setTimeout(resolve, SLOW_DELAY_MS));
+
+    const trigger = ERROR_TRIGGERS.find((candidate) => path.includes(candidate.marker));
+    if (trigger) return send(trigger.status, trigger.fixture);
+
+    if (path.includes(FLAKY_MARKER) && !this.flakyPaths.has(path)) {
+      this.flakyPaths.add(path);
+      return send(503, 'error-unavailable');
+    }
+
+    const route = ROUTES.find((candidate) => candidate.method === recorded.method && candidate.pattern.test(path));
+    if (!route) {
+      response.writeHead(404, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ error: 'Not Found', message: `No mock route for ${recorded.method} ${path}` }));
+      return;
+    }
+    if (route.respond) {
+      const binary = await route.respond(recorded, `http://${request.headers.host}`);
+      // Honour "Range: bytes=N-" so interrupted downloads can resume
+      const range = /^bytes=(\d+)-$/.exec(request.headers.range || '');
+      const start = range ? Math.min(parseInt(range[1]), binary.body.length) : 0;
+      const body = binary.body.subarray(start);
+      response.writeHead(range ? 206 : 200, {
+        'Content-Type': binary.contentType,
+        'Content-Length': body.length,
+        ...(range && { 'Content-Range': `bytes ${start}-${binary.body.length - 1}/${binary.body.length}` }),
+      });
+      response.end(body);
+      return;
+    }
+    return send(200, typeof route.fixture === 'function' ? route.fixture(recorded) : route.fixture!);
+  }
+}
+
+// Standalone: node build-test/test/mock-ncbi-server.js [port], then point NCBI_BASE_URL at the printed URL
+if (process.argv[1] && fileURLToPath(import.meta.url) === process.argv[1]) {
+  const mock = new MockNCBIServer();
+  mock.start(parseInt(process.argv[2] || process.env.PORT || '8787')).then((baseUrl) => {
+    console.error(`Mock NCBI Datasets API listening at ${baseUrl}`);
+    process.on('SIGINT', async () => {
+      await mock.stop();
+      process.exit(0);
+    });
+  });
+}
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import axios, { AxiosInstance } from 'axios';
+import { resolveOrganism } from '../src/organisms.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('organism name resolution', () => {
+  let harness: Harness;
+  let apiClient: AxiosInstance;
+
+  before(async () => {
+    harness = await startHarness();
+    apiClient = axios.create({ baseURL: harness.mock.baseUrl });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('prefers the taxon an abbreviation names over others it could expand to', async () => {
+    const resolution = await resolveOrganism(apiClient, 'E. coli');
+    assert.deepEqual(harness.mock.requests.map((request) => request.path), ['/taxonomy/taxon_suggest/E.%20coli', '/taxonomy/taxon_suggest/coli']);
+    assert.deepEqual([resolution.tax_id, resolution.match_type, resolution.confidence], [562, 'common_name', 0.95]);
+    assert.deepEqual(resolution.candidates.slice(0, 2).map((candidate) => [candidate.name, candidate.match_type]), [
+      ['Escherichia coli', 'common_name'],
+      ['Entamoeba coli', 'abbreviation'],
+    ]);
+  });
+
+  it('resolves misspellings in the genus or the epithet word by word and passes tax IDs through', async () => {
+    const misspelt = await resolveOrganism(apiClient, 'Homo sapeins');
+    assert.deepEqual(harness.mock.requests.map((request) => request.path), ['/taxonomy/taxon_suggest/Homo%20sapeins', '/taxonomy/taxon_suggest/Homo']);
+    assert.deepEqual([misspelt.tax_id, misspelt.name, misspelt.match_type], [9606, 'Homo sapiens', 'fuzzy']);
+    assert.ok(misspelt.confidence >= 0.7 && misspelt.confidence < 0.8);
+
+    harness.mock.reset();
+    const misspeltGenus = await resolveOrganism(apiClient, 'Escherchia coli');
+    assert.deepEqual(harness.mock.requests.map((request) => request.path), [
+      '/taxonomy/taxon_suggest/Escherchia%20coli',
+      '/taxonomy/taxon_suggest/Escherchia',
+      '/taxonomy/taxon_suggest/coli',
+    ]);
+    assert.deepEqual([misspeltGenus.tax_id, misspeltGenus.match_type], [562, 'fuzzy']);
+
+    harness.mock.reset();
+    const byId = await resolveOrganism(apiClient, ' 10090 ');
+    assert.deepEqual([byId.tax_id, byId.match_type, byId.confidence], [10090, 'tax_id', 1]);
+    assert.equal(harness.mock.requests.length, 0);
+  });
+
+  it('refuses ambiguous and weak matches with their candidates', async () => {
+    await assert.rejects(resolveOrganism(apiClient, 'Morus'), (error: any) => {
+      assert.match(error.message, /Organism "Morus" is ambiguous: it matches Morus \(genus, .*tax ID 3497\) and Morus \(genus, .*tax ID 37577\)/);
+      assert.deepEqual(error.data.candidates.slice(0, 2).map((candidate: any) => candidate.tax_id), [3497, 37577]);
+      return true;
+    });
+
+    await assert.rejects(resolveOrganism(apiClient, 'Rattus'), (error: any) => {
+      assert.match(error.message, /No confident match for organism "Rattus"; closest: Rattus rattus .*; Rattus norvegicus/);
+      assert.ok(error.data.candidates.every((candidate: any) => candidate.confidence < 0.7));
+      return true;
+    });
+
+    await assert.rejects(resolveOrganism(apiClient, 'Unicornia'), /No organism in NCBI Taxonomy matches "Unicornia"/);
+  });
+});
@@ -0,0 +1,242 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { extractPackageFiles, parseMd5Sums, workspacePath } from '../src/packages.js';
+import { parseFetchFile } from '../src/rehydration.js';
+import { readZipEntries, readZipEntry } from '../src/zip.js';
+import { Harness, startHarness } from './harness.js';
+import { createZip } from './zip-builder.js';
+
+const md5 = (content: Buffer | string) => createHash('md5').update(content).digest('hex');
+
+describe('package helpers', () => {
+  it('lists and inflates entries', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ncbi-zip-'));
+    try {
+      const file = path.join(directory, 'test.zip');
+      await fs.writeFile(file, createZip([
+        { name: 'md5sum.txt', content: `${md5('>seq\nACGT\n')}  ncbi_dataset/data/a.fna\n` },
+        { name: 'ncbi_dataset/data/a.fna', content: '>seq\nACGT\n' },
+      ]));
+      const entries = await readZipEntries(file);
+      assert.deepEqual(entries.map((entry) => entry.name), ['md5sum.txt', 'ncbi_dataset/data/a.fna']);
+      assert.equal((await readZipEntry(file, entries[1])).toString('utf8'), '>seq\nACGT\n');
+      assert.equal(entries[1].uncompressedSize, 10);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses to flatten entries with the same file name and keeps them apart by package path', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ncbi-zip-'));
+    try {
+      const file = path.join(directory, 'test.zip');
+      await fs.writeFile(file, createZip([
+        { name: 'ncbi_dataset/data/GCF_000005845.2/genomic.gff', content: '##gff-version 3\n' },
+        { name: 'ncbi_dataset/data/GCF_000008865.2/genomic.gff', content: '##gff-version 3\n#O157\n' },
+      ]));
+      const entries = await readZipEntries(file);
+      const output = path.join(directory, 'out');
+      await assert.rejects(
+        extractPackageFiles(file, entries, new Map(), output),
+        /share a file name and cannot be flattened: ncbi_dataset\/data\/GCF_000005845\.2\/genomic\.gff, ncbi_dataset\/data\/GCF_000008865\.2\/genomic\.gff/
+      );
+      await assert.rejects(fs.access(output));
+
+      const kept = await extractPackageFiles(file, entries, new Map(), output, false);
+      assert.deepEqual(kept.map((extracted) => path.relative(output, extracted.path)), [
+        path.join('ncbi_dataset', 'data', 'GCF_000005845.2', 'genomic.gff'),
+        path.join('ncbi_dataset', 'data', 'GCF_000008865.2', 'genomic.gff'),
+      ]);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('parses md5sum.txt', () => {
+    const sums = parseMd5Sums('d41d8cd98f00b204e9800998ecf8427e  ncbi_dataset/data/x.gff\n\nD41D8CD98F00B204E9800998ECF8427E *./README.md\n');
+    assert.deepEqual([...sums], [
+      ['ncbi_dataset/data/x.gff', 'd41d8cd98f00b204e9800998ecf8427e'],
+      ['README.md', 'd41d8cd98f00b204e9800998ecf8427e'],
+    ]);
+  });
+
+  it('parses fetch.txt', () => {
+    assert.deepEqual(parseFetchFile('https://api.ncbi.nlm.nih.gov/datasets/fetch_h/a\t1024\tdata/GCF_1/a.fna\nhttps://api.ncbi.nlm.nih.gov/datasets/fetch_h/b\t-\tdata/GCF_1/b.gff\n'), [
+      { url: 'https://api.ncbi.nlm.nih.gov/datasets/fetch_h/a', size_bytes: 1024, path: 'data/GCF_1/a.fna' },
+      { url: 'https://api.ncbi.nlm.nih.gov/datasets/fetch_h/b', path: 'data/GCF_1/b.gff' },
+    ]);
+    assert.throws(() => parseFetchFile('https://example.org/only-a-url\n'), /Malformed fetch.txt line 1/);
+  });
+
+  it('keeps workspace paths inside the workspace', () => {
+    const workspace = { directory: path.resolve('/tmp/ncbi-workspace'), downloadTimeoutMs: 1000 };
+    assert.equal(workspacePath(workspace, '../../etc', 'passwd'), path.join(workspace.directory, '.._.._etc', 'passwd'));
+    assert.throws(() => workspacePath(workspace, '..'), /escapes the workspace/);
+  });
+});
+
+describe('download_genome_data', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('extracts the requested format into the workspace and verifies checksums', async () => {
+    const result = await harness.callTool('download_genome_data', { accession: 'GCF_000005845.2', file_format: 'fasta' });
+    assert.equal(result.isError, false, result.text);
+    assert.equal(harness.mock.requests[0].query.include_annotation_type, 'GENOME_FASTA');
+
+    const { files, workspace_directory, package: zip } = result.json;
+    assert.equal(workspace_directory, path.join(harness.workspace, 'GCF_000005845.2'));
+    assert.equal(files.length, 1);
+    assert.equal(files[0].path, path.join(workspace_directory, 'GCF_000005845.2_ASM584v2_genomic.fna'));
+    assert.equal(files[0].checksum_verified, true);
+
+    const content = await fs.readFile(files[0].path);
+    assert.equal(files[0].size_bytes, content.length);
+    assert.equal(files[0].md5, md5(content));
+    assert.match(content.toString('utf8'), /^>NC_000913\.3 /);
+
+    // The zip itself is removed unless keep_zip is set
+    assert.equal(zip.path, undefined);
+    await assert.rejects(fs.stat(path.join(workspace_directory, 'GCF_000005845.2.zip')));
+  });
+
+  it('extracts every data file for file_format all and can keep the zip', async () => {
+    const result = await harness.callTool('download_genome_data', { accession: 'GCF_000005845.2', keep_zip: true });
+    assert.equal(result.isError, false, result.text);
+    assert.equal(harness.mock.requests[0].query.include_annotation_type, 'GENOME_FASTA,GENOME_GFF,GENOME_GBFF,GENOME_GTF');
+    assert.deepEqual(result.json.files.map((file: any) => path.basename(file.path)).sort(), [
+      'GCF_000005845.2_ASM584v2_genomic.fna',
+      'assembly_data_report.jsonl',
+      'dataset_catalog.json',
+      'genomic.gbff',
+      'genomic.gff',
+      'genomic.gtf',
+    ]);
+    assert.ok(result.json.files.every((file: any) => file.checksum_verified));
+    assert.equal((await fs.stat(result.json.package.path)).size, result.json.package.size_bytes);
+  });
+
+  it('fails when a file does not match md5sum.txt', async () => {
+    const result = await harness.callTool('download_genome_data', { accession: 'GCF_CORRUPT.1', file_format: 'fasta' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Checksum mismatch for ncbi_dataset\/data\/GCF_000005845\.2\/GCF_000005845\.2_ASM584v2_genomic\.fna/);
+    await assert.rejects(fs.stat(path.join(harness.workspace, 'GCF_CORRUPT.1', 'GCF_000005845.2_ASM584v2_genomic.fna')));
+  });
+
+  it('reports the NCBI error body for a failed download', async () => {
+    const result = await harness.callTool('download_genome_data', { accession: 'GCF_NOTFOUND.1' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /HTTP 404 \(No assemblies found that match the selection\)/);
+    assert.equal(result.error.kind, 'not_found');
+  });
+});
+
+describe('bulk packages', () => {
+  let harness: Harness;
+  const packageDirectory = () => path.join(harness.workspace, 'packages', 'taxon_562');
+  const fetchRequests = () => harness.mock.requestsTo(/^\/datasets\/fetch_h\//);
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('downloads a dehydrated package for every assembly of a taxon', async () => {
+    const result = await harness.callTool('download_genome_package', { taxon: '562', file_formats: ['fasta', 'gff3', 'genbank', 'gtf'] });
+    assert.equal(result.isError, false, result.text);
+    assert.deepEqual(harness.mock.requestsTo(/dataset_report$/).map((request) => request.query.page_token), [undefined, 'page-2']);
+
+    const [download] = harness.mock.requestsTo(/^\/genome\/download$/);
+    assert.deepEqual(download.body.accessions, ['GCF_000005845.2', 'GCF_000008865.2', 'GCF_000001405.40']);
+    assert.equal(download.body.hydrated, 'DATA_REPORT_ONLY');
+
+    assert.equal(result.json.package_name, 'taxon_562');
+    assert.equal(result.json.directory, packageDirectory());
+    assert.equal(result.json.fetch.file_count, 4);
+    assert.ok(result.json.files.every((file: any) => !/\.(fna|gff|gbff|gtf)$/.test(file.path)));
+    await fs.stat(path.join(packageDirectory(), 'ncbi_dataset', 'data', 'assembly_data_report.jsonl'));
+  });
+
+  it('requires accessions or a taxon', async () => {
+    const result = await harness.callTool('download_genome_package', {});
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Either accessions or taxon is required/);
+  });
+
+  it('rehydrates the listed files in parallel and reports progress', async () => {
+    const progress: Array<{ progress: number; total?: number }> = [];
+    const result = await harness.client.callTool(
+      { name: 'rehydrate_package', arguments: { package_name: 'taxon_562', concurrency: 2 } },
+      undefined,
+      { onprogress: (update) => progress.push(update) }
+    );
+    const json = JSON.parse((result.content as Array<{ text: string }>)[0].text);
+    assert.equal(json.downloaded, 4);
+    assert.equal(json.complete, true);
+    assert.ok(json.files.every((file: any) => file.checksum_verified));
+    assert.equal(fetchRequests().length, 4);
+
+    const gff = await fs.readFile(path.join(packageDirectory(), 'ncbi_dataset', 'data', 'GCF_000005845.2', 'genomic.gff'));
+    assert.equal(json.files.find((file: any) => file.path.endsWith('genomic.gff')).md5, md5(gff));
+    assert.deepEqual(progress.map((update) => update.progress), [1, 2, 3, 4]);
+    assert.ok(progress.every((update) => update.total === 4));
+  });
+
+  it('skips files that are already complete', async () => {
+    const result = await harness.callTool('rehydrate_package', { package_name: 'taxon_562' });
+    assert.equal(result.json.skipped, 4);
+    assert.equal(fetchRequests().length, 0);
+  });
+
+  it('resumes an interrupted download from its .part file', async () => {
+    const fasta = path.join(packageDirectory(), 'ncbi_dataset', 'data', 'GCF_000005845.2', 'GCF_000005845.2_ASM584v2_genomic.fna');
+    const content = await fs.readFile(fasta);
+    await fs.rm(fasta);
+    await fs.writeFile(`${fasta}.part`, content.subarray(0, 1000));
+
+    const result = await harness.callTool('rehydrate_package', { package_name: 'taxon_562', match: '.fna' });
+    assert.equal(result.isError, false, result.text);
+    assert.equal(result.json.file_count, 1);
+    assert.equal(result.json.resumed, 1);
+    assert.equal(result.json.files[0].md5, md5(content));
+    assert.equal(fetchRequests()[0].headers.range, 'bytes=1000-');
+    assert.deepEqual(await fs.readFile(fasta), content);
+  });
+
+  it('refuses fetch.txt URLs outside the NCBI API origin', async () => {
+    const directory = path.join(harness.workspace, 'packages', 'foreign');
+    await fs.mkdir(path.join(directory, 'ncbi_dataset'), { recursive: true });
+    await fs.writeFile(path.join(directory, 'ncbi_dataset', 'fetch.txt'), 'https://example.org/genome.fna\t10\tdata/genome.fna\n');
+
+    const result = await harness.callTool('rehydrate_package', { package_name: 'foreign' });
+    assert.equal(result.isError, false, result.text);
+    assert.equal(result.json.failed, 1);
+    assert.equal(result.json.complete, false);
+    assert.match(result.json.files[0].error, /Refusing to fetch https:\/\/example\.org\/genome\.fna/);
+    assert.equal(harness.mock.requests.length, 0);
+  });
+
+  it('explains when the directory is not a dehydrated package', async () => {
+    const result = await harness.callTool('rehydrate_package', { package_name: 'missing' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /No ncbi_dataset\/fetch\.txt in .*; is this a dehydrated package\?/);
+  });
+});
@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { fetchAllPages, Page } from '../src/pagination.js';
+
+// Pages of ten numbered records, with a token for each following page
+const pagedRecords = (pageCount: number) => async (pageToken?: string): Promise<Page<number>> => {
+  const index = pageToken ? Number(pageToken) : 0;
+  return {
+    records: Array.from({ length: 10 }, (_, offset) => index * 10 + offset),
+    totalCount: pageCount * 10,
+    nextPageToken: index + 1 < pageCount ? String(index + 1) : undefined,
+  };
+};
+
+describe('automatic pagination', () => {
+  it('returns a token to resume from when max_total ends at a page boundary', async () => {
+    const result = await fetchAllPages({ max_total: 20 }, pagedRecords(5), (record) => record);
+    assert.deepEqual([result.records.length, result.pages_fetched, result.truncated, result.next_page_token], [20, 2, true, '2']);
+  });
+
+  it('returns no token when max_total ends in the middle of a page', async () => {
+    const result = await fetchAllPages({ max_total: 15 }, pagedRecords(5), (record) => record);
+    assert.deepEqual(result.records, Array.from({ length: 15 }, (_, index) => index));
+    assert.equal(result.truncated, true);
+    // Resuming at page 2 would skip records 15-19
+    assert.equal(result.next_page_token, undefined);
+
+    const lastPage = await fetchAllPages({ max_total: 45 }, pagedRecords(5), (record) => record);
+    assert.deepEqual([lastPage.records.length, lastPage.truncated, lastPage.next_page_token], [45, true, undefined]);
+  });
+
+  it('collects every page and counts duplicates', async () => {
+    const result = await fetchAllPages({ fetch_all: true }, pagedRecords(3), (record) => record % 25);
+    assert.deepEqual([result.records.length, result.duplicates_removed, result.truncated, result.total_count], [25, 5, false, 30]);
+  });
+});
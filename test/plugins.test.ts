@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { fileURLToPath } from 'url';
+import { ToolRegistry } from '../src/registry.js';
+import { BUILTIN_TOOLS } from '../src/tools/index.js';
+import { Harness, startHarness } from './harness.js';
+
+// Compiled to build-test/test/, fixtures stay in the source tree
+const pluginDirectory = (name: string) => fileURLToPath(new URL(`../../test/fixtures/plugins/${name}`, import.meta.url));
+
+const builtinRegistry = () => {
+  const registry = new ToolRegistry();
+  BUILTIN_TOOLS.forEach((tool) => registry.register(tool));
+  return registry;
+};
+
+describe('plugin tools', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness({ NCBI_PLUGIN_DIR: pluginDirectory('valid') });
+    await harness.server.loadPlugins();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('loads default and named exports from NCBI_PLUGIN_DIR alongside the built-in tools', async () => {
+    const { tools } = await harness.client.listTools();
+    const names = tools.map((tool) => tool.name);
+    assert.ok(names.includes('search_genes'));
+    assert.deepEqual(names.filter((name) => name.startsWith('lab_')), ['lab_taxon_name', 'lab_echo', 'lab_shout']);
+
+    // Plugins get the shared shaping arguments and an empty required list when they declare none
+    const echo = tools.find((tool) => tool.name === 'lab_echo')!;
+    assert.ok('fields' in (echo.inputSchema.properties as object));
+    assert.deepEqual(echo.inputSchema.required, []);
+  });
+
+  it('runs plugin handlers with validated arguments and the shared NCBI client', async () => {
+    const result = await harness.callTool('lab_taxon_name', { tax_id: 9606 });
+    assert.equal(result.isError, false, result.text);
+    assert.deepEqual(result.json, { tax_id: 9606, name: 'Homo sapiens' });
+    assert.deepEqual(harness.mock.requests.map((request) => request.path), ['/taxonomy/taxon/9606']);
+
+    const invalid = await harness.callTool('lab_taxon_name', { tax_id: 'human' });
+    assert.match(invalid.text, /Invalid arguments for lab_taxon_name: tax_id must be a number/);
+
+    const echoed = await harness.callTool('lab_shout', { message: 'hello' });
+    assert.deepEqual(echoed.json, { tool: 'lab_shout', message: 'hello' });
+  });
+
+  it('rejects modules that do not export a tool and names that clash with built-in tools', async () => {
+    await assert.rejects(builtinRegistry().loadPlugins(pluginDirectory('invalid')),
+      /Plugin broken\.mjs does not export a valid tool \(name, description, inputSchema and handler are required\)/);
+    await assert.rejects(builtinRegistry().loadPlugins(pluginDirectory('collision')), /Tool search_genes is already registered/);
+  });
+});
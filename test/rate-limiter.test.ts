@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { attachRateLimiter, parseRetryAfter, RateLimiter } from '../src/rate-limiter.js';
+
+// Times at which each of several requests acquired a slot, relative to the first
+const acquisitionTimes = async (limiter: RateLimiter, count: number): Promise<number[]> => {
+  const start = Date.now();
+  return Promise.all(Array.from({ length: count }, () => limiter.acquire().then(() => Date.now() - start)));
+};
+
+// Client whose network answers 429 with Retry-After for the first `limited` requests, recording when each arrived
+const throttledClient = (limiter: RateLimiter, limited: number, retryAfter: string) => {
+  const arrivals: number[] = [];
+  const client = axios.create();
+  client.defaults.adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    arrivals.push(Date.now());
+    const response = { data: {}, status: 200, statusText: 'OK', headers: {}, config };
+    if (arrivals.length <= limited) {
+      const throttled = { ...response, status: 429, statusText: 'Too Many Requests', headers: { 'retry-after': retryAfter } };
+      throw new AxiosError('Request failed with status code 429', AxiosError.ERR_BAD_REQUEST, config, {}, throttled);
+    }
+    return response;
+  };
+  attachRateLimiter(client, limiter);
+  return { client, arrivals };
+};
+
+describe('rate limiter', () => {
+  // The limiter's timers are unref'd so that they never hold the server open; keep the test process alive instead
+  let keepAlive: NodeJS.Timeout;
+
+  before(() => {
+    keepAlive = setInterval(() => undefined, 1000);
+  });
+
+  after(() => {
+    clearInterval(keepAlive);
+  });
+
+  for (const requestsPerSecond of [3, 10]) {
+    it(`spaces requests at ${requestsPerSecond} per second after the burst`, async () => {
+      const limiter = new RateLimiter({ requestsPerSecond, burst: 1, maxRetryAfterAttempts: 3 });
+      const times = await acquisitionTimes(limiter, requestsPerSecond + 1);
+      const interval = 1000 / requestsPerSecond;
+
+      assert.ok(times[0] < interval / 2, `first request waited ${times[0]}ms`);
+      // Timers may fire late on a busy machine, never early
+      for (let index = 1; index < times.length; index++) {
+        assert.ok(times[index] - times[index - 1] >= interval - 5, `request ${index} followed after ${times[index] - times[index - 1]}ms`);
+      }
+      assert.ok(times[times.length - 1] < 1000 + 500, `${requestsPerSecond + 1} requests took ${times[times.length - 1]}ms`);
+      assert.equal(limiter.status().total_queued, requestsPerSecond);
+    });
+  }
+
+  it('releases a burst at once and then refills at the configured rate', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10, burst: 3, maxRetryAfterAttempts: 3 });
+    const times = await acquisitionTimes(limiter, 4);
+    assert.ok(times.slice(0, 3).every((time) => time < 50), `burst acquired at ${times.join(', ')}ms`);
+    assert.ok(times[3] >= 95, `request after the burst waited ${times[3]}ms`);
+  });
+
+  it('pauses every request for Retry-After after a 429 and then retries', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100, burst: 5, maxRetryAfterAttempts: 3 });
+    const { client, arrivals } = throttledClient(limiter, 1, '1');
+
+    const response = await client.get('/gene/id/672');
+    assert.equal(response.status, 200);
+    assert.equal(arrivals.length, 2);
+    assert.ok(arrivals[1] - arrivals[0] >= 1000, `retried after ${arrivals[1] - arrivals[0]}ms`);
+
+    const status = limiter.status();
+    assert.equal(status.retry_after_responses, 1);
+    assert.equal(status.paused_until, null);
+  });
+
+  it('gives up after the configured Retry-After attempts', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100, burst: 5, maxRetryAfterAttempts: 0 });
+    const { client, arrivals } = throttledClient(limiter, 1, '1');
+
+    await assert.rejects(client.get('/gene/id/672'), (error: AxiosError) => error.response?.status === 429);
+    assert.equal(arrivals.length, 1);
+    assert.equal(limiter.status().retry_after_responses, 0);
+  });
+
+  it('reads Retry-After as seconds or as an HTTP date', () => {
+    const now = Date.parse('2024-05-01T12:00:00Z');
+    assert.equal(parseRetryAfter('2', now), 2000);
+    assert.equal(parseRetryAfter('0.5', now), 500);
+    assert.equal(parseRetryAfter('Wed, 01 May 2024 12:00:03 GMT', now), 3000);
+    assert.equal(parseRetryAfter('Wed, 01 May 2024 11:59:00 GMT', now), 0);
+    assert.equal(parseRetryAfter('soon', now), undefined);
+    assert.equal(parseRetryAfter(undefined, now), undefined);
+  });
+});
@@ -0,0 +1,194 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { fileURLToPath } from 'url';
+import { GENETIC_CODE_IDS, GENETIC_CODES } from '../src/genetic-codes.js';
+import {
+  checkSequence, duplicateIds, findRuns, formatFasta, gcContent, parseFasta, readFastaRecord, reverseComplement, translate,
+} from '../src/sequences.js';
+import { Harness, startHarness } from './harness.js';
+
+const DEFAULTS = { minNRun: 10, frame: 1 };
+
+// Compiled to build-test/test/, fixtures stay in the source tree
+const GENOME_FASTA = fileURLToPath(new URL(
+  '../../test/fixtures/genome-package/ncbi_dataset/data/GCF_000005845.2/GCF_000005845.2_ASM584v2_genomic.fna', import.meta.url));
+
+describe('FASTA parsing', () => {
+  it('parses multi-record FASTA with wrapped lines, comments and descriptions', () => {
+    const records = parseFasta('>NC_000913.3 Escherichia coli K-12\nAGCTTTTC\nATTCTGAC\n;comment\n\n>empty\n>NP_414542.1\nMKRISTTITTTITITTGNGAG\r\n');
+    assert.deepEqual(records, [
+      { id: 'NC_000913.3', description: 'Escherichia coli K-12', sequence: 'AGCTTTTCATTCTGAC' },
+      { id: 'empty', description: '', sequence: '' },
+      { id: 'NP_414542.1', description: '', sequence: 'MKRISTTITTTITITTGNGAG' },
+    ]);
+  });
+
+  it('treats input without a header as one sequence', () => {
+    assert.deepEqual(parseFasta('acgt acgt\nacgt', 'query'), [{ id: 'query', description: '', sequence: 'acgtacgtacgt' }]);
+    assert.throws(() => parseFasta(' \n;only a comment\n'), /No sequences found/);
+  });
+
+  it('finds duplicate IDs', () => {
+    const records = parseFasta('>a\nAC\n>b\nGT\n>a\nTT\n');
+    assert.deepEqual(duplicateIds(records), [{ id: 'a', indexes: [0, 2] }]);
+  });
+});
+
+describe('sequence checks', () => {
+  it('accepts IUPAC ambiguity codes and reports other characters', () => {
+    const [record] = parseFasta('>s\nACGTRYKMSWBDHVN-XJ1');
+    const report = checkSequence(record, 0, 'dna', DEFAULTS);
+    assert.equal(report.valid, false);
+    assert.equal(report.ambiguous_count, 11);
+    assert.deepEqual(report.invalid_characters.map((entry) => [entry.character, entry.positions]), [['X', [17]], ['J', [18]], ['1', [19]]]);
+    assert.match(report.issues[0], /Invalid DNA character 'X' \(1x, first at 17\)/);
+  });
+
+  it('distinguishes DNA from RNA', () => {
+    const [record] = parseFasta('ACGU');
+    assert.equal(checkSequence(record, 0, 'rna', DEFAULTS).valid, true);
+    assert.equal(checkSequence(record, 0, 'dna', DEFAULTS).valid, false);
+  });
+
+  it('computes GC content over unambiguous bases', () => {
+    assert.equal(gcContent('GGCCAATT'), 50);
+    assert.equal(gcContent('GCNNNNA'), 66.67);
+    assert.equal(gcContent('SSW'), 66.67);
+    assert.equal(gcContent('NNN'), undefined);
+  });
+
+  it('reports runs of N at or above the minimum length', () => {
+    assert.deepEqual(findRuns('ACNNNGTNNNNNNNNNNNNA', 'N', 10), [{ start: 8, end: 19, length: 12 }]);
+    const [record] = parseFasta('ACNNNGT');
+    const report = checkSequence(record, 0, 'dna', { minNRun: 3, frame: 1 });
+    assert.deepEqual(report.n_runs, [{ start: 3, end: 5, length: 3 }]);
+    assert.match(report.issues[0], /1 run\(s\) of 3\+ N covering 3 position\(s\)/);
+  });
+
+  it('reports internal stop codons in the chosen frame but not the terminal one', () => {
+    const [record] = parseFasta('ATGTAAGGGTGA');
+    assert.deepEqual(checkSequence(record, 0, 'dna', DEFAULTS).internal_stop_codons, [{ position: 4, codon: 'TAA' }]);
+    assert.deepEqual(checkSequence(record, 0, 'dna', { minNRun: 10, frame: 2 }).internal_stop_codons, []);
+
+    const [rna] = parseFasta('AUGUAGAAAUAA');
+    assert.deepEqual(checkSequence(rna, 0, 'rna', DEFAULTS).internal_stop_codons, [{ position: 4, codon: 'UAG' }]);
+
+    const [protein] = parseFasta('MK*LV*');
+    const report = checkSequence(protein, 0, 'protein', DEFAULTS);
+    assert.deepEqual(report.internal_stop_codons, [{ position: 3, codon: '*' }]);
+    assert.equal(report.gc_content, undefined);
+  });
+});
+
+describe('sequence operations', () => {
+  it('reverse complements IUPAC codes, case and RNA', () => {
+    assert.equal(reverseComplement('ATGCRYKMBDHVN-'), '-NBDHVKMRYGCAT');
+    assert.equal(reverseComplement('acgTN'), 'NAcgt');
+    assert.equal(reverseComplement('AUGC'), 'GCAU');
+  });
+
+  it('translates with NCBI genetic codes', () => {
+    assert.equal(translate('ATGTGGTGATAA'), 'MW**');
+    // TGA is tryptophan in vertebrate mitochondria and AGA a stop
+    assert.equal(translate('ATGTGAAGA', 2), 'MW*');
+    // GTG starts bacterial CDSs and is read as M only in that position
+    assert.equal(translate('GTGGTGTAA', 11), 'VV*');
+    assert.equal(translate('GTGGTGTAA', 11, { cds: true }), 'MV');
+    assert.throws(() => translate('ATG', 7), /Unknown genetic code 7/);
+  });
+
+  it('defines every NCBI genetic code and ends CDSs at context-dependent stops', () => {
+    assert.deepEqual(GENETIC_CODE_IDS, [1, 2, 3, 4, 5, 6, 9, 10, 11, 12, 13, 14, 16, 21, 22, 23, 24, 25, 26, 27, 28, 29, 30, 31, 32, 33]);
+    for (const table of Object.values(GENETIC_CODES)) assert.deepEqual([table.amino_acids.length, table.starts.length], [64, 64]);
+    // In the Karyorelict code TGA is tryptophan inside a gene and a stop at its end
+    assert.equal(translate('ATGTGATGA', 27), 'MWW');
+    assert.equal(translate('ATGTGATGA', 27, { cds: true }), 'MW');
+    // TAA and TAG are glutamate in Blastocrithidia, and end a CDS likewise
+    assert.equal(translate('ATGTAGTAA', 31, { cds: true }), 'ME');
+    assert.equal(translate('ATGCTGTAA', 26), 'MA*');
+  });
+
+  it('translates ambiguous codons only when every reading agrees', () => {
+    // GCN is always alanine, while ATN may be isoleucine or methionine
+    assert.equal(translate('GCNATNTAR'), 'AX*');
+    assert.equal(translate('ATGAA'), 'M');
+  });
+
+  it('wraps FASTA lines', () => {
+    assert.equal(formatFasta('s desc', 'ACGTACGTAC', 4), '>s desc\nACGT\nACGT\nAC\n');
+    assert.equal(formatFasta('s', 'ACGTACGTAC', 0), '>s\nACGTACGTAC\n');
+  });
+
+  it('reads regions of a FASTA record across wrapped lines', async () => {
+    const thrL = await readFastaRecord(GENOME_FASTA, 'NC_000913.3', 190, 255);
+    assert.equal(thrL?.record_length, 2799);
+    assert.equal(thrL?.sequence, 'ATGAAACGCATTAGCACCACCATTACCACCACCATCACCATTACCACAGGTAACGGTGCGGGCTGA');
+    assert.equal(translate(thrL!.sequence, 11, { cds: true }), 'MKRISTTITTTITITTGNGAG');
+
+    const tail = await readFastaRecord(GENOME_FASTA, 'NC_000913.3', 2790);
+    assert.equal(tail?.sequence.length, 10);
+    assert.equal(await readFastaRecord(GENOME_FASTA, 'NC_000000.1'), undefined);
+  });
+});
+
+describe('get_sequence_data', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('downloads the genome once and cuts later regions from the workspace', async () => {
+    const first = await harness.callTool('get_sequence_data', { accession: 'NC_000913.3', start_position: 190, end_position: 255, line_width: 60 });
+    assert.equal(first.isError, false, first.text);
+    assert.equal(first.json.source.type, 'download');
+    assert.equal(first.json.source.assembly_accession, 'GCF_000005845.2');
+    assert.equal(first.json.sequence_length, 2799);
+    assert.deepEqual(first.json.region, { start: 190, end: 255, strand: 'plus', length: 66 });
+    assert.equal(first.json.fasta.split('\n')[1].length, 60);
+
+    harness.mock.reset();
+    const second = await harness.callTool('get_sequence_data', { accession: 'NC_000913.3', start_position: 1, end_position: 10, strand: 'both', format: 'json' });
+    assert.equal(second.json.source.type, 'workspace');
+    // Only the assembly lookup; the genome is not downloaded again
+    assert.deepEqual(harness.mock.requests.map((request) => request.path), ['/genome/sequence_accession/NC_000913.3/sequence_assemblies']);
+    assert.deepEqual(second.json.sequences.map((entry: any) => [entry.id, entry.sequence]), [
+      ['NC_000913.3:1-10', 'AGCTTTTCAT'],
+      ['NC_000913.3:c10-1', 'ATGAAAAGCT'],
+    ]);
+  });
+
+  it('reads proteins from the gene package', async () => {
+    const result = await harness.callTool('get_sequence_data', { accession: 'NP_414542.1', line_width: 0 });
+    assert.equal(result.isError, false, result.text);
+    assert.equal(result.json.sequence_type, 'protein');
+    assert.equal(result.json.fasta, '>NP_414542.1 thr operon leader peptide [organism=Escherichia coli str. K-12 substr. MG1655] [GeneID=944742]\nMKRISTTITTTITITTGNGAG\n');
+    assert.deepEqual(harness.mock.requests.map((request) => [request.path, request.query.include_annotation_type]), [
+      ['/gene/accession/NP_414542.1/download', 'FASTA_PROTEIN'],
+    ]);
+  });
+
+  it('skips the assembly lookup when the assembly is given', async () => {
+    const result = await harness.callTool('get_sequence_data', { accession: 'NC_000913.3', assembly_accession: 'GCF_000005845.2', end_position: 3 });
+    assert.equal(result.json.fasta, '>NC_000913.3:1-3 Escherichia coli str. K-12 substr. MG1655, complete genome (excerpt)\nAGC\n');
+    assert.deepEqual(harness.mock.requests, []);
+  });
+
+  it('rejects regions outside the sequence', async () => {
+    const beyond = await harness.callTool('get_sequence_data', { accession: 'NC_000913.3', assembly_accession: 'GCF_000005845.2', start_position: 5000 });
+    assert.equal(beyond.isError, true);
+    assert.match(beyond.text, /start_position 5000 is beyond the end of NC_000913\.3 \(2799 residues\)/);
+
+    const reversed = await harness.callTool('get_sequence_data', { accession: 'NC_000913.3', start_position: 20, end_position: 10 });
+    assert.match(reversed.text, /end_position 10 is before start_position 20/);
+
+    const protein = await harness.callTool('get_sequence_data', { accession: 'NP_414542.1', strand: 'minus' });
+    assert.match(protein.text, /Protein sequences have no minus strand/);
+  });
+});
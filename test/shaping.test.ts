@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { projectFields, shapeData, shapeToolResult, summarize, trimToBudget } from '../src/shaping.js';
+import { Harness, startHarness } from './harness.js';
+
+const REPORT = {
+  accession: 'GCF_000005845.2',
+  organism: { tax_id: 511145, organism_name: 'Escherichia coli str. K-12 substr. MG1655' },
+  assembly_info: { assembly_name: 'ASM584v2', assembly_level: 'Complete Genome', assembly_type: 'haploid', release_date: '2013-09-26', submitter: 'Univ. Wisconsin', biosample: { attributes: [] } },
+  assembly_stats: { total_sequence_length: '4641652', number_of_contigs: 1, contig_n50: 4641652, gc_percent: 50.5 },
+  annotation_info: { name: 'NCBI RefSeq', provider: 'NCBI RefSeq', stats: { gene_counts: { total: 4494, protein_coding: 4298 } } },
+  checkm_info: { completeness: 100, contamination: '0.5' },
+};
+
+describe('response shaping', () => {
+  it('projects dot-separated fields through arrays, keeping element positions', () => {
+    const data = { total_count: 2, reports: [REPORT, { accession: 'GCA_1', organism: { organism_name: 'Example' } }] };
+    assert.deepEqual(projectFields(data, ['reports.accession', 'reports.assembly_stats.contig_n50', 'total_count']), {
+      reports: [
+        { accession: 'GCF_000005845.2', assembly_stats: { contig_n50: 4641652 } },
+        { accession: 'GCA_1' },
+      ],
+      total_count: 2,
+    });
+    assert.deepEqual(projectFields(data, ['missing.path']), {});
+  });
+
+  it('summarizes reports as genome or assembly records wherever they appear', () => {
+    const genome = summarize({ reports: [REPORT] }, 'genome').reports[0];
+    assert.deepEqual(Object.keys(genome), ['accession', 'organism', 'assembly_info', 'assembly_stats', 'annotation_info']);
+    assert.equal(genome.assembly_info.submission_date, '2013-09-26');
+    assert.equal(genome.assembly_stats.total_sequence_length, 4641652);
+    assert.equal(genome.assembly_stats.number_of_scaffolds, 0);
+    assert.deepEqual(genome.annotation_info.stats.gene_counts, { total: 4494, protein_coding: 4298, non_coding: 0 });
+
+    const assembly = summarize({ assemblies: [{ assembly: REPORT }] }, 'assembly').assemblies[0].assembly;
+    assert.equal(assembly.assembly_accession, 'GCF_000005845.2');
+    assert.equal(assembly.assembly_level, 'Complete Genome');
+    assert.equal(assembly.assembly_stats.gc_percent, 50.5);
+    assert.deepEqual(assembly.checkm_info, { completeness: 100, contamination: 0.5, strain_heterogeneity: 0 });
+    assert.equal(assembly.annotation_info, undefined);
+  });
+
+  it('halves the largest arrays until the response fits and notes what was trimmed', () => {
+    const data = { genes: Array.from({ length: 100 }, (_, index) => ({ gene_id: index, symbol: `gene${index}` })), tags: ['a', 'b'] };
+    const trimmed = trimToBudget(data, 1500);
+    assert.ok(JSON.stringify(data).length <= 1500);
+    assert.deepEqual(trimmed, [{ path: 'genes', original_length: 100, returned_length: data.genes.length }]);
+    assert.equal(data.genes.length, 25);
+    assert.deepEqual(data.tags, ['a', 'b']);
+
+    const shaped = shapeData({ items: Array.from({ length: 500 }, (_, index) => index) }, { maxChars: 1000 });
+    assert.equal(shaped._response_shaping.trimmed_arrays[0].original_length, 500);
+    assert.match(shaped._response_shaping.note, /exceeded 1000 characters/);
+    // Top-level arrays are wrapped so the note has somewhere to go
+    assert.ok(Array.isArray(shapeData(Array.from({ length: 500 }, (_, index) => index), { maxChars: 1000 }).data));
+  });
+
+  it('leaves results alone without shaping arguments and passes non-JSON text through', () => {
+    const result = { content: [{ type: 'text', text: '{"a":1}' }, { type: 'text', text: 'plain text' }] };
+    assert.equal(shapeToolResult(result, { maxChars: 1000 }), result);
+    const projected = shapeToolResult(result, { fields: ['a'], maxChars: 1000 });
+    assert.deepEqual(projected.content.map((block) => block.text), [JSON.stringify({ a: 1 }, null, 2), 'plain text']);
+  });
+});
+
+describe('shaped tool responses', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('applies the summary view and field projection to tool results', async () => {
+    const result = await harness.callTool('search_genomes', { tax_id: 562, view: 'summary', fields: ['genomes.accession', 'genomes.assembly_stats.contig_n50'] });
+    assert.equal(result.isError, false, result.text);
+    assert.deepEqual(Object.keys(result.json), ['genomes']);
+    assert.ok(result.json.genomes.length > 0);
+    for (const genome of result.json.genomes) {
+      assert.deepEqual(Object.keys(genome), ['accession', 'assembly_stats']);
+      assert.deepEqual(Object.keys(genome.assembly_stats), ['contig_n50']);
+    }
+  });
+});
@@ -0,0 +1,182 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import axios from 'axios';
+import { fetchTaxonomyNodes, isWithinTaxon, lowestCommonAncestor, pathDistance } from '../src/taxonomy.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('taxonomy lookups', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('resolves tax IDs and names in one request and reports unknown taxa', async () => {
+    const apiClient = axios.create({ baseURL: harness.mock.baseUrl });
+    const { nodes, unresolved } = await fetchTaxonomyNodes(apiClient, [10090, 'Mammalia', 'house mouse', 'Unicornia']);
+    assert.deepEqual(harness.mock.requests.map((request) => request.path), ['/taxonomy/taxon/10090,Mammalia,house%20mouse,Unicornia']);
+    assert.deepEqual(unresolved, ['Unicornia']);
+    assert.equal(nodes.get('house mouse')?.tax_id, 10090);
+    assert.equal(nodes.get('Mammalia')?.rank, 'CLASS');
+
+    const mouse = nodes.get('10090')!;
+    assert.equal(mouse.classification.order.name, 'Rodentia');
+    assert.ok(isWithinTaxon(mouse, 40674));
+    assert.ok(!isWithinTaxon(mouse, 9443));
+
+    // An ancestor of the other taxa is their lowest common ancestor, one level up per lineage step
+    const mammalia = nodes.get('Mammalia')!;
+    assert.equal(lowestCommonAncestor([mouse, mammalia]), 40674);
+    assert.equal(pathDistance(mouse, mammalia), mouse.lineage.length - mammalia.lineage.length);
+  });
+});
+
+describe('find_orthologs', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('filters orthologs to higher taxa through the lineages of their organisms', async () => {
+    const result = await harness.callTool('find_orthologs', { gene_id: 672, target_organisms: ['Rodentia', 'Mammalia', 'Aves', 'Escherichia coli'] });
+    assert.equal(result.isError, false, result.text);
+    assert.deepEqual(harness.mock.requests.map((request) => request.path), [
+      '/taxonomy/taxon_suggest/Rodentia',
+      '/taxonomy/taxon_suggest/Mammalia',
+      '/taxonomy/taxon_suggest/Aves',
+      '/taxonomy/taxon_suggest/Escherichia%20coli',
+      '/taxonomy/taxon/9989,40674,8782,562',
+      '/gene/id/672/orthologs',
+      '/taxonomy/taxon/9598,10090,10116,9031,7955',
+    ]);
+    assert.deepEqual(result.json.gene, { gene_id: '672', symbol: 'BRCA1', organism: 'Homo sapiens', tax_id: 9606 });
+    // Each ortholog appears once, under the first target containing it; the query gene is left out
+    assert.deepEqual(result.json.orthologs.map((gene: any) => [gene.organism, gene.target]), [
+      ['Mus musculus', 'Rodentia'],
+      ['Rattus norvegicus', 'Rodentia'],
+      ['Pan troglodytes', 'Mammalia'],
+      ['Gallus gallus', 'Aves'],
+    ]);
+    assert.deepEqual(result.json.targets_without_orthologs, ['Escherichia coli']);
+    assert.equal(result.json.total_orthologs, 5);
+  });
+
+  it('returns all orthologs up to max_results without targets', async () => {
+    const result = await harness.callTool('find_orthologs', { gene_id: 672, max_results: 2 });
+    assert.deepEqual(result.json.orthologs.map((gene: any) => gene.gene_id), ['449497', '12189']);
+    assert.equal(result.json.truncated, true);
+    assert.equal(harness.mock.requestsTo(/^\/taxonomy/).length, 0);
+  });
+
+  it('rejects target organisms that taxonomy does not know', async () => {
+    const result = await harness.callTool('find_orthologs', { gene_id: 672, target_organisms: ['mouse', 'Unicornia'] });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /No organism in NCBI Taxonomy matches "Unicornia"/);
+    assert.equal(harness.mock.requestsTo(/orthologs$/).length, 0);
+  });
+});
+
+describe('get_phylogenetic_tree', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('collapses species to their genera and draws the ranks of internal nodes', async () => {
+    const result = await harness.callTool('get_phylogenetic_tree', { tax_ids: [9606, 9598, 10090, 10116], tree_type: 'genus', format: 'ascii', include_distances: false });
+    assert.equal(result.isError, false, result.text);
+    assert.deepEqual(harness.mock.requests.map((request) => request.path), ['/taxonomy/taxon/9606,9598,10090,10116', '/taxonomy/taxon/314146,207598,39107']);
+    assert.equal(result.json.tree, [
+      'Euarchontoglires (superorder)',
+      '├── Homininae (subfamily)',
+      '│   ├── Homo (genus)',
+      '│   └── Pan (genus)',
+      '└── Murinae (subfamily)',
+      '    ├── Mus (genus)',
+      '    └── Rattus (genus)',
+    ].join('\n'));
+    assert.equal(result.json.leaf_count, 4);
+  });
+
+  it('keeps a requested taxon that is the ancestor of others as an internal node', async () => {
+    const result = await harness.callTool('get_phylogenetic_tree', { tax_ids: [40674, 9606, 10090, 9606], tree_type: 'strain', format: 'json' });
+    const mammalia = result.json.tree;
+    assert.deepEqual([mammalia.name, mammalia.rank, mammalia.input_tax_ids], ['Mammalia', 'class', [40674]]);
+    assert.deepEqual(result.json.lowest_common_ancestor, { tax_id: 40674, name: 'Mammalia', rank: 'class' });
+
+    const [euarchontoglires] = mammalia.children;
+    assert.deepEqual([euarchontoglires.tax_id, euarchontoglires.branch_length, euarchontoglires.input_tax_ids], [314146, 4, undefined]);
+    assert.deepEqual(euarchontoglires.children.map((node: any) => [node.name, node.branch_length]), [['Homo sapiens', 9], ['Mus musculus', 9]]);
+  });
+
+  it('merges taxa that collapse to the same rank and rejects unknown IDs', async () => {
+    const merged = await harness.callTool('get_phylogenetic_tree', { tax_ids: [9606, 9598], tree_type: 'family' });
+    assert.equal(merged.json.tree, 'Hominidae;');
+    assert.equal(merged.json.leaf_count, 1);
+
+    const unknown = await harness.callTool('get_phylogenetic_tree', { tax_ids: [9606, 999999999] });
+    assert.match(unknown.text, /Unknown taxonomy IDs: 999999999/);
+  });
+});
+
+describe('taxonomy_relationship', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('reports the ranks each pair shares and names ancestors outside the standard ranks', async () => {
+    const result = await harness.callTool('taxonomy_relationship', { taxa: ['Homo sapiens', 'chimpanzee', 'Gallus gallus'] });
+    assert.equal(result.isError, false, result.text);
+    assert.deepEqual(harness.mock.requests.map((request) => request.path), [
+      '/taxonomy/taxon_suggest/Homo%20sapiens',
+      '/taxonomy/taxon_suggest/chimpanzee',
+      '/taxonomy/taxon_suggest/Gallus%20gallus',
+      '/taxonomy/taxon/9606,9598,9031',
+      '/taxonomy/taxon/32524,207598',
+    ]);
+    assert.deepEqual(result.json.lowest_common_ancestor, { tax_id: 32524, name: 'Amniota', rank: 'clade' });
+
+    const byRank = Object.fromEntries(result.json.rank_agreement.map((row: any) => [row.rank, row]));
+    assert.deepEqual(byRank.phylum, { rank: 'phylum', taxa: ['Chordata', 'Chordata', 'Chordata'], agree: true });
+    assert.deepEqual(byRank.class, { rank: 'class', taxa: ['Mammalia', 'Mammalia', 'Aves'], agree: false });
+
+    const [apes, humanChicken] = result.json.pairs;
+    assert.deepEqual(apes.lowest_common_ancestor, { tax_id: 207598, name: 'Homininae', rank: 'subfamily' });
+    assert.deepEqual(apes.shared_ranks, ['superkingdom', 'kingdom', 'phylum', 'class', 'order', 'family']);
+    assert.equal(apes.path_distance, 4);
+    assert.deepEqual(humanChicken.shared_ranks, ['superkingdom', 'kingdom', 'phylum']);
+  });
+
+  it('rejects taxa that taxonomy does not know', async () => {
+    const result = await harness.callTool('taxonomy_relationship', { taxa: ['human', 'Unicornia'] });
+    assert.match(result.text, /No organism in NCBI Taxonomy matches "Unicornia"/);
+  });
+});
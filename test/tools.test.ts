@@ -0,0 +1,410 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { BUILTIN_TOOLS } from '../src/tools/index.js';
+import { Harness, startHarness, ToolCall } from './harness.js';
+import { RecordedRequest } from './mock-ncbi-server.js';
+
+// Contract interfaces
+interface ExpectedRequest {
+  method: 'GET' | 'POST';
+  path: string;
+  // Query parameters (GET) or body fields (POST) that must be sent, compared as strings
+  params?: Record<string, string | number | boolean>;
+}
+
+interface ToolContract {
+  // Arguments, or a setup step that returns them; requests made during setup are not checked
+  args: Record<string, unknown> | ((harness: Harness) => Promise<Record<string, unknown>>);
+  // Every request the tool makes; order is not checked since some run in parallel
+  requests: ExpectedRequest[];
+  expect: (result: ToolCall) => void;
+}
+
+const CONTRACTS: Record<string, ToolContract> = {
+  search_genomes: {
+    args: { tax_id: 562, assembly_level: 'complete', assembly_source: 'refseq', max_results: 2 },
+    requests: [{ method: 'GET', path: '/genome/taxon/562/dataset_report', params: { limit: 2, assembly_level: 'complete', assembly_source: 'refseq' } }],
+    expect: ({ json }) => {
+      assert.equal(json.total_count, 3);
+      assert.equal(json.returned_count, 2);
+      assert.equal(json.page_token, 'page-2');
+      assert.equal(json.genomes[0].accession, 'GCF_000005845.2');
+    },
+  },
+  get_genome_info: {
+    args: { accession: 'GCF_000005845.2' },
+    requests: [{ method: 'GET', path: '/genome/accession/GCF_000005845.2/dataset_report', params: { include_annotation_type: 'GENOME_GFF,GENOME_GBFF' } }],
+    expect: ({ json }) => assert.equal(json.reports[0].assembly_info.assembly_name, 'ASM584v2'),
+  },
+  get_genome_summary: {
+    args: { accession: 'GCF_000005845.2' },
+    requests: [{ method: 'GET', path: '/genome/accession/GCF_000005845.2/dataset_report' }],
+    expect: ({ json }) => {
+      assert.equal(json.accession, 'GCF_000005845.2');
+      assert.equal(json.summary.reports[0].organism.tax_id, 511145);
+    },
+  },
+  search_genes: {
+    args: { gene_symbol: 'BRCA1', tax_id: 9606, max_results: 5 },
+    requests: [{ method: 'GET', path: '/gene/search', params: { symbol: 'BRCA1', taxon: '9606', limit: 5 } }],
+    expect: ({ json }) => {
+      assert.equal(json.returned_count, 1);
+      assert.equal(json.genes[0].symbol, 'BRCA1');
+    },
+  },
+  get_gene_info: {
+    args: { gene_symbol: 'BRCA1', organism: 'human' },
+    requests: [
+      { method: 'GET', path: '/taxonomy/taxon_suggest/human' },
+      { method: 'GET', path: '/gene/search', params: { symbol: 'BRCA1', taxon: '9606', limit: 1 } },
+      { method: 'GET', path: '/gene/id/672' },
+    ],
+    expect: ({ json }) => assert.equal(json.reports[0].gene.gene_id, '672'),
+  },
+  get_gene_sequences: {
+    args: { gene_id: 944742, sequence_type: 'protein' },
+    requests: [{ method: 'GET', path: '/gene/id/944742/download', params: { include_annotation_type: 'FASTA_PROTEIN' } }],
+    expect: ({ json }) => {
+      assert.equal(json.gene_id, 944742);
+      assert.equal(json.sequences[0].accession, 'NP_414542.1');
+    },
+  },
+  search_taxonomy: {
+    args: { query: 'Escherichia coli', rank: 'species' },
+    requests: [{ method: 'GET', path: '/taxonomy/search', params: { q: 'Escherichia coli', limit: 50, rank: 'species' } }],
+    expect: ({ json }) => {
+      assert.equal(json.total_count, 2);
+      assert.equal(json.taxonomy[0].tax_id, 562);
+    },
+  },
+  get_taxonomy_info: {
+    args: { tax_id: 9606 },
+    requests: [{ method: 'GET', path: '/taxonomy/taxon/9606', params: { include_lineage: true } }],
+    expect: ({ json }) => assert.equal(json.taxonomy_nodes[0].taxonomy.organism_name, 'Homo sapiens'),
+  },
+  get_organism_info: {
+    args: { organism: 'Escherichia coli' },
+    requests: [
+      { method: 'GET', path: '/taxonomy/taxon_suggest/Escherichia%20coli' },
+      { method: 'GET', path: '/taxonomy/taxon/562' },
+      { method: 'GET', path: '/genome/search', params: { taxon: '562', limit: 10 } },
+    ],
+    expect: ({ json }) => {
+      assert.equal(json.genome_count, 1);
+      assert.equal(json.available_genomes[0].assembly.assembly_accession, 'GCF_000005845.2');
+    },
+  },
+  taxonomy_relationship: {
+    args: { taxa: ['human', '10090'] },
+    requests: [
+      { method: 'GET', path: '/taxonomy/taxon_suggest/human' },
+      { method: 'GET', path: '/taxonomy/taxon/9606,10090' },
+      { method: 'GET', path: '/taxonomy/taxon/314146' },
+    ],
+    expect: ({ json }) => {
+      assert.deepEqual(json.lowest_common_ancestor, { tax_id: 314146, name: 'Euarchontoglires', rank: 'superorder' });
+      assert.equal(json.pairs[0].path_distance, 18);
+    },
+  },
+  search_assemblies: {
+    args: { query: 'GRCh38', tax_id: 9606, assembly_source: 'refseq', exclude_atypical: true },
+    requests: [{ method: 'GET', path: '/assembly/search', params: { q: 'GRCh38', taxon: '9606', assembly_source: 'refseq', exclude_atypical: true } }],
+    expect: ({ json }) => assert.equal(json.assemblies[0].assembly_accession, 'GCF_000001405.40'),
+  },
+  get_assembly_info: {
+    args: { assembly_accession: 'GCF_000001405.40', include_annotation: false },
+    requests: [{ method: 'GET', path: '/assembly/accession/GCF_000001405.40' }],
+    expect: ({ json }) => assert.equal(json.assemblies[0].assembly_name, 'GRCh38.p14'),
+  },
+  get_assembly_reports: {
+    args: { assembly_accession: 'GCF_000001405.40', report_type: 'sequence_report' },
+    requests: [{ method: 'GET', path: '/assembly/accession/GCF_000001405.40/sequence_reports' }],
+    expect: ({ json }) => {
+      assert.equal(json.report_type, 'sequence_report');
+      assert.equal(json.report.reports[0].chr_name, '1');
+    },
+  },
+  download_genome_data: {
+    args: { accession: 'GCF_000005845.2', file_format: 'gff3' },
+    requests: [{ method: 'GET', path: '/genome/accession/GCF_000005845.2/download', params: { include_annotation_type: 'GENOME_GFF' } }],
+    expect: ({ json }) => {
+      assert.equal(json.file_format, 'gff3');
+      assert.deepEqual(json.files.map((file: any) => file.package_path), ['ncbi_dataset/data/GCF_000005845.2/genomic.gff']);
+      assert.equal(json.files[0].checksum_verified, true);
+    },
+  },
+  download_genome_package: {
+    args: { accessions: ['GCF_000005845.2', 'GCF_000008865.2'], file_formats: ['gff3'], package_name: 'contract' },
+    requests: [{
+      method: 'POST',
+      path: '/genome/download',
+      params: { accessions: 'GCF_000005845.2,GCF_000008865.2', include_annotation_type: 'GENOME_GFF', hydrated: 'DATA_REPORT_ONLY' },
+    }],
+    expect: ({ json }) => {
+      assert.equal(json.assembly_count, 2);
+      assert.equal(json.fetch.file_count, 1);
+      assert.ok(json.files.some((file: any) => file.package_path === 'ncbi_dataset/fetch.txt'));
+    },
+  },
+  // Rehydrates the package downloaded by the download_genome_package contract
+  rehydrate_package: {
+    args: { package_name: 'contract' },
+    requests: [{ method: 'GET', path: `/datasets/fetch_h/${Buffer.from('genome-package/ncbi_dataset/data/GCF_000005845.2/genomic.gff').toString('base64url')}` }],
+    expect: ({ json }) => {
+      assert.equal(json.downloaded, 1);
+      assert.equal(json.complete, true);
+      assert.equal(json.files[0].package_path, 'ncbi_dataset/data/GCF_000005845.2/genomic.gff');
+    },
+  },
+  batch_assembly_info: {
+    args: { accessions: ['GCF_000005845.2', 'GCF_000008865.2'] },
+    requests: [{ method: 'POST', path: '/assembly/accession', params: { accessions: 'GCF_000005845.2,GCF_000008865.2' } }],
+    expect: ({ json }) => assert.equal(json.returned_count, 2),
+  },
+  search_virus_genomes: {
+    args: { virus_name: 'SARS-CoV-2', host: 'human', collection_date_start: '2019-12-01' },
+    requests: [
+      { method: 'GET', path: '/taxonomy/taxon_suggest/human' },
+      { method: 'GET', path: '/virus/search', params: { q: 'SARS-CoV-2', host: '9606', collection_date_start: '2019-12-01' } },
+    ],
+    expect: ({ json }) => assert.equal(json.virus_genomes[0].accession, 'NC_045512.2'),
+  },
+  get_virus_info: {
+    args: { accession: 'NC_045512.2', include_proteins: false },
+    requests: [{ method: 'GET', path: '/virus/accession/NC_045512.2', params: { include_metadata: true } }],
+    expect: ({ json }) => assert.equal(json.reports[0].length, 29903),
+  },
+  search_proteins: {
+    args: { protein_name: 'breast cancer', gene_symbol: 'BRCA1', tax_id: 9606 },
+    requests: [{ method: 'GET', path: '/protein/search', params: { q: 'breast cancer', gene_symbol: 'BRCA1', taxon: '9606' } }],
+    expect: ({ json }) => assert.equal(json.proteins[0].accession, 'NP_009225.1'),
+  },
+  get_protein_info: {
+    args: { protein_accession: 'NP_009225.1', include_structure: true },
+    requests: [{ method: 'GET', path: '/protein/accession/NP_009225.1', params: { include_sequence: true, include_domains: true, include_structure: true } }],
+    expect: ({ json }) => assert.equal(json.domains.length, 2),
+  },
+  get_genome_annotation: {
+    // download_genome_data left the GFF3 in the workspace, so the GTF is downloaded
+    args: { accession: 'GCF_000005845.2', file_format: 'gtf', feature_type: 'CDS', chromosome: 'NC_000913.3', start_position: 1, end_position: 1000 },
+    requests: [{ method: 'GET', path: '/genome/accession/GCF_000005845.2/download', params: { include_annotation_type: 'GENOME_GTF' } }],
+    expect: ({ json }) => assert.deepEqual(json.features.map((feature: any) => feature.attributes.protein_id), ['NP_414542.1', 'NP_414543.1']),
+  },
+  search_genome_features: {
+    args: { feature_name: 'lacZ', feature_type: 'gene', tax_id: 562 },
+    requests: [{ method: 'GET', path: '/genome/features/search', params: { q: 'lacZ', feature_type: 'gene', taxon: '562' } }],
+    expect: ({ json }) => assert.equal(json.features[0].name, 'lacZ'),
+  },
+  compare_genomes: {
+    args: { accessions: ['GCF_000005845.2', 'GCF_000008865.2'] },
+    requests: [{ method: 'GET', path: '/genome/accession/GCF_000005845.2,GCF_000008865.2/dataset_report' }],
+    expect: ({ json }) => {
+      assert.deepEqual(json.genomes.map((genome: any) => genome.total_sequence_length), [4641652, 5594605]);
+      assert.equal(json.differences[0].percent_difference.total_sequence_length, 20.53);
+    },
+  },
+  find_orthologs: {
+    args: { gene_symbol: 'BRCA1', source_organism: 'human', target_organisms: ['mouse', 'rat'] },
+    requests: [
+      { method: 'GET', path: '/taxonomy/taxon_suggest/human' },
+      { method: 'GET', path: '/gene/search', params: { symbol: 'BRCA1', taxon: '9606', limit: 1 } },
+      { method: 'GET', path: '/taxonomy/taxon_suggest/mouse' },
+      { method: 'GET', path: '/taxonomy/taxon_suggest/rat' },
+      { method: 'GET', path: '/taxonomy/taxon/10090,10116' },
+      { method: 'GET', path: '/gene/id/672/orthologs', params: { page_size: 1000 } },
+    ],
+    expect: ({ json }) => assert.deepEqual(json.orthologs.map((gene: any) => [gene.symbol, gene.tax_id]), [['Brca1', 10090], ['Brca1', 10116]]),
+  },
+  get_sequence_data: {
+    args: { accession: 'NC_000913.3', start_position: 190, end_position: 255, translate: true, genetic_code: 11, cds: true },
+    requests: [
+      { method: 'GET', path: '/genome/sequence_accession/NC_000913.3/sequence_assemblies' },
+      { method: 'GET', path: '/genome/accession/GCF_000005845.2/download', params: { include_annotation_type: 'GENOME_FASTA' } },
+    ],
+    expect: ({ json }) => {
+      assert.equal(json.source.type, 'download');
+      assert.match(json.fasta, /^>NC_000913\.3:190-255 .* \[translated, genetic_code=11\]\nMKRISTTITTTITITTGNGAG\n$/);
+    },
+  },
+  blast_search: {
+    args: { query_sequence: '>thrL\nATGAAACGCATTAGCACCACCATTACCACCACCATCACCATTACCACAGGTAACGGTGCGGGCTGA', organism_filter: 'Escherichia coli', max_hits: 10 },
+    requests: [
+      { method: 'GET', path: '/taxonomy/taxon_suggest/Escherichia%20coli' },
+      {
+        method: 'POST',
+        path: '/blast/Blast.cgi',
+        params: { CMD: 'Put', PROGRAM: 'blastn', DATABASE: 'nt', MEGABLAST: 'on', HITLIST_SIZE: 10, EXPECT: 0.001, ENTREZ_QUERY: 'txid562[Organism:exp]' },
+      },
+      { method: 'GET', path: '/blast/Blast.cgi', params: { CMD: 'Get', FORMAT_OBJECT: 'SearchInfo' } },
+      { method: 'GET', path: '/blast/Blast.cgi', params: { CMD: 'Get', FORMAT_OBJECT: 'SearchInfo' } },
+      { method: 'GET', path: '/blast/Blast.cgi', params: { CMD: 'Get', FORMAT_TYPE: 'JSON2_S' } },
+    ],
+    expect: ({ json }) => {
+      assert.match(json.rid, /^MOCKRID\d+$/);
+      assert.equal(json.hit_count, 2);
+      assert.deepEqual(json.hits[0], {
+        accession: 'NC_000913.3',
+        title: 'Escherichia coli str. K-12 substr. MG1655, complete genome',
+        taxid: 511145,
+        scientific_name: 'Escherichia coli str. K-12 substr. MG1655',
+        subject_length: 4641652,
+        percent_identity: 100,
+        alignment_length: 66,
+        gaps: 0,
+        evalue: 2.1e-24,
+        bit_score: 122,
+        query_start: 1,
+        query_end: 66,
+        subject_start: 190,
+        subject_end: 255,
+        subject_strand: 'plus',
+      });
+    },
+  },
+  get_phylogenetic_tree: {
+    args: { tax_ids: [9606, 9598, 10090] },
+    requests: [
+      { method: 'GET', path: '/taxonomy/taxon/9606,9598,10090' },
+      { method: 'GET', path: '/taxonomy/taxon/314146,207598' },
+    ],
+    expect: ({ json }) => {
+      assert.equal(json.tree, "(('Homo sapiens':2,'Pan troglodytes':2)Homininae:7,'Mus musculus':9)Euarchontoglires;");
+      assert.equal(json.lowest_common_ancestor.rank, 'superorder');
+    },
+  },
+  get_taxonomic_lineage: {
+    args: { tax_id: 9606, include_synonyms: true },
+    requests: [{ method: 'GET', path: '/taxonomy/taxon/9606/lineage', params: { include_ranks: true, include_synonyms: true, format: 'json' } }],
+    expect: ({ json }) => assert.equal(json.taxonomic_lineage.lineage.at(-1).name, 'Homo'),
+  },
+  get_database_stats: {
+    args: { data_type: 'genomes', organism_group: 'bacteria' },
+    requests: [{ method: 'GET', path: '/stats/database', params: { data_type: 'genomes', organism_group: 'bacteria', include_trends: false } }],
+    expect: ({ json }) => assert.equal(json.database_statistics.genomes.total, 2500000),
+  },
+  search_by_bioproject: {
+    args: { bioproject_accession: 'PRJNA57779', data_type: 'genomes', max_results: 10 },
+    requests: [{ method: 'GET', path: '/bioproject/search', params: { bioproject: 'PRJNA57779', data_type: 'genomes', limit: 10 } }],
+    expect: ({ json }) => assert.equal(json.datasets[0].bioproject, 'PRJNA57779'),
+  },
+  search_by_biosample: {
+    args: { biosample_accession: 'SAMN02604091', related_data: true },
+    requests: [{ method: 'GET', path: '/biosample/search', params: { biosample: 'SAMN02604091', include_metadata: true, related_data: true } }],
+    expect: ({ json }) => assert.equal(json.biosample_data.biosample.accession, 'SAMN02604091'),
+  },
+  get_assembly_quality: {
+    args: { accession: 'GCF_000005845.2', include_busco: false },
+    requests: [{ method: 'GET', path: '/assembly/accession/GCF_000005845.2/quality', params: { include_checkm: true, include_busco: false, include_contamination: true } }],
+    expect: ({ json }) => assert.equal(json.quality_metrics.checkm_info.completeness, 100),
+  },
+  validate_sequences: {
+    args: { sequences: ['>seq1 test\nATGCGTTAA', 'ATGNNNC'], sequence_type: 'dna', min_n_run: 3 },
+    requests: [],
+    expect: ({ json }) => {
+      assert.equal(json.record_count, 2);
+      assert.equal(json.valid_count, 2);
+      assert.deepEqual(json.records.map((record: any) => record.id), ['seq1', 'sequence_2']);
+      assert.deepEqual(json.records[1].n_runs, [{ start: 4, end: 6, length: 3 }]);
+    },
+  },
+  cache_status: {
+    args: {},
+    requests: [],
+    expect: ({ json }) => assert.equal(json.cache.enabled, false),
+  },
+  rate_limit_status: {
+    args: {},
+    requests: [],
+    expect: ({ json }) => {
+      assert.equal(json.api_key_configured, false);
+      assert.equal(json.rate_limit.requests_per_second, 1000);
+    },
+  },
+  get_job_status: {
+    args: {},
+    requests: [],
+    expect: ({ json }) => assert.ok(Array.isArray(json.jobs)),
+  },
+  get_job_result: {
+    args: async (harness) => {
+      const { json } = await harness.callTool('search_genomes', { tax_id: 562, max_results: 2, background: true });
+      await harness.callTool('get_job_result', { job_id: json.job_id, wait_ms: 5000 });
+      return { job_id: json.job_id };
+    },
+    requests: [],
+    expect: ({ json }) => {
+      assert.equal(json.returned_count, 2);
+      assert.equal(json.genomes[0].accession, 'GCF_000005845.2');
+    },
+  },
+  cancel_job: {
+    args: async (harness) => {
+      const { json } = await harness.callTool('download_genome_data', { accession: 'GCF_SLOW.1', background: true });
+      while (!harness.mock.requestsTo(/SLOW/).length) await new Promise((resolve) => setTimeout(resolve, 10));
+      return { job_id: json.job_id };
+    },
+    requests: [],
+    expect: ({ json }) => {
+      assert.equal(json.tool, 'download_genome_data');
+      assert.equal(json.status, 'cancelled');
+    },
+  },
+};
+
+const paramsOf = (request: RecordedRequest): Record<string, unknown> =>
+  request.method === 'GET' ? request.query : request.body ?? {};
+
+const assertRequest = (actual: RecordedRequest | undefined, expected: ExpectedRequest) => {
+  assert.ok(actual, `expected ${expected.method} ${expected.path} to be requested`);
+  assert.equal(actual.method, expected.method);
+  assert.equal(actual.path, expected.path);
+  const params = paramsOf(actual);
+  for (const [name, value] of Object.entries(expected.params ?? {})) {
+    assert.equal(String(params[name]), String(value), `${expected.path} parameter ${name}`);
+  }
+};
+
+describe('tool contracts', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness();
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  beforeEach(() => harness.mock.reset());
+
+  it('has a contract for every built-in tool', async () => {
+    const { tools } = await harness.client.listTools();
+    assert.deepEqual(tools.map((tool) => tool.name).sort(), Object.keys(CONTRACTS).sort());
+    assert.equal(tools.length, BUILTIN_TOOLS.length);
+  });
+
+  for (const [name, contract] of Object.entries(CONTRACTS)) {
+    it(`${name} maps its arguments and returns the NCBI response`, async () => {
+      const args = typeof contract.args === 'function' ? await contract.args(harness) : contract.args;
+      harness.mock.reset();
+      const result = await harness.callTool(name, args);
+      assert.equal(result.isError, false, result.text);
+      assert.ok(result.json, `${name} should return JSON`);
+
+      const requests = [...harness.mock.requests].sort((a, b) => a.path.localeCompare(b.path));
+      const expected = [...contract.requests].sort((a, b) => a.path.localeCompare(b.path));
+      assert.equal(requests.length, expected.length, `${name} made ${requests.map((r) => r.path).join(', ') || 'no requests'}`);
+      expected.forEach((request, index) => assertRequest(requests[index], request));
+
+      contract.expect(result);
+    });
+  }
+
+  it('follows page tokens with fetch_all and removes duplicates', async () => {
+    const result = await harness.callTool('search_genomes', { tax_id: 562, fetch_all: true });
+    assert.equal(result.isError, false, result.text);
+    assert.equal(result.json.returned_count, 3);
+    assert.deepEqual(result.json.pagination, { pages_fetched: 2, duplicates_removed: 1, truncated: false });
+    assert.deepEqual(harness.mock.requests.map((request) => request.query.page_token), [undefined, 'page-2']);
+  });
+});